@@ -21,6 +21,16 @@ import {
   getDocs
 } from 'firebase/firestore'
 import { FaSpinner } from 'react-icons/fa'
+import { hasRole } from '@/lib/roles'
+import {
+  SANCTION_KINDS,
+  SANCTION_LABELS,
+  MAX_REASON,
+  TIMEOUT_OPTIONS,
+  activeSanction,
+  type Sanction,
+  type SanctionKind
+} from '@/lib/sanctionRules'
 
 
 interface ProfileData {
@@ -30,6 +40,7 @@ interface ProfileData {
   profilePic:       string
   createdAt:        Timestamp
   investmentsPublic?: boolean
+  sanction?:         Sanction   // set by moderators through /api/users/:uid/sanction
 }
 
 interface InvestmentRecord {
@@ -45,6 +56,12 @@ export default function AccountPage() {
   const [loading, setLoading]         = useState(true)
   const [saving, setSaving]           = useState(false)
   const [tooltipOpen, setTooltipOpen] = useState<string|null>(null)
+  const [isModerator, setIsModerator] = useState(false)
+  const [sanctionKind, setSanctionKind]       = useState<SanctionKind>('mute')
+  const [sanctionMinutes, setSanctionMinutes] = useState(TIMEOUT_OPTIONS[1].minutes)
+  const [sanctionReason, setSanctionReason]   = useState('')
+  const [sanctionBusy, setSanctionBusy]       = useState(false)
+  const [sanctionError, setSanctionError]     = useState('')
   const [stats, setStats] = useState<{
     invCount: number
     totalInvested: number
@@ -56,9 +73,10 @@ export default function AccountPage() {
 
   // 1) auth listener
   useEffect(() => {
-    const unsub = onAuthStateChanged(auth, user => {
+    const unsub = onAuthStateChanged(auth, async user => {
       setCurrentUser(user)
       if (!user && !uid) router.replace('/login')
+      setIsModerator(user ? hasRole((await user.getIdTokenResult()).claims, 'moderator') : false)
     })
     return unsub
   }, [router, uid])
@@ -186,6 +204,44 @@ export default function AccountPage() {
     setSaving(false)
   }
 
+  // moderators: mute, time out or ban this user, or lift their sanction
+  const changeSanction = async (lift: boolean) => {
+    if (!currentUser || !viewingUid) return
+    setSanctionBusy(true)
+    setSanctionError('')
+    try {
+      const res = await fetch(`/api/users/${viewingUid}/sanction`, {
+        method: lift ? 'DELETE' : 'POST',
+        headers: {
+          Authorization: `Bearer ${await currentUser.getIdToken()}`,
+          'Content-Type': 'application/json'
+        },
+        body: lift ? undefined : JSON.stringify({
+          kind:    sanctionKind,
+          minutes: sanctionKind === 'timeout' ? sanctionMinutes : undefined,
+          reason:  sanctionReason
+        })
+      })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        setSanctionError(data.fields ? Object.values(data.fields).join(' ') : data.error || 'Failed to update sanction')
+        return
+      }
+      setProfile(p => p ? { ...p, sanction: data.sanction ?? undefined } : p)
+      setSanctionReason('')
+    } finally {
+      setSanctionBusy(false)
+    }
+  }
+
+  const sanction = activeSanction(profile?.sanction)
+  const sanctionText = sanction && [
+    sanction.kind === 'timeout'
+      ? `Timed out until ${new Date(sanction.until!).toLocaleString()}`
+      : sanction.kind === 'mute' ? 'Muted from posting' : 'Banned from posting, liking and voting',
+    sanction.reason
+  ].filter(Boolean).join(' — ')
+
   const pickPic = (url?: string) =>
     url && url.trim() !== '' ? url : '/default_profile.jpg'
 
@@ -202,6 +258,12 @@ export default function AccountPage() {
         </p>
       </div>
 
+      {sanction && (isOwner || isModerator) && (
+        <div className={styles.sanctionNotice}>
+          {isOwner ? 'Your account: ' : ''}{sanctionText}
+        </div>
+      )}
+
       <div className={styles.profileSection}>
         <div className={styles.profileCard}>
           <div className={styles.profileHeader}>
@@ -318,6 +380,56 @@ export default function AccountPage() {
           </div>
         </div>
       )}
+
+      {/* Sanctions (moderators viewing someone else) */}
+      {isModerator && !isOwner && (
+        <div className={styles.accountActions}>
+          <div className={styles.actionCard}>
+            <h4>Moderation</h4>
+            <p>
+              Mutes stop posting to chat and comments; timeouts and bans also stop likes and votes.
+              Timeouts lift themselves, mutes and bans last until lifted.
+            </p>
+            <div className={styles.sanctionForm}>
+              <select
+                value={sanctionKind}
+                onChange={e => setSanctionKind(e.target.value as SanctionKind)}
+                disabled={sanctionBusy}
+              >
+                {SANCTION_KINDS.map(k => <option key={k} value={k}>{SANCTION_LABELS[k]}</option>)}
+              </select>
+              {sanctionKind === 'timeout' && (
+                <select
+                  value={sanctionMinutes}
+                  onChange={e => setSanctionMinutes(Number(e.target.value))}
+                  disabled={sanctionBusy}
+                >
+                  {TIMEOUT_OPTIONS.map(o => <option key={o.minutes} value={o.minutes}>{o.label}</option>)}
+                </select>
+              )}
+              <input
+                type="text"
+                placeholder="Reason (shown to the user)"
+                maxLength={MAX_REASON}
+                value={sanctionReason}
+                onChange={e => setSanctionReason(e.target.value)}
+                disabled={sanctionBusy}
+              />
+            </div>
+            <div className={styles.sanctionForm}>
+              <button className="btn btn-secondary" onClick={() => changeSanction(false)} disabled={sanctionBusy}>
+                {sanction ? 'Replace sanction' : `Apply ${SANCTION_LABELS[sanctionKind].toLowerCase()}`}
+              </button>
+              {profile?.sanction && (
+                <button className="btn btn-secondary" onClick={() => changeSanction(true)} disabled={sanctionBusy}>
+                  Lift sanction
+                </button>
+              )}
+            </div>
+            {sanctionError && <p className={styles.sanctionError}>{sanctionError}</p>}
+          </div>
+        </div>
+      )}
     </div>
   )
 }
@@ -27,10 +27,12 @@ import {
   query,
   where,
   getDocs,
+  getDoc,
   doc,
   setDoc
 } from 'firebase/firestore'
 import { FaSpinner } from 'react-icons/fa'
+import type { DigestPrefs } from '@/lib/digest'
 
 /**
  * Profile editing page component - allows authenticated users to update their profile information
@@ -59,6 +61,8 @@ export default function EditProfilePage() {
   const [previewUrl,  setPreviewUrl]  = useState<string|null>(null)
   // Track initial photo URL for cleanup purposes
   const [initialPhotoURL, setInitialPhotoURL] = useState<string|null>(null)
+  // Email digest opt-ins, stored on the user document
+  const [digests, setDigests] = useState<DigestPrefs>({ daily: false, weekly: false })
 
   // Load current user data and populate form fields
   useEffect(() => {
@@ -74,7 +78,12 @@ export default function EditProfilePage() {
       setEmail(u.email||'')
       setPreviewUrl(u.photoURL||null)
       setInitialPhotoURL(u.photoURL||null)
-      setLoading(false)
+      getDoc(doc(db, 'users', u.uid))
+        .then(snap => {
+          const saved = snap.data()?.digests ?? {}
+          setDigests({ daily: saved.daily === true, weekly: saved.weekly === true })
+        })
+        .finally(() => setLoading(false))
     })
   }, [router])
 
@@ -170,7 +179,8 @@ export default function EditProfilePage() {
           username_lower: displayName.toLowerCase(),
           email, 
           profilePic: photoURL,
-          searchable: true
+          searchable: true,
+          digests
         },
         { merge: true }
       )
@@ -337,6 +347,34 @@ export default function EditProfilePage() {
           />
         </div>
 
+        {/* Email digest opt-ins */}
+        <div className={styles.field}>
+          <label className={styles.label}>
+            Email Digests
+            <span className={styles.helpText}>
+              (holdings, watched cards and the biggest predicted movers)
+            </span>
+          </label>
+          <label className={styles.checkbox}>
+            <input
+              type="checkbox"
+              checked={digests.daily}
+              onChange={e => setDigests({ ...digests, daily: e.target.checked })}
+              disabled={saving}
+            />
+            Daily digest
+          </label>
+          <label className={styles.checkbox}>
+            <input
+              type="checkbox"
+              checked={digests.weekly}
+              onChange={e => setDigests({ ...digests, weekly: e.target.checked })}
+              disabled={saving}
+            />
+            Weekly digest
+          </label>
+        </div>
+
         {/* Submit button with loading state */}
         <button
           type="submit"
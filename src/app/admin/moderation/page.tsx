@@ -0,0 +1,283 @@
+'use client'
+
+import React, { useState, useEffect, useCallback } from 'react'
+import { useRouter } from 'next/navigation'
+import Link          from 'next/link'
+import styles        from './page.module.css'
+import { getAuth, onAuthStateChanged, type User } from 'firebase/auth'
+import { FaSpinner } from 'react-icons/fa'
+import {
+  REPORT_ACTIONS,
+  REPORT_REASONS,
+  type AuditEntry,
+  type Report,
+  type ReportAction,
+  type ReportStatus
+} from '@/lib/reportRules'
+import type { HeldPostItem } from '@/lib/reports'
+import { hasRole } from '@/lib/roles'
+
+const STATUSES: ReportStatus[] = ['open', ...Object.values(REPORT_ACTIONS)]
+
+// where a post lives, as a link
+function Where({ surface, target }: { surface: string; target: string }) {
+  return surface === 'chat'
+    ? <Link href="/community">#{target}</Link>
+    : <Link href={`/player/${target}`}>card comments</Link>
+}
+
+const when = (t: number | null) => t ? new Date(t).toLocaleString() : '–'
+
+export default function ModerationPage() {
+  const router     = useRouter()
+  const authClient = getAuth()
+
+  const [moderator, setModerator] = useState<User|null>(null)
+  const [denied,    setDenied]    = useState(false)
+  const [status,    setStatus]    = useState<ReportStatus>('open')
+  const [reports,   setReports]   = useState<Report[]>([])
+  const [held,      setHeld]      = useState<HeldPostItem[]>([])
+  const [log,       setLog]       = useState<AuditEntry[]>([])
+  const [notes,     setNotes]     = useState<Record<string,string>>({})
+  const [busy,      setBusy]      = useState<string|null>(null)
+  const [error,     setError]     = useState('')
+  const [loading,   setLoading]   = useState(true)
+
+  // 1) Signed-in moderators (and admins) only; the API checks the same role claim
+  useEffect(() => {
+    const unsub = onAuthStateChanged(authClient, async u => {
+      if (!u) {
+        router.replace('/login')
+        return
+      }
+      // force a refresh so a freshly granted role shows up without signing out
+      const { claims } = await u.getIdTokenResult(true)
+      if (hasRole(claims, 'moderator')) {
+        setModerator(u)
+      } else {
+        setDenied(true)
+        setLoading(false)
+      }
+    })
+    return () => unsub()
+  }, [authClient, router])
+
+  // 2) Reports in the chosen state, held posts and the latest decisions
+  const load = useCallback(async () => {
+    if (!moderator) return
+    const res = await fetch(`/api/admin/moderation?status=${status}`, {
+      headers:{ Authorization:`Bearer ${await moderator.getIdToken()}` }
+    })
+    const data = await res.json()
+    if (!res.ok) {
+      setError(data.error || 'Failed to load the moderation queue')
+      return
+    }
+    setReports(data.reports)
+    setHeld(data.held)
+    setLog(data.log)
+  }, [moderator, status])
+
+  useEffect(() => {
+    if (!moderator) return
+    load().finally(() => setLoading(false))
+  }, [moderator, load])
+
+  async function decide(path: string, id: string, action: string) {
+    if (!moderator) return
+    setBusy(id)
+    setError('')
+    try {
+      const res = await fetch(`/api/admin/moderation/${path}/${id}`, {
+        method:'POST',
+        headers:{
+          Authorization:`Bearer ${await moderator.getIdToken()}`,
+          'Content-Type':'application/json'
+        },
+        body: JSON.stringify({ action, note: notes[id]?.trim() || null })
+      })
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}))
+        setError(data.fields ? Object.values(data.fields).join(' ') : data.error || 'Action failed')
+        return
+      }
+      setNotes(prev => { const next = { ...prev }; delete next[id]; return next })
+      await load()
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const noteInput = (id: string) => (
+    <input
+      type="text"
+      className={styles.noteInput}
+      placeholder="Note for the log (optional)"
+      value={notes[id] ?? ''}
+      onChange={e => setNotes(prev => ({ ...prev, [id]: e.target.value }))}
+    />
+  )
+
+  if (loading) {
+    return (
+      <div className="spinner-container">
+        <FaSpinner className="spinner" />
+      </div>
+    )
+  }
+
+  if (denied) {
+    return (
+      <main className={styles.moderationContainer}>
+        <h1 className={styles.title}>Moderation</h1>
+        <p className={styles.empty}>This page is for moderators only.</p>
+      </main>
+    )
+  }
+
+  return (
+    <main className={styles.moderationContainer}>
+      <h1 className={styles.title}>Moderation</h1>
+      {error && <div className={styles.error}>{error}</div>}
+
+      {/* Reports */}
+      <section className={styles.section}>
+        <div className={styles.sectionHeader}>
+          <h2>Reports</h2>
+          <div className={styles.statusTabs}>
+            {STATUSES.map(s => (
+              <button
+                key={s}
+                className={`${styles.statusTab} ${s === status ? styles.activeTab : ''}`}
+                onClick={() => setStatus(s)}
+              >
+                {s}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {reports.length === 0 ? (
+          <p className={styles.empty}>No {status} reports</p>
+        ) : reports.map(r => {
+          const tally = r.entries.reduce<Record<string,number>>((t, e) => {
+            t[e.reason] = (t[e.reason] ?? 0) + 1
+            return t
+          }, {})
+          const actionable = r.status === 'open' || r.status === 'dismissed'
+          return (
+            <div key={r.id} className={styles.item}>
+              <div className={styles.itemMeta}>
+                <Link href={`/account/${r.contentUserId}`}>author</Link>
+                {' in '}<Where surface={r.surface} target={r.target} />
+                {' · '}{r.reporters.length} {r.reporters.length === 1 ? 'report' : 'reports'}
+                {' · last '}{when(r.updatedAt)}
+              </div>
+              <blockquote className={styles.quote}>{r.contentText || <em>(no text)</em>}</blockquote>
+              <div className={styles.reasons}>
+                {Object.entries(tally).map(([reason, n]) => (
+                  <span key={reason} className={styles.reasonChip}>
+                    {REPORT_REASONS[reason as keyof typeof REPORT_REASONS] ?? reason}{n > 1 ? ` ×${n}` : ''}
+                  </span>
+                ))}
+              </div>
+              {r.entries.filter(e => e.note).map(e => (
+                <div key={`${e.reporterId}-${e.createdAt}`} className={styles.reporterNote}>“{e.note}”</div>
+              ))}
+              {actionable ? (
+                <div className={styles.actions}>
+                  {noteInput(r.id)}
+                  {(Object.keys(REPORT_ACTIONS) as ReportAction[]).map(a => (
+                    <button
+                      key={a}
+                      className={`${styles.actionBtn} ${a === 'dismiss' ? '' : styles.dangerBtn}`}
+                      disabled={busy === r.id || (a === 'dismiss' && r.status === 'dismissed')}
+                      onClick={() => decide('reports', r.id, a)}
+                    >
+                      {a}
+                    </button>
+                  ))}
+                </div>
+              ) : (
+                <div className={styles.itemMeta}>
+                  {r.status} by <Link href={`/account/${r.resolvedBy}`}>moderator</Link> {when(r.resolvedAt)}
+                </div>
+              )}
+            </div>
+          )
+        })}
+      </section>
+
+      {/* Posts a hold rule parked before publishing */}
+      <section className={styles.section}>
+        <div className={styles.sectionHeader}>
+          <h2>Held posts</h2>
+          <span className={styles.countBadge}>{held.length}</span>
+        </div>
+        {held.length === 0 ? (
+          <p className={styles.empty}>Nothing waiting for review</p>
+        ) : held.map(p => (
+          <div key={p.id} className={styles.item}>
+            <div className={styles.itemMeta}>
+              <Link href={`/account/${p.userId}`}>author</Link>
+              {' in '}<Where surface={p.surface} target={p.target} />
+              {' · '}{when(p.createdAt)}
+            </div>
+            <blockquote className={styles.quote}>{p.text}</blockquote>
+            <div className={styles.reasons}>
+              {p.reasons.map(r => (
+                <span key={r.ruleId} className={styles.reasonChip}>{r.ruleId}: {r.message}</span>
+              ))}
+            </div>
+            <div className={styles.actions}>
+              {noteInput(p.id)}
+              <button className={styles.actionBtn} disabled={busy === p.id} onClick={() => decide('queue', p.id, 'approve')}>
+                approve
+              </button>
+              <button className={`${styles.actionBtn} ${styles.dangerBtn}`} disabled={busy === p.id} onClick={() => decide('queue', p.id, 'reject')}>
+                reject
+              </button>
+            </div>
+          </div>
+        ))}
+      </section>
+
+      {/* Audit trail */}
+      <section className={styles.section}>
+        <div className={styles.sectionHeader}>
+          <h2>Moderation log</h2>
+        </div>
+        {log.length === 0 ? (
+          <p className={styles.empty}>No decisions yet</p>
+        ) : (
+          <div className={styles.tableWrapper}>
+            <table className={styles.logTable}>
+              <thead>
+                <tr>
+                  <th>When</th>
+                  <th>Moderator</th>
+                  <th>Action</th>
+                  <th>Where</th>
+                  <th>Post</th>
+                  <th>Note</th>
+                </tr>
+              </thead>
+              <tbody>
+                {log.map(e => (
+                  <tr key={e.id}>
+                    <td>{when(e.createdAt)}</td>
+                    <td><Link href={`/account/${e.moderatorId}`}>{e.moderatorId.slice(0, 8)}</Link></td>
+                    <td>{e.action}</td>
+                    <td><Where surface={e.surface} target={e.target} /></td>
+                    <td className={styles.logText}>{e.contentText}</td>
+                    <td>{e.note ?? ''}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+    </main>
+  )
+}
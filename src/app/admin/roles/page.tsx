@@ -0,0 +1,207 @@
+'use client'
+
+import React, { useState, useEffect, useCallback } from 'react'
+import { useRouter } from 'next/navigation'
+import Link          from 'next/link'
+import styles        from './page.module.css'
+import { getAuth, onAuthStateChanged, type User } from 'firebase/auth'
+import { FaSpinner } from 'react-icons/fa'
+import { ROLE_LABELS, ROLES, roleOf, type Role } from '@/lib/roles'
+import type { RoleGrant } from '@/lib/roleAuth'
+
+const when = (t: number) => new Date(t).toLocaleString()
+
+export default function RolesPage() {
+  const router     = useRouter()
+  const authClient = getAuth()
+
+  const [adminUser, setAdminUser] = useState<User|null>(null)
+  const [denied,    setDenied]    = useState(false)
+  const [grants,    setGrants]    = useState<RoleGrant[]>([])
+  const [who,       setWho]       = useState('')
+  const [newRole,   setNewRole]   = useState<Role>('moderator')
+  const [busy,      setBusy]      = useState<string|null>(null)
+  const [error,     setError]     = useState('')
+  const [notice,    setNotice]    = useState('')
+  const [loading,   setLoading]   = useState(true)
+
+  // 1) Signed-in admins only; the API checks the same role claim
+  useEffect(() => {
+    const unsub = onAuthStateChanged(authClient, async u => {
+      if (!u) {
+        router.replace('/login')
+        return
+      }
+      const { claims } = await u.getIdTokenResult(true)
+      if (roleOf(claims) === 'admin') {
+        setAdminUser(u)
+      } else {
+        setDenied(true)
+        setLoading(false)
+      }
+    })
+    return () => unsub()
+  }, [authClient, router])
+
+  // 2) Everyone currently holding a role
+  const load = useCallback(async () => {
+    if (!adminUser) return
+    const res = await fetch('/api/admin/roles', {
+      headers:{ Authorization:`Bearer ${await adminUser.getIdToken()}` }
+    })
+    const data = await res.json()
+    if (!res.ok) {
+      setError(data.error || 'Failed to load roles')
+      return
+    }
+    setGrants(data.grants)
+  }, [adminUser])
+
+  useEffect(() => {
+    if (!adminUser) return
+    load().finally(() => setLoading(false))
+  }, [adminUser, load])
+
+  // grant, change or (with 'user') revoke; `target` is a uid or an email address
+  async function change(target: string, role: Role) {
+    if (!adminUser) return
+    setBusy(target)
+    setError('')
+    setNotice('')
+    try {
+      const res = await fetch('/api/admin/roles', {
+        method:'POST',
+        headers:{
+          Authorization:`Bearer ${await adminUser.getIdToken()}`,
+          'Content-Type':'application/json'
+        },
+        body: JSON.stringify(target.includes('@') ? { email: target, role } : { uid: target, role })
+      })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        setError(data.fields ? Object.values(data.fields).join(' ') : data.error || 'Role change failed')
+        return
+      }
+      setNotice(`${target} is now ${ROLE_LABELS[role].toLowerCase()}; it applies the next time they sign in or within the hour`)
+      setWho('')
+      await load()
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="spinner-container">
+        <FaSpinner className="spinner" />
+      </div>
+    )
+  }
+
+  if (denied) {
+    return (
+      <main className={styles.rolesContainer}>
+        <h1 className={styles.title}>Roles</h1>
+        <p className={styles.empty}>This page is for admins only.</p>
+      </main>
+    )
+  }
+
+  return (
+    <main className={styles.rolesContainer}>
+      <h1 className={styles.title}>Roles</h1>
+      {error  && <div className={styles.error}>{error}</div>}
+      {notice && <div className={styles.notice}>{notice}</div>}
+
+      {/* Grant */}
+      <section className={styles.section}>
+        <h2>Grant a role</h2>
+        <form
+          className={styles.grantForm}
+          onSubmit={e => {
+            e.preventDefault()
+            if (who.trim()) change(who.trim(), newRole)
+          }}
+        >
+          <input
+            type="text"
+            className={styles.input}
+            placeholder="User id or email"
+            value={who}
+            onChange={e => setWho(e.target.value)}
+          />
+          <select className={styles.input} value={newRole} onChange={e => setNewRole(e.target.value as Role)}>
+            {ROLES.filter(r => r !== 'user').map(r => (
+              <option key={r} value={r}>{ROLE_LABELS[r]}</option>
+            ))}
+          </select>
+          <button type="submit" className={styles.actionBtn} disabled={!who.trim() || busy !== null}>
+            Grant
+          </button>
+        </form>
+      </section>
+
+      {/* Current holders */}
+      <section className={styles.section}>
+        <h2>Moderators and admins</h2>
+        {grants.length === 0 ? (
+          <p className={styles.empty}>Nobody holds a role yet</p>
+        ) : (
+          <div className={styles.tableWrapper}>
+            <table className={styles.rolesTable}>
+              <thead>
+                <tr>
+                  <th>User</th>
+                  <th>Email</th>
+                  <th>Role</th>
+                  <th>Granted</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>
+                {grants.map(g => {
+                  const self = g.uid === adminUser?.uid
+                  return (
+                    <tr key={g.uid}>
+                      <td><Link href={`/account/${g.uid}`}>{g.username ?? g.uid.slice(0, 8)}</Link></td>
+                      <td>{g.email ?? '–'}</td>
+                      <td>
+                        <select
+                          className={styles.input}
+                          value={g.role}
+                          disabled={self || busy === g.uid}
+                          onChange={e => change(g.uid, e.target.value as Role)}
+                        >
+                          {ROLES.filter(r => r !== 'user').map(r => (
+                            <option key={r} value={r}>{ROLE_LABELS[r]}</option>
+                          ))}
+                        </select>
+                      </td>
+                      <td>
+                        {when(g.grantedAt)}
+                        {' by '}
+                        {g.grantedBy === 'server'
+                          ? 'server'
+                          : <Link href={`/account/${g.grantedBy}`}>{g.grantedBy.slice(0, 8)}</Link>}
+                      </td>
+                      <td>
+                        <button
+                          className={`${styles.actionBtn} ${styles.dangerBtn}`}
+                          disabled={self || busy === g.uid}
+                          title={self ? "You can't change your own role" : undefined}
+                          onClick={() => change(g.uid, 'user')}
+                        >
+                          Revoke
+                        </button>
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+    </main>
+  )
+}
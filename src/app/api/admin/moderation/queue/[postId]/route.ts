@@ -0,0 +1,17 @@
+// src/app/api/admin/moderation/queue/[postId]/route.ts
+import { NextResponse } from 'next/server'
+import { withAuth } from '@/lib/withAuth'
+import { fieldsError, readJson } from '@/lib/apiError'
+import { reviewHeldPost } from '@/lib/reports'
+import { validateDecision } from '@/lib/reportRules'
+
+// POST /api/admin/moderation/queue/:postId { action: approve|reject, note? } → publish or drop a
+// post a hold rule parked (moderators only)
+export const POST = withAuth<{ postId: string }>(async (request, { params, uid, log }) => {
+  const checked = validateDecision(await readJson(request), ['approve', 'reject'] as const)
+  if (!checked.ok) throw fieldsError('Invalid decision', checked.fields)
+
+  const result = await reviewHeldPost(params.postId, uid, checked.value.action, checked.value.note)
+  log(`Held post ${params.postId} reviewed by ${uid}: ${checked.value.action}`)
+  return NextResponse.json({ ok: true, ...result })
+}, { auth: 'moderator', failure: 'Failed to review held post' })
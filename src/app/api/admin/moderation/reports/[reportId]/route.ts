@@ -0,0 +1,17 @@
+// src/app/api/admin/moderation/reports/[reportId]/route.ts
+import { NextResponse } from 'next/server'
+import { withAuth } from '@/lib/withAuth'
+import { fieldsError, readJson } from '@/lib/apiError'
+import { resolveReport } from '@/lib/reports'
+import { REPORT_ACTIONS, validateDecision, type ReportAction } from '@/lib/reportRules'
+
+// POST /api/admin/moderation/reports/:reportId { action: hide|delete|dismiss, note? } → resolve a report
+// (moderators only); every decision lands in the moderation log
+export const POST = withAuth<{ reportId: string }>(async (request, { params, uid, log }) => {
+  const checked = validateDecision(await readJson(request), Object.keys(REPORT_ACTIONS) as ReportAction[])
+  if (!checked.ok) throw fieldsError('Invalid decision', checked.fields)
+
+  const report = await resolveReport(params.reportId, uid, checked.value.action, checked.value.note)
+  log(`Report ${params.reportId} resolved by ${uid}: ${checked.value.action}`)
+  return NextResponse.json(report)
+}, { auth: 'moderator', failure: 'Failed to resolve report' })
@@ -0,0 +1,21 @@
+// src/app/api/admin/moderation/route.ts
+import { NextResponse } from 'next/server'
+import { withAuth } from '@/lib/withAuth'
+import { ApiError } from '@/lib/apiError'
+import { loadAuditLog, loadHeldPosts, loadReports } from '@/lib/reports'
+import { REPORT_ACTIONS, type ReportStatus } from '@/lib/reportRules'
+
+const STATUSES: ReportStatus[] = ['open', ...Object.values(REPORT_ACTIONS)]
+
+// GET /api/admin/moderation?status=open → { reports, held, log } for the review page (moderators only)
+export const GET = withAuth(async request => {
+  const status = (new URL(request.url).searchParams.get('status') || 'open') as ReportStatus
+  if (!STATUSES.includes(status)) {
+    throw new ApiError(`status must be one of ${STATUSES.join(', ')}`, 400)
+  }
+
+  const [reports, held, log] = await Promise.all([loadReports(status), loadHeldPosts(), loadAuditLog()])
+  return NextResponse.json({ reports, held, log }, {
+    headers: { 'Cache-Control': 'no-store' }
+  })
+}, { auth: 'moderator', failure: 'Failed to load moderation queue' })
@@ -0,0 +1,24 @@
+// src/app/api/admin/roles/route.ts
+import { NextResponse } from 'next/server'
+import { withAuth } from '@/lib/withAuth'
+import { fieldsError, readJson } from '@/lib/apiError'
+import { loadRoleGrants, setRole } from '@/lib/roleAuth'
+import { validateRoleChange } from '@/lib/roles'
+
+// GET /api/admin/roles → { grants } everyone holding a moderator or admin role (admins only)
+export const GET = withAuth(async () => {
+  return NextResponse.json({ grants: await loadRoleGrants() }, {
+    headers: { 'Cache-Control': 'no-store' }
+  })
+}, { auth: 'admin', failure: 'Failed to load roles' })
+
+// POST /api/admin/roles { uid | email, role } → grant a role, or revoke with role 'user' (admins only;
+// server jobs with CRON_SECRET too, which is how the first admin gets made)
+export const POST = withAuth(async (request, { uid, log }) => {
+  const checked = validateRoleChange(await readJson(request))
+  if (!checked.ok) throw fieldsError('Invalid role change', checked.fields)
+
+  const result = await setRole(checked.value, checked.value.role, uid)
+  log(`Role of ${result.uid} changed by ${uid}: ${result.previous} → ${result.role}`)
+  return NextResponse.json(result)
+}, { auth: 'admin', cron: true, failure: 'Failed to change role' })
@@ -0,0 +1,10 @@
+// src/app/api/alerts/[alertId]/route.ts
+import { NextResponse } from 'next/server'
+import { withAuth } from '@/lib/withAuth'
+import { deleteAlert } from '@/lib/alerts'
+
+// DELETE /api/alerts/:alertId → remove a rule
+export const DELETE = withAuth<{ alertId: string }>(async (_request, { params, uid }) => {
+  await deleteAlert(uid, params.alertId)
+  return NextResponse.json({ ok: true })
+}, { auth: 'required', failure: 'Failed to delete alert' })
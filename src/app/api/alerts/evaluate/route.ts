@@ -0,0 +1,19 @@
+// src/app/api/alerts/evaluate/route.ts
+import { NextResponse } from 'next/server'
+import { withAuth } from '@/lib/withAuth'
+import { evaluateAllAlerts, evaluateCardAlerts } from '@/lib/alerts'
+
+// POST /api/alerts/evaluate?cardId= → evaluate alert rules against the current card documents
+// (server jobs only). The prediction pipeline calls this after refreshing latestPrediction;
+// market snapshots evaluate their own card as they're recorded
+export const POST = withAuth(async (request, { log }) => {
+  const cardId = new URL(request.url).searchParams.get('cardId')
+
+  if (cardId) {
+    const fired = await evaluateCardAlerts(cardId)
+    return NextResponse.json({ success: true, cards: 1, fired })
+  }
+  const result = await evaluateAllAlerts()
+  log(`Alert evaluation: ${result.cards} cards, ${result.fired} fired`)
+  return NextResponse.json({ success: true, ...result })
+}, { auth: 'cron', failure: 'Failed to evaluate alerts' })
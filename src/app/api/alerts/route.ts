@@ -0,0 +1,21 @@
+// src/app/api/alerts/route.ts
+import { NextResponse } from 'next/server'
+import { withAuth } from '@/lib/withAuth'
+import { fieldsError, readJson } from '@/lib/apiError'
+import { createAlert, loadAlerts } from '@/lib/alerts'
+import { validateAlert } from '@/lib/alertRules'
+
+// GET /api/alerts?cardId= → the signed-in user's alert rules, optionally for one card
+export const GET = withAuth(async (request, { uid }) => {
+  const cardId = new URL(request.url).searchParams.get('cardId') || undefined
+  return NextResponse.json(await loadAlerts(uid, cardId))
+}, { auth: 'required', failure: 'Failed to load alerts' })
+
+// POST /api/alerts { cardId, kind, threshold? } → create a rule
+// kinds: price_below, price_above, profit_pct_above (threshold in stubs or %), delta_sign_flip
+export const POST = withAuth(async (request, { uid }) => {
+  const input = validateAlert(await readJson(request))
+  if (!input.ok) throw fieldsError('Invalid alert', input.fields)
+
+  return NextResponse.json(await createAlert(uid, input.value), { status: 201 })
+}, { auth: 'required', failure: 'Failed to create alert' })
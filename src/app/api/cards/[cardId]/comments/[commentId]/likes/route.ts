@@ -1,25 +1,23 @@
+// src/app/api/cards/[cardId]/comments/[commentId]/likes/route.ts
 import { NextResponse } from 'next/server'
 import { firestore }    from '@/lib/firebaseAdmin'
+import { withAuth }     from '@/lib/withAuth'
+import { ApiError }     from '@/lib/apiError'
+import { assertNotSanctioned } from '@/lib/sanctions'
 
-export async function POST(
-  request: Request,
-  context: { params: Promise<{ commentId: string }> }
-) {
-  const { commentId } = await context.params
-  const { userId }    = await request.json()
-  if (!userId) {
-    return NextResponse.json({ error: 'Not signed in' }, { status: 401 })
-  }
-
-  const ref = firestore.collection('comments').doc(commentId)
+// POST /api/cards/:cardId/comments/:commentId/likes → like the comment, or unlike it if already liked
+export const POST = withAuth<{ cardId: string; commentId: string }>(async (_request, { params, uid }) => {
+  await assertNotSanctioned(uid, 'react')
+  const ref = firestore.collection('comments').doc(params.commentId)
   await firestore.runTransaction(async tx => {
     const doc   = await tx.get(ref)
+    if (!doc.exists || doc.get('playerId') !== params.cardId) throw new ApiError('Comment not found', 404)
     const likes = (doc.data()?.likes as string[]) || []
-    const idx   = likes.indexOf(userId)
+    const idx   = likes.indexOf(uid)
     if (idx >= 0) likes.splice(idx, 1)
-    else          likes.push(userId)
+    else          likes.push(uid)
     tx.update(ref, { likes })
   })
 
   return NextResponse.json({ success: true })
-}
+}, { auth: 'required', failure: 'Failed to update like' })
@@ -1,8 +1,10 @@
 // src/app/api/cards/[cardId]/comments/route.ts
 import { NextResponse } from 'next/server'
-import admin from 'firebase-admin'
 import { firestore } from '@/lib/firebaseAdmin'
-import { headers } from 'next/headers'
+import { withAuth } from '@/lib/withAuth'
+import { ApiError, readJson } from '@/lib/apiError'
+import { holdForReview, lastPostTime, moderatePost, publishPost } from '@/lib/moderation'
+import { assertNotSanctioned } from '@/lib/sanctions'
 
 // TypeScript interfaces for Firestore data
 interface CommentData {
@@ -12,42 +14,14 @@ interface CommentData {
   parentId: string | null
   likes: string[]
   timestamp: number
+  hidden?: boolean   // set by a moderator; the text is blanked
 }
 
-if (!admin.apps.length) admin.initializeApp()
+type Params = { cardId: string }
 
-// maximum allowed length for a comment
-const MAX_LENGTH = 500
-
-// simple word‐blocker
-const BLACKLIST = [
-  'nigger','nigga','faggot','fag','retard',
-  'kike','chink','spic','dyke','tranny',
-  'slut','whore','bitch','asshole'
-]
-function censor(text: string): string {
-  return text
-    .split(/\b/)
-    .map(tok =>
-      BLACKLIST.includes(tok.toLowerCase()) ? '****' : tok
-    )
-    .join('')
-}
-
-async function requireAuth() {
-  const h = await headers()
-  const authH = h.get('authorization') || ''
-  const match = authH.match(/^Bearer (.+)$/)
-  if (!match) throw new Error('Not authenticated')
-  const decoded = await admin.auth().verifyIdToken(match[1])
-  return decoded.uid
-}
-
-export async function GET(
-  request: Request,
-  context: { params: Promise<{ cardId: string }> }
-) {
-  const { cardId } = await context.params
+// GET /api/cards/:cardId/comments → the card's comments and replies, newest first
+export const GET = withAuth<Params>(async (_request, { params }) => {
+  const { cardId } = params
   const snap = await firestore
     .collection('comments')
     .where('playerId', '==', cardId)
@@ -66,7 +40,8 @@ export async function GET(
       text:       data.text,
       parentId:   data.parentId,
       timestamp:  data.timestamp,
-      likes:      data.likes || []
+      likes:      data.likes || [],
+      hidden:     data.hidden === true
     }
   })
 
@@ -92,87 +67,38 @@ export async function GET(
     text:          c.text,
     timestamp:     c.timestamp,
     likes:         c.likes,
+    hidden:        c.hidden,
     username:      userMap[c.userId]?.username      || 'Unknown',
     profilePicUrl: userMap[c.userId]?.profilePic    || '/default_profile.jpg',
   }))
 
   return NextResponse.json(comments)
-}
-
-export async function POST(
-  request: Request,
-  context: { params: Promise<{ cardId: string }> }
-) {
-  let uid: string
-  try {
-    uid = await requireAuth()
-  } catch {
-    return NextResponse.json({ error: 'Not signed in' }, { status: 401 })
-  }
-
-  const { cardId } = await context.params
-  const { text: rawText, parentId } = await request.json()
-
-  // 1) trim + censor
-  const cleaned = censor(rawText.trim())
-
-  // 2) reject empty or all-censored
-  if (!cleaned.replace(/\*+/g, '').trim()) {
-    return NextResponse.json(
-      { error: 'Your comment contains disallowed language.' },
-      { status: 400 }
-    )
+}, { auth: 'none', failure: 'Failed to load comments' })
+
+// POST /api/cards/:cardId/comments { text, parentId? } → post a comment through moderation
+export const POST = withAuth<Params>(async (request, { params, uid }) => {
+  const { cardId } = params
+  await assertNotSanctioned(uid, 'post')
+  const { text: rawText, parentId } = (await readJson(request) ?? {}) as { text?: unknown; parentId?: string | null }
+
+  // 1) the user's last comment on this card (held ones included), for the rate limit
+  const lastTs = await lastPostTime('comments', cardId, uid)
+
+  // 2) language, links, length and rate limit
+  const result = await moderatePost('comments', rawText, lastTs)
+  if (result.verdict === 'block') {
+    const message = result.reasons.find(r => r.action === 'block')!.message
+    throw new ApiError(message, result.status, undefined, { reasons: result.reasons })
   }
 
-  // 3) enforce maximum length
-  if (cleaned.length > MAX_LENGTH) {
-    return NextResponse.json(
-      { error: `Comment too long (max ${MAX_LENGTH} characters).` },
-      { status: 400 }
-    )
+  // 3) held posts wait for a moderator instead of going public
+  if (result.verdict === 'hold') {
+    await holdForReview('comments', cardId, uid, result, parentId || null)
+    return NextResponse.json({ held: true, reasons: result.reasons }, { status: 202 })
   }
 
-  // 4) block external URLs
-  const urlPattern = /(https?:\/\/[^\s]+|www\.[^\s]+)/i
-  if (urlPattern.test(cleaned)) {
-    return NextResponse.json(
-      { error: 'External links are not allowed.' },
-      { status: 400 }
-    )
-  }
+  // 4) write
+  await publishPost('comments', cardId, uid, result.text, parentId || null)
 
-  // 5) rate-limit per user per card (15s)
-  const now = Date.now()
-  const col = firestore.collection('comments')
-  const lastSnap = await col
-    .where('playerId', '==', cardId)
-    .where('userId', '==', uid)
-    .orderBy('timestamp', 'desc')
-    .limit(1)
-    .get()
-
-  if (!lastSnap.empty) {
-    const lastTs = lastSnap.docs[0].data().timestamp as number
-    if (now - lastTs < 15_000) {
-      return NextResponse.json(
-        { error: "You're commenting too quickly. Please wait a bit." },
-        { status: 429 }
-      )
-    }
-  }
-
-  // 6) collapse blank‐line floods
-  const sanitized = cleaned.replace(/\n{3,}/g, '\n\n')
-
-  // 7) write
-  await col.add({
-    playerId:  cardId,
-    userId:    uid,
-    text:      sanitized,
-    parentId:  parentId || null,
-    likes:     [],
-    timestamp: now
-  })
-
-  return NextResponse.json({ success: true }, { status: 201 })
-}
+  return NextResponse.json({ success: true, reasons: result.reasons }, { status: 201 })
+}, { auth: 'required', failure: 'Failed to post comment' })
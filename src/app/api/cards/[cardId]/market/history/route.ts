@@ -0,0 +1,58 @@
+// src/app/api/cards/[cardId]/market/history/route.ts
+import { NextResponse } from 'next/server'
+import { withAuth } from '@/lib/withAuth'
+import { ApiError } from '@/lib/apiError'
+import {
+  downsampleMarket,
+  loadMarketSnapshots,
+  MARKET_INTERVALS,
+  type MarketInterval
+} from '@/lib/market'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// widest range each interval may cover, to keep responses small
+const MAX_RANGE: Record<MarketInterval, number> = {
+  hourly: 14  * DAY_MS,
+  daily:  365 * DAY_MS,
+}
+
+// accept either epoch milliseconds or anything Date can parse (e.g. 2025-07-01)
+function parseTime(value: string | null, fallback: number): number {
+  if (!value) return fallback
+  const asNum = Number(value)
+  if (!Number.isNaN(asNum)) return asNum
+  const asDate = Date.parse(value)
+  return Number.isNaN(asDate) ? NaN : asDate
+}
+
+// GET /api/cards/:cardId/market/history?from=&to=&interval=hourly|daily
+export const GET = withAuth<{ cardId: string }>(async (request, { params: { cardId } }) => {
+  const params = new URL(request.url).searchParams
+
+  const interval = (params.get('interval') || 'daily') as MarketInterval
+  if (!Object.hasOwn(MARKET_INTERVALS, interval)) {
+    throw new ApiError('interval must be "hourly" or "daily"', 400)
+  }
+
+  const to   = parseTime(params.get('to'), Date.now())
+  const from = parseTime(params.get('from'), to - 30 * DAY_MS)
+  if (Number.isNaN(from) || Number.isNaN(to) || from > to) {
+    throw new ApiError('Invalid from/to range', 400)
+  }
+  if (to - from > MAX_RANGE[interval]) {
+    throw new ApiError(`Range too large for ${interval} interval`, 400)
+  }
+
+  const snapshots = await loadMarketSnapshots(cardId, from, to)
+  return NextResponse.json({
+    cardId,
+    interval,
+    from,
+    to,
+    points: downsampleMarket(snapshots, interval),
+  }, {
+    status: 200,
+    headers: { 'Cache-Control': 'public, max-age=0, s-maxage=300' }
+  })
+}, { auth: 'none', failure: 'Failed to load market history' })
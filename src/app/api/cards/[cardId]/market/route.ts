@@ -1,34 +1,73 @@
 // src/app/api/cards/[cardId]/market/route.ts
-import { NextResponse, NextRequest } from 'next/server'
-import { firestore } from '@/lib/firebaseAdmin'
+import { NextResponse } from 'next/server'
+import { firestore }    from '@/lib/firebaseAdmin'
+import { withAuth }     from '@/lib/withAuth'
+import { ApiError, fieldsError, readJson, type FieldErrors } from '@/lib/apiError'
+import { recordMarketSnapshot } from '@/lib/market'
+import { evaluateCardAlerts } from '@/lib/alerts'
 
-export async function GET(request: NextRequest) {
-  // Extract the cardId from the URL path
-  const match = request.nextUrl.pathname.match(
-    /^\/api\/cards\/([^\/]+)\/market\/?/
-  )
-  const cardId = match?.[1]
-  if (!cardId) {
-    return NextResponse.json(
-      { error: 'Missing cardId in URL' },
-      { status: 400 }
-    )
+type Params = { cardId: string }
+
+// snapshots may be backfilled, but not stamped past the job's clock skew
+const MAX_FUTURE_MS = 5 * 60 * 1000
+
+// GET /api/cards/:cardId/market → latest buy/sell for this card
+export const GET = withAuth<Params>(async (_request, { params: { cardId } }) => {
+  const doc = await firestore.collection('cards').doc(cardId).get()
+  if (!doc.exists) {
+    throw new ApiError('Not found', 404)
+  }
+
+  const market = (doc.data()?.latestMarket ?? {}) as Record<string, unknown>
+  return NextResponse.json({
+    id:        doc.id,
+    buy:       market.buy  ?? null,
+    sell:      market.sell ?? null,
+    updatedAt: market.updatedAt ?? null,
+  }, {
+    status: 200,
+    headers: { 'Cache-Control': 'public, max-age=0, s-maxage=60' }
+  })
+}, { auth: 'none', failure: 'Failed to load market' })
+
+// POST /api/cards/:cardId/market → record a buy/sell snapshot (server jobs only)
+export const POST = withAuth<Params>(async (request, { params: { cardId }, requestId }) => {
+  const { buy, sell, timestamp } = (await readJson(request) ?? {}) as Record<string, unknown>
+
+  if (buy == null && sell == null) {
+    throw new ApiError('Snapshot needs a buy or sell price', 400)
+  }
+  const fields: FieldErrors = {}
+  for (const [key, price] of Object.entries({ buy, sell })) {
+    if (price != null && (typeof price !== 'number' || !Number.isFinite(price) || price < 0)) {
+      fields[key] = 'Must be a number of stubs, 0 or more'
+    }
+  }
+  if (Object.keys(fields).length > 0) throw fieldsError('Invalid snapshot', fields)
+  if (timestamp != null && (typeof timestamp !== 'number' || !Number.isFinite(timestamp) ||
+      timestamp <= 0 || timestamp > Date.now() + MAX_FUTURE_MS)) {
+    throw new ApiError('timestamp must be epoch milliseconds, no later than now', 400)
   }
 
-  // Check that this user’s investments are public
-  const userDoc = await firestore.doc(`users/${cardId}`).get()
-  if (!userDoc.exists || !userDoc.data()?.investmentsPublic) {
-    return NextResponse.json({ error: 'Not public' }, { status: 403 })
+  const doc = await firestore.collection('cards').doc(cardId).get()
+  if (!doc.exists) {
+    throw new ApiError('Not found', 404)
   }
 
-  // Load their investments
-  const snap = await firestore
-    .collection('users')
-    .doc(cardId)
-    .collection('investments')
-    .orderBy('createdAt', 'desc')
-    .get()
-
-  const investments = snap.docs.map((d) => ({ id: d.id, ...d.data() }))
-  return NextResponse.json(investments)
-}
+  const { snapshot, latest } = await recordMarketSnapshot(
+    cardId,
+    { buy, sell },
+    (timestamp as number | undefined) ?? Date.now()
+  )
+
+  // latestMarket just changed (a backfilled snapshot leaves it alone); a failed evaluation
+  // shouldn't fail the snapshot
+  if (latest) {
+    try {
+      await evaluateCardAlerts(cardId)
+    } catch (error) {
+      console.error(`[${requestId}] Error evaluating alerts:`, error)
+    }
+  }
+  return NextResponse.json(snapshot, { status: 201 })
+}, { auth: 'cron', failure: 'Failed to record market snapshot' })
@@ -0,0 +1,33 @@
+// src/app/api/cards/[cardId]/predictions/history/route.ts
+import { NextResponse } from 'next/server'
+import { firestore }    from '@/lib/firebaseAdmin'
+import { withAuth }     from '@/lib/withAuth'
+import { ApiError }     from '@/lib/apiError'
+import {
+  deriveOutcomes,
+  loadPredictionSnapshots,
+  summarizeOutcomes
+} from '@/lib/predictionHistory'
+
+// GET /api/cards/:cardId/predictions/history → dated predictions + realized OVR per roster update
+export const GET = withAuth<{ cardId: string }>(async (_request, { params: { cardId } }) => {
+  const cardDoc = await firestore.collection('cards').doc(cardId).get()
+  if (!cardDoc.exists) {
+    throw new ApiError('Not found', 404)
+  }
+  const currentOvr = Number(cardDoc.data()?.ovr) || 0
+
+  const snapshots = await loadPredictionSnapshots(cardId)
+  const outcomes  = deriveOutcomes(snapshots, currentOvr)
+
+  return NextResponse.json({
+    cardId,
+    ovr:      currentOvr,
+    snapshots,
+    outcomes,
+    accuracy: summarizeOutcomes(outcomes),
+  }, {
+    status: 200,
+    headers: { 'Cache-Control': 'public, max-age=0, s-maxage=300' }
+  })
+}, { auth: 'none', failure: 'Failed to load prediction history' })
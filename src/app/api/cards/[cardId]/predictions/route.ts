@@ -1,6 +1,9 @@
 // src/app/api/cards/[cardId]/predictions/route.ts
 import { NextResponse } from 'next/server'
 import { firestore }    from '@/lib/firebaseAdmin'
+import { calibratedConfidence, loadCalibration } from '@/lib/calibration'
+import { withAuth }     from '@/lib/withAuth'
+import { ApiError }     from '@/lib/apiError'
 
 interface RawPrediction {
   predicted_rank_low: string
@@ -8,24 +11,22 @@ interface RawPrediction {
   [key: string]: unknown
 }
 
-export async function GET(
-  request: Request,
-  context: { params: Promise<{ cardId: string }> }
-) {
-  const { cardId } = await context.params
+export const GET = withAuth<{ cardId: string }>(async (request, { params }) => {
+  const { cardId } = params
 
-  const latestRef = firestore
-    .collection('cards')
-    .doc(cardId)
+  const cardRef   = firestore.collection('cards').doc(cardId)
+  const latestRef = cardRef
     .collection('predictions')
     .doc('latest')
 
-  const snap = await latestRef.get()
+  // the card supplies the OVR tier and hitter/pitcher split for calibration
+  const [snap, cardSnap, calibration] = await Promise.all([
+    latestRef.get(),
+    cardRef.get(),
+    loadCalibration()
+  ])
   if (!snap.exists) {
-    return NextResponse.json(
-      { error: 'No latest prediction found for this player' },
-      { status: 404 }
-    )
+    throw new ApiError('No latest prediction found for this player', 404)
   }
 
   const data = snap.data() as RawPrediction
@@ -35,15 +36,17 @@ export async function GET(
   const highVal = parseFloat(data.predicted_rank_high)
 
   if (!isNaN(lowVal) && !isNaN(highVal)) {
-    const range = highVal - lowVal
-    let perc = 100 - range * 5
-    if (perc < 0)   perc = 0
-    if (perc > 100) perc = 100
+    const card     = cardSnap.data() ?? {}
+    const isHitter = card.is_hitter === true || card.is_hitter === 'true' || card.is_hitter === 'True'
+    const range    = highVal - lowVal
+    const perc     = calibratedConfidence(lowVal, highVal, Number(card.ovr) || 0, isHitter, calibration)
 
     data.confidence_range      = Math.round(range * 100) / 100
+    data.interval_width        = data.confidence_range
     data.confidence_percentage = Math.round(perc  * 100) / 100
   } else {
     data.confidence_range      = null
+    data.interval_width        = null
     data.confidence_percentage = null
   }
 
@@ -51,4 +54,4 @@ export async function GET(
     date: snap.id,
     ...data
   })
-}
+}, { auth: 'none', failure: 'Failed to load prediction' })
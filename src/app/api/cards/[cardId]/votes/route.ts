@@ -1,231 +1,146 @@
 // src/app/api/cards/[cardId]/votes/route.ts
 import { NextResponse } from 'next/server'
 import { firestore } from '@/lib/firebaseAdmin'
-import admin from 'firebase-admin'
-
-export async function GET(
-  request: Request,
-  context: { params: Promise<{ cardId: string }> }
-) {
-  const { cardId } = await context.params
-  
-  try {
-    // Get all votes for this card
-    const votesSnapshot = await firestore
-      .collection('cardVotes')
-      .where('cardId', '==', cardId)
-      .get()
-    
-    let upvotes = 0
-    let downvotes = 0
-    let userVote: 'up' | 'down' | null = null
-    
-    // Check for user authentication to get user's vote status
-    const authHeader = request.headers.get('authorization')
-    let userId: string | null = null
-    
-    if (authHeader && authHeader.startsWith('Bearer ')) {
-      try {
-        const token = authHeader.substring(7)
-        const decodedToken = await admin.auth().verifyIdToken(token)
-        userId = decodedToken.uid
-      } catch {
-        // Continue without user authentication - just don't include userVote
-      }
-    }
-    
-    votesSnapshot.docs.forEach(doc => {
-      const voteData = doc.data()
-      if (voteData.vote === 'up') {
-        upvotes++
-      } else if (voteData.vote === 'down') {
-        downvotes++
-      }
-      
-      // Check if this is the authenticated user's vote
-      if (userId && voteData.userId === userId) {
-        userVote = voteData.vote
-      }
-    })
-    
-    const response: {
-      upvotes: number
-      downvotes: number
-      total: number
-      userVote?: 'up' | 'down' | null
-    } = {
-      upvotes,
-      downvotes,
-      total: upvotes + downvotes
-    }
-    
-    // Only include userVote in response if user is authenticated
-    if (userId !== null) {
-      response.userVote = userVote
+import { withAuth } from '@/lib/withAuth'
+import { ApiError, readJson } from '@/lib/apiError'
+import { assertNotSanctioned } from '@/lib/sanctions'
+
+type Params = { cardId: string }
+
+// Up/down tallies for a card
+async function countVotes(cardId: string) {
+  const votesSnapshot = await firestore
+    .collection('cardVotes')
+    .where('cardId', '==', cardId)
+    .get()
+
+  let upvotes = 0
+  let downvotes = 0
+
+  votesSnapshot.docs.forEach(doc => {
+    const voteData = doc.data()
+    if (voteData.vote === 'up') {
+      upvotes++
+    } else if (voteData.vote === 'down') {
+      downvotes++
     }
-    
-    return NextResponse.json(response)
-    
-  } catch (error) {
-    console.error('Error fetching votes:', error)
-    return NextResponse.json({ error: 'Failed to fetch votes' }, { status: 500 })
-  }
+  })
+
+  return { upvotes, downvotes, total: upvotes + downvotes }
 }
 
-export async function POST(
-  request: Request,
-  context: { params: Promise<{ cardId: string }> }
-) {
-  const { cardId } = await context.params
-  
-  try {
-    // Get Authorization header
-    const authHeader = request.headers.get('authorization')
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return NextResponse.json({ error: 'Missing or invalid authorization header' }, { status: 401 })
-    }
-    
-    const token = authHeader.substring(7)
-    
-    // Verify the token and get user ID
-    let userId: string
-    try {
-      const decodedToken = await admin.auth().verifyIdToken(token)
-      userId = decodedToken.uid
-    } catch {
-      return NextResponse.json({ error: 'Invalid or expired token' }, { status: 401 })
-    }
-    
-    const { vote } = await request.json()
-    
-    // Validate vote type
-    if (vote !== 'up' && vote !== 'down') {
-      return NextResponse.json({ error: 'Vote must be "up" or "down"' }, { status: 400 })
+// GET /api/cards/:cardId/votes → tallies, plus the caller's own vote when signed in
+export const GET = withAuth<Params>(async (_request, { params, uid: userId }) => {
+  const { cardId } = params
+
+  // Get all votes for this card
+  const votesSnapshot = await firestore
+    .collection('cardVotes')
+    .where('cardId', '==', cardId)
+    .get()
+
+  let upvotes = 0
+  let downvotes = 0
+  let userVote: 'up' | 'down' | null = null
+
+  votesSnapshot.docs.forEach(doc => {
+    const voteData = doc.data()
+    if (voteData.vote === 'up') {
+      upvotes++
+    } else if (voteData.vote === 'down') {
+      downvotes++
     }
-    
-    // Check if user has already voted on this card
-    const existingVoteQuery = await firestore
-      .collection('cardVotes')
-      .where('cardId', '==', cardId)
-      .where('userId', '==', userId)
-      .get()
-    
-    // Create vote document ID for this user/card combination
-    const voteDocId = `${cardId}_${userId}`
-    
-    if (!existingVoteQuery.empty) {
-      // Update existing vote
-      await firestore
-        .collection('cardVotes')
-        .doc(voteDocId)
-        .update({
-          vote,
-          timestamp: Date.now()
-        })
-    } else {
-      // Create new vote
-      await firestore
-        .collection('cardVotes')
-        .doc(voteDocId)
-        .set({
-          cardId,
-          userId,
-          vote,
-          timestamp: Date.now()
-        })
+
+    // Check if this is the authenticated user's vote
+    if (userId && voteData.userId === userId) {
+      userVote = voteData.vote
     }
-    
-    // Get updated vote counts
-    const votesSnapshot = await firestore
-      .collection('cardVotes')
-      .where('cardId', '==', cardId)
-      .get()
-    
-    let upvotes = 0
-    let downvotes = 0
-    
-    votesSnapshot.docs.forEach(doc => {
-      const voteData = doc.data()
-      if (voteData.vote === 'up') {
-        upvotes++
-      } else if (voteData.vote === 'down') {
-        downvotes++
-      }
-    })
-    
-    return NextResponse.json({
-      success: true,
-      userVote: vote,
-      upvotes,
-      downvotes,
-      total: upvotes + downvotes
-    })
-    
-  } catch (error) {
-    console.error('Error processing vote:', error)
-    return NextResponse.json({ error: 'Failed to process vote' }, { status: 500 })
+  })
+
+  const response: {
+    upvotes: number
+    downvotes: number
+    total: number
+    userVote?: 'up' | 'down' | null
+  } = {
+    upvotes,
+    downvotes,
+    total: upvotes + downvotes
   }
-}
 
-export async function DELETE(
-  request: Request,
-  context: { params: Promise<{ cardId: string }> }
-) {
-  const { cardId } = await context.params
-  
-  try {
-    // Get Authorization header
-    const authHeader = request.headers.get('authorization')
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return NextResponse.json({ error: 'Missing or invalid authorization header' }, { status: 401 })
-    }
-    
-    const token = authHeader.substring(7)
-    
-    // Verify the token and get user ID
-    let userId: string
-    try {
-      const decodedToken = await admin.auth().verifyIdToken(token)
-      userId = decodedToken.uid
-    } catch {
-      return NextResponse.json({ error: 'Invalid or expired token' }, { status: 401 })
-    }
-    
-    // Delete user's vote
-    const voteDocId = `${cardId}_${userId}`
+  // Only include userVote in response if user is authenticated
+  if (userId !== null) {
+    response.userVote = userVote
+  }
+
+  return NextResponse.json(response)
+}, { auth: 'optional', failure: 'Failed to fetch votes' })
+
+// POST /api/cards/:cardId/votes { vote: up|down } → cast or change the caller's vote
+export const POST = withAuth<Params>(async (request, { params, uid: userId }) => {
+  const { cardId } = params
+  await assertNotSanctioned(userId, 'react')
+  const { vote } = (await readJson(request) ?? {}) as { vote?: unknown }
+
+  // Validate vote type
+  if (vote !== 'up' && vote !== 'down') {
+    throw new ApiError('Vote must be "up" or "down"', 400)
+  }
+
+  // Check if user has already voted on this card
+  const existingVoteQuery = await firestore
+    .collection('cardVotes')
+    .where('cardId', '==', cardId)
+    .where('userId', '==', userId)
+    .get()
+
+  // Create vote document ID for this user/card combination
+  const voteDocId = `${cardId}_${userId}`
+
+  if (!existingVoteQuery.empty) {
+    // Update existing vote
     await firestore
       .collection('cardVotes')
       .doc(voteDocId)
-      .delete()
-    
-    // Get updated vote counts
-    const votesSnapshot = await firestore
+      .update({
+        vote,
+        timestamp: Date.now()
+      })
+  } else {
+    // Create new vote
+    await firestore
       .collection('cardVotes')
-      .where('cardId', '==', cardId)
-      .get()
-    
-    let upvotes = 0
-    let downvotes = 0
-    
-    votesSnapshot.docs.forEach(doc => {
-      const voteData = doc.data()
-      if (voteData.vote === 'up') {
-        upvotes++
-      } else if (voteData.vote === 'down') {
-        downvotes++
-      }
-    })
-    
-    return NextResponse.json({
-      success: true,
-      userVote: null,
-      upvotes,
-      downvotes,
-      total: upvotes + downvotes
-    })
-    
-  } catch (error) {
-    console.error('Error removing vote:', error)
-    return NextResponse.json({ error: 'Failed to remove vote' }, { status: 500 })
+      .doc(voteDocId)
+      .set({
+        cardId,
+        userId,
+        vote,
+        timestamp: Date.now()
+      })
   }
-}
\ No newline at end of file
+
+  return NextResponse.json({
+    success: true,
+    userVote: vote,
+    ...await countVotes(cardId)
+  })
+}, { auth: 'required', failure: 'Failed to process vote' })
+
+// DELETE /api/cards/:cardId/votes → withdraw the caller's vote
+export const DELETE = withAuth<Params>(async (_request, { params, uid: userId }) => {
+  const { cardId } = params
+  await assertNotSanctioned(userId, 'react')
+
+  // Delete user's vote
+  const voteDocId = `${cardId}_${userId}`
+  await firestore
+    .collection('cardVotes')
+    .doc(voteDocId)
+    .delete()
+
+  return NextResponse.json({
+    success: true,
+    userVote: null,
+    ...await countVotes(cardId)
+  })
+}, { auth: 'required', failure: 'Failed to remove vote' })
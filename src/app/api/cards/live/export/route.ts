@@ -0,0 +1,59 @@
+// src/app/api/cards/live/export/route.ts
+import { NextResponse } from 'next/server'
+import { loadLiveCards } from '@/lib/liveCards'
+import { filterCards, parseCardQuery, sortCards } from '@/lib/cardQuery'
+import { DEFAULT_KEYS, LABELS } from '@/lib/predictionColumns'
+import { withAuth } from '@/lib/withAuth'
+import { ApiError } from '@/lib/apiError'
+
+type ExportFormat = 'csv' | 'json'
+
+// quote a CSV field when it holds a delimiter, quote or line break
+function csvField(value: unknown): string {
+  if (value == null) return ''
+  const s = String(value)
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s
+}
+
+// GET /api/cards/live/export?format=csv|json&columns=a,b,c&<card query params>
+// Every card matching the filters, in sort order (paging is ignored), limited to the given columns
+export const GET = withAuth(async request => {
+  const params = new URL(request.url).searchParams
+  const format = (params.get('format') || 'csv').toLowerCase() as ExportFormat
+  if (format !== 'csv' && format !== 'json') {
+    throw new ApiError('format must be csv or json', 400)
+  }
+
+  // unknown column keys are dropped; the card image column exports the image URL
+  const requested = (params.get('columns') || '').split(',').filter(k => Object.hasOwn(LABELS, k))
+  const columns = requested.length > 0 ? requested : DEFAULT_KEYS
+
+  const query = parseCardQuery(params)
+  const cards = sortCards(filterCards(await loadLiveCards(), query), query.sortKey, query.sortDesc)
+
+  const rows = cards.map(card => {
+    const rec = card as unknown as Record<string, unknown>
+    const row: Record<string, unknown> = {}
+    columns.forEach(k => { row[k] = k === 'card' ? rec.baked_img ?? null : rec[k] ?? null })
+    return row
+  })
+
+  const filename = `predictions-${new Date().toISOString().slice(0, 10)}.${format}`
+  const headers = {
+    'Content-Disposition': `attachment; filename="${filename}"`,
+    'Cache-Control':       'no-store'
+  }
+
+  if (format === 'json') {
+    return NextResponse.json(rows, { status: 200, headers })
+  }
+
+  const lines = [
+    columns.map(k => csvField(LABELS[k])).join(','),
+    ...rows.map(row => columns.map(k => csvField(row[k])).join(','))
+  ]
+  return new NextResponse(lines.join('\r\n') + '\r\n', {
+    status: 200,
+    headers: { ...headers, 'Content-Type': 'text/csv; charset=utf-8' }
+  })
+}, { auth: 'none', failure: 'Failed to export cards' })
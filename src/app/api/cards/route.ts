@@ -1,8 +1,9 @@
 import { NextResponse } from 'next/server'
 import { firestore }    from '@/lib/firebaseAdmin'
+import { withAuth }     from '@/lib/withAuth'
 
-export async function GET() {
+export const GET = withAuth(async () => {
   const snap = await firestore.collection('cards').get()
   const cards = snap.docs.map(d => ({ id: d.id, ...d.data() }))
   return NextResponse.json(cards)
-}
+}, { auth: 'none', failure: 'Failed to load cards' })
@@ -1,8 +1,9 @@
 // src/app/api/cards/suggestions/route.ts
 import { NextResponse } from 'next/server'
 import { firestore }     from '@/lib/firebaseAdmin'
+import { withAuth }      from '@/lib/withAuth'
 
-export async function GET(request: Request) {
+export const GET = withAuth(async request => {
   const q = (new URL(request.url)).searchParams.get('q')?.trim().toLowerCase() || ''
   if (!q) return NextResponse.json([], { status: 200 })
 
@@ -44,4 +45,4 @@ export async function GET(request: Request) {
     status: 200,
     headers: { 'Cache-Control': 'public, max-age=0, s-maxage=60' }
   })
-}
+}, { auth: 'none', failure: 'Failed to load suggestions' })
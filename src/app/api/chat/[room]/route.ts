@@ -1,8 +1,10 @@
 // src/app/api/chat/[room]/route.ts
 import { NextResponse } from 'next/server'
-import admin from 'firebase-admin'
 import { firestore } from '@/lib/firebaseAdmin'
-import { headers }   from 'next/headers'
+import { withAuth }  from '@/lib/withAuth'
+import { ApiError, readJson } from '@/lib/apiError'
+import { holdForReview, lastPostTime, moderatePost, publishPost } from '@/lib/moderation'
+import { assertNotSanctioned } from '@/lib/sanctions'
 
 // TypeScript interfaces for Firestore chat data
 interface ChatMessageData {
@@ -13,6 +15,7 @@ interface ChatMessageData {
   likedBy: string[]
   playerId?: string
   playerName?: string
+  hidden?: boolean         // set by a moderator; the text is blanked
 }
 
 interface UserData {
@@ -20,45 +23,10 @@ interface UserData {
   profilePic: string
 }
 
-if (!admin.apps.length) admin.initializeApp()
+type Params = { room: string }
 
-// maximum allowed length for a chat message
-const MAX_LENGTH = 500
-
-// attempt to extract a uid, but don’t error if missing
-async function tryGetUserId() {
-  try {
-    const h = await headers()
-    const authHeader = h.get('authorization') || ''
-    const match      = authHeader.match(/^Bearer (.+)$/)
-    if (!match) return null
-    const decoded = await admin.auth().verifyIdToken(match[1])
-    return decoded.uid
-  } catch {
-    return null
-  }
-}
-
-// simple word‐blocker
-const BLACKLIST = [
-  'nigger','nigga','faggot','fag','retard',
-  'kike','chink','spic','dyke','tranny',
-  'slut','whore','bitch','asshole'
-]
-function censor(text: string): string {
-  return text
-    .split(/\b/)
-    .map(tok =>
-      BLACKLIST.includes(tok.toLowerCase()) ? '****' : tok
-    )
-    .join('')
-}
-
-export async function GET(
-  _req: Request,
-  context: { params: Promise<{ room: string }> }
-) {
-  const { room } = await context.params
+// GET /api/chat/:room → the newest 200 messages; `liked` is set for a signed-in caller
+export const GET = withAuth<Params>(async (_req, { params: { room }, uid: me }) => {
   const col      = `chat_${room}`
   const snap = await firestore
     .collection(col)
@@ -90,8 +58,6 @@ export async function GET(
     return m
   }, {})
 
-  const me = await tryGetUserId()
-
   const msgs = raw.map(m => ({
     id:             m.id,
     parentId:       m.parentId  || null,
@@ -103,78 +69,32 @@ export async function GET(
     likes:          m.likedBy.length,
     liked:          me ? m.likedBy.includes(me) : false,
     playerId:       m.playerId,
-    playerName:     m.playerName
+    playerName:     m.playerName,
+    hidden:         m.hidden === true
   }))
 
   return NextResponse.json(msgs)
-}
-
-export async function POST(
-  req: Request,
-  context: { params: Promise<{ room: string }> }
-) {
-  const { room } = await context.params
-  const h        = await headers()
-  const match    = (h.get('authorization')||'').match(/^Bearer (.+)$/)
-  if (!match) {
-    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 })
-  }
-  const decoded = await admin.auth().verifyIdToken(match[1])
-  const uid     = decoded.uid
+}, { auth: 'optional', failure: 'Failed to load messages' })
 
-  const { text: rawText, parentId } = await req.json()
-  const cleaned = censor(rawText.trim())
+// POST /api/chat/:room { text, parentId? } → post a message through moderation
+export const POST = withAuth<Params>(async (req, { params: { room }, uid }) => {
+  await assertNotSanctioned(uid, 'post')
+  const { text: rawText, parentId } = (await readJson(req) ?? {}) as { text?: unknown; parentId?: string | null }
 
-  if (!cleaned.replace(/\*+/g, '').trim()) {
-    return NextResponse.json(
-      { error: 'Message is empty or contains disallowed language.' },
-      { status: 400 }
-    )
-  }
+  // the user's last message in this room (held ones included), for the rate limit
+  const lastTs = await lastPostTime('chat', room, uid)
 
-  if (cleaned.length > MAX_LENGTH) {
-    return NextResponse.json(
-      { error: `Message too long (max ${MAX_LENGTH} characters).` },
-      { status: 400 }
-    )
+  const result = await moderatePost('chat', rawText, lastTs)
+  if (result.verdict === 'block') {
+    const message = result.reasons.find(r => r.action === 'block')!.message
+    throw new ApiError(message, result.status, undefined, { reasons: result.reasons })
   }
-  const urlPattern = /(https?:\/\/[^\s]+|www\.[^\s]+)/i;
-  if (urlPattern.test(cleaned)) {
-    return NextResponse.json(
-      { error: 'External links are not allowed in chat.' },
-      { status: 400 }
-    );
+  if (result.verdict === 'hold') {
+    await holdForReview('chat', room, uid, result, parentId || null)
+    return NextResponse.json({ held: true, reasons: result.reasons }, { status: 202 })
   }
-  // ─── 1) RATE-LIMIT: fetch this user’s last message in this room ───────
-  const colName = `chat_${room}`
-  const now     = Date.now()
-  const roomCol = firestore.collection(colName)
-  const lastMsgSnap = await roomCol
-    .where('userId', '==', uid)
-    .orderBy('timestamp', 'desc')
-    .limit(1)
-    .get()
 
-  if (!lastMsgSnap.empty) {
-    const lastTs = lastMsgSnap.docs[0].data().timestamp as number
-    if (now - lastTs < 15_000) {
-      return NextResponse.json(
-        { error: "You're sending messages too quickly—please wait a bit." },
-        { status: 429 }
-      )
-    }
-  }
+  await publishPost('chat', room, uid, result.text, parentId || null)
 
-  const sanitized = cleaned.replace(/\n{3,}/g, '\n\n')
-
-  const col = `chat_${room}`
-  await firestore.collection(col).add({
-    userId:    uid,
-    text:      sanitized,
-    parentId:  parentId || null,
-    timestamp: Date.now(),
-    likedBy:   [] as string[]
-  })
-
-  return NextResponse.json({ ok: true }, { status: 201 })
-}
+  return NextResponse.json({ ok: true, reasons: result.reasons }, { status: 201 })
+}, { auth: 'required', failure: 'Failed to post message' })
@@ -1,6 +1,7 @@
 // src/app/api/comments/all/route.ts
 import { NextResponse } from 'next/server'
 import { firestore }    from '@/lib/firebaseAdmin'
+import { withAuth }     from '@/lib/withAuth'
 
 // TypeScript interfaces for Firestore data
 interface CommentData {
@@ -17,7 +18,7 @@ interface UserData {
   profilePic: string
 }
 
-export async function GET() {
+export const GET = withAuth(async () => {
   // 1) fetch all live comments
   const snap = await firestore
     .collection('comments')
@@ -63,4 +64,4 @@ export async function GET() {
   }))
 
   return NextResponse.json(comments)
-}
+}, { auth: 'none', failure: 'Failed to load comments' })
@@ -0,0 +1,19 @@
+// src/app/api/digests/send/route.ts
+import { NextResponse } from 'next/server'
+import { withAuth } from '@/lib/withAuth'
+import { ApiError } from '@/lib/apiError'
+import { DIGEST_FREQUENCIES, sendDigests, type DigestFrequency } from '@/lib/digest'
+
+// POST /api/digests/send?frequency=daily|weekly → mail the digest to every opted-in user (server jobs only)
+// Schedule daily and weekly runs separately; a re-run inside the period skips users already mailed
+export const POST = withAuth(async (request, { log }) => {
+  const url = new URL(request.url)
+  const frequency = url.searchParams.get('frequency') as DigestFrequency
+  if (!DIGEST_FREQUENCIES.includes(frequency)) {
+    throw new ApiError('frequency must be daily or weekly', 400)
+  }
+
+  const result = await sendDigests(frequency, process.env.SITE_URL || url.origin)
+  log(`Digest ${frequency}: ${result.sent} sent, ${result.skipped} skipped, ${result.failed} failed`)
+  return NextResponse.json({ success: true, frequency, ...result })
+}, { auth: 'cron', failure: 'Failed to send digests' })
@@ -0,0 +1,16 @@
+// src/app/api/investments/[id]/close/route.ts
+import { NextResponse } from 'next/server'
+import { withAuth } from '@/lib/withAuth'
+import { fieldsError, readJson } from '@/lib/apiError'
+import { closePosition } from '@/lib/ledger'
+import { validateClose } from '@/lib/investmentValidation'
+
+// POST /api/investments/:id/close { price, date? } → sell everything still held at `price`
+// The sale lands in the ledger like any other sell; realized P&L is after the marketplace tax
+export const POST = withAuth<{ id: string }>(async (req, { params: { id }, uid }) => {
+  const input = validateClose(await readJson(req))
+  if (!input.ok) throw fieldsError('Invalid sale', input.fields)
+
+  const result = await closePosition(uid, id, input.value.price, input.value.date)
+  return NextResponse.json(result, { status: 201 })
+}, { auth: 'required', failure: 'Failed to close position' })
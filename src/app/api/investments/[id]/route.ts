@@ -1,66 +1,42 @@
 // src/app/api/investments/[id]/route.ts
 import { NextResponse } from 'next/server'
-import admin from 'firebase-admin'
 import { firestore } from '@/lib/firebaseAdmin'
-import { headers } from 'next/headers'
+import { withAuth } from '@/lib/withAuth'
+import { ApiError, fieldsError, readJson } from '@/lib/apiError'
+import { validateInvestmentUpdate } from '@/lib/investmentValidation'
 
-/** extract & verify Firebase ID token */
-async function getUserId() {
-  const h = await headers()
-  const authHeader = h.get('authorization') || ''
-  const match = authHeader.match(/^Bearer (.+)$/)
-  if (!match) throw new Error('Missing or malformed Authorization header')
-  const token = match[1]
-  const decoded = await admin.auth().verifyIdToken(token)
-  return decoded.uid
-}
+type Params = { id: string }
 
-// PATCH /api/investments/:id
-export async function PATCH(
-  req: Request,
-  context: { params: Promise<{ id: string }> }
-) {
-  try {
-    const uid = await getUserId()
-    // await the params promise:
-    const { id } = await context.params
+// PATCH /api/investments/:id → edit the projection; quantity and avgBuyPrice come from the ledger
+// 400 with `fields` for invalid input, 404 when the investment doesn't exist
+export const PATCH = withAuth<Params>(async (req, { params: { id }, uid }) => {
+  const result = validateInvestmentUpdate(await readJson(req))
+  if (!result.ok) throw fieldsError('Invalid investment update', result.fields)
 
-    const body = await req.json()
-    // round the avgBuyPrice:
-    const newAvg = Math.round(body.avgBuyPrice)
+  const invRef = firestore
+    .collection('users').doc(uid)
+    .collection('investments').doc(id)
 
-    const invRef = firestore
-      .collection('users').doc(uid)
-      .collection('investments').doc(id)
+  const inv = await invRef.get()
+  if (!inv.exists) {
+    throw new ApiError('Investment not found', 404)
+  }
 
-    await invRef.update({
-      quantity:         body.quantity,
-      avgBuyPrice:      newAvg,
-      userProjectedOvr: body.userProjectedOvr,
-    })
+  await invRef.update({
+    userProjectedOvr: result.value.userProjectedOvr,
+  })
 
-    return NextResponse.json({ ok: true })
-  } catch {
-    return NextResponse.json({ error: 'Authentication failed' }, { status: 401 })
-  }
-}
+  return NextResponse.json({ ok: true })
+}, { auth: 'required', failure: 'Failed to update investment' })
 
 // DELETE /api/investments/:id
-export async function DELETE(
-  _req: Request,
-  context: { params: Promise<{ id: string }> }
-) {
-  try {
-    const uid = await getUserId()
-    const { id } = await context.params
-
-    await firestore
+export const DELETE = withAuth<Params>(async (_req, { params: { id }, uid }) => {
+  // takes the transaction ledger with it
+  await firestore.recursiveDelete(
+    firestore
       .collection('users').doc(uid)
       .collection('investments').doc(id)
-      .delete()
+  )
 
-    return NextResponse.json({ ok: true })
-  } catch {
-    return NextResponse.json({ error: 'Authentication failed' }, { status: 401 })
-  }
-}
+  return NextResponse.json({ ok: true })
+}, { auth: 'required', failure: 'Failed to delete investment' })
@@ -0,0 +1,10 @@
+// src/app/api/investments/[id]/transactions/[txId]/void/route.ts
+import { NextResponse } from 'next/server'
+import { withAuth } from '@/lib/withAuth'
+import { voidTransaction } from '@/lib/ledger'
+
+// POST /api/investments/:id/transactions/:txId/void → void one transaction (the ledger is append-only)
+export const POST = withAuth<{ id: string; txId: string }>(async (_req, { params: { id, txId }, uid }) => {
+  const result = await voidTransaction(uid, id, txId)
+  return NextResponse.json(result)
+}, { auth: 'required', failure: 'Failed to void transaction' })
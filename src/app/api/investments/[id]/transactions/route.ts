@@ -0,0 +1,27 @@
+// src/app/api/investments/[id]/transactions/route.ts
+import { NextResponse } from 'next/server'
+import { withAuth } from '@/lib/withAuth'
+import { fieldsError, readJson } from '@/lib/apiError'
+import {
+  addTransaction,
+  loadTransactions,
+  summarizeLedger
+} from '@/lib/ledger'
+import { validateTransaction } from '@/lib/investmentValidation'
+
+type Params = { id: string }
+
+// GET /api/investments/:id/transactions → the ledger plus the position it derives
+export const GET = withAuth<Params>(async (_req, { params: { id }, uid }) => {
+  const transactions = await loadTransactions(uid, id)
+  return NextResponse.json({ transactions, summary: summarizeLedger(transactions) })
+}, { auth: 'required', failure: 'Failed to load transactions' })
+
+// POST /api/investments/:id/transactions { type: 'buy'|'sell', quantity, price, date? } → append one
+export const POST = withAuth<Params>(async (req, { params: { id }, uid }) => {
+  const input = validateTransaction(await readJson(req))
+  if (!input.ok) throw fieldsError('Invalid transaction', input.fields)
+
+  const result = await addTransaction(uid, id, input.value)
+  return NextResponse.json(result, { status: 201 })
+}, { auth: 'required', failure: 'Failed to add transaction' })
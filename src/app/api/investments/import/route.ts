@@ -0,0 +1,54 @@
+// src/app/api/investments/import/route.ts
+import { NextResponse } from 'next/server'
+import { firestore } from '@/lib/firebaseAdmin'
+import { withAuth } from '@/lib/withAuth'
+import { ApiError, fieldsError, readJson } from '@/lib/apiError'
+import { openInvestment } from '@/lib/ledger'
+import { validateInvestmentCreate } from '@/lib/investmentValidation'
+import { matchImportRows, parseImportCsv } from '@/lib/investmentImport'
+
+// POST /api/investments/import { csv, choices?, commit? }
+// Without `commit`, returns the matched preview rows; with it, writes every `ready` row in one batch
+// and skips the rest. `choices` maps a CSV line number to the card picked for an ambiguous row
+export const POST = withAuth(async (req, { uid }) => {
+  const body = await readJson(req) as Record<string, unknown> | null
+  if (!body || typeof body.csv !== 'string') {
+    throw new ApiError('csv must be the text of the uploaded file', 400)
+  }
+  const { choices = {} } = body
+  if (!choices || typeof choices !== 'object' || Array.isArray(choices) ||
+      !Object.values(choices).every(v => typeof v === 'string')) {
+    throw fieldsError('Invalid choices', { choices: 'Must map CSV line numbers to card ids' })
+  }
+
+  const rows  = await matchImportRows(parseImportCsv(body.csv), choices as Record<string, string>)
+  const ready = rows.filter(r => r.status === 'ready')
+
+  if (body.commit !== true) {
+    return NextResponse.json({ rows, ready: ready.length, skipped: rows.length - ready.length })
+  }
+  if (ready.length === 0) {
+    throw new ApiError('No rows are ready to import', 400, undefined, { rows })
+  }
+
+  const now   = Date.now()
+  const batch = firestore.batch()
+  let created = 0
+  ready.forEach(row => {
+    const input = validateInvestmentCreate({ ...row, playerUUID: row.cardId })
+    if (!input.ok) return
+    const card = row.candidates.find(c => c.id === row.cardId)
+    openInvestment(batch, uid, input.value, card?.name ?? row.name, now)
+    created++
+  })
+  if (created === 0) {
+    throw new ApiError('No rows are ready to import', 400, undefined, { rows })
+  }
+  await batch.commit()
+
+  // counts what was written: a ready row that still fails validation is skipped
+  return NextResponse.json(
+    { rows, created, skipped: rows.length - created },
+    { status: 201 }
+  )
+}, { auth: 'required', failure: 'Failed to import investments' })
@@ -1,94 +1,62 @@
 // src/app/api/investments/route.ts
 import { NextResponse } from 'next/server'
-import admin from 'firebase-admin'
 import { firestore } from '@/lib/firebaseAdmin'
-import { headers } from 'next/headers'
-
-// (re-)initialize the Admin SDK if it hasn’t been already
-if (!admin.apps.length) {
-  admin.initializeApp({
-    // your existing firebaseAdmin setup
-    credential: admin.credential.applicationDefault()
-  })
-}
-
-/**
- * Helper: extract & verify a Firebase ID token from
- *   Authorization: Bearer <token>
- */
-async function getUserId() {
-  // must await() here so you can safely call .get()
-  const h = await headers()
-  const authHeader = h.get('authorization') || ''
-  const match = authHeader.match(/^Bearer (.+)$/)
-  if (!match) throw new Error('Missing or malformed Authorization header')
-  const token = match[1]
-  const decoded = await admin.auth().verifyIdToken(token)
-  return decoded.uid
-}
+import { withAuth } from '@/lib/withAuth'
+import { ApiError, fieldsError, readJson } from '@/lib/apiError'
+import { openInvestment } from '@/lib/ledger'
+import { validateInvestmentCreate } from '@/lib/investmentValidation'
 
 // GET /api/investments → list this user’s investments
-export async function GET() {
-  try {
-    const uid = await getUserId()
-    const snap = await firestore
-      .collection('users')
-      .doc(uid)
-      .collection('investments')
-      .orderBy('createdAt', 'desc')
-      .get()
-
-    const investments = snap.docs.map(d => ({
-      id: d.id,
-      ...d.data()
-    }))
-    return NextResponse.json(investments)
-  } catch {
-    return NextResponse.json({ error: 'Authentication failed' }, { status: 401 })
+export const GET = withAuth(async (_req, { uid }) => {
+  const snap = await firestore
+    .collection('users')
+    .doc(uid)
+    .collection('investments')
+    .orderBy('createdAt', 'desc')
+    .get()
+
+  const investments = snap.docs.map(d => ({
+    id: d.id,
+    ...d.data()
+  }))
+  return NextResponse.json(investments)
+}, { auth: 'required', failure: 'Failed to load investments' })
+
+// POST /api/investments → add a new one, recording the initial purchase as its first ledger buy
+// 400 with `fields` for invalid input, 404 when the card doesn't exist
+export const POST = withAuth(async (req, { uid }) => {
+  const result = validateInvestmentCreate(await readJson(req))
+  if (!result.ok) throw fieldsError('Invalid investment', result.fields)
+  const { playerUUID, playerName } = result.value
+
+  const card = await firestore.collection('cards').doc(playerUUID).get()
+  if (!card.exists) {
+    throw fieldsError('Card not found', { playerUUID: 'No card with this id' }, 404)
   }
-}
 
-// POST /api/investments → add a new one
-export async function POST(req: Request) {
-  try {
-    const uid = await getUserId()
-    const { playerUUID, quantity, avgBuyPrice, userProjectedOvr } = await req.json()
+  const batch = firestore.batch()
+  const id = openInvestment(batch, uid, result.value, card.get('name') ?? playerName ?? null)
+  await batch.commit()
 
-    const ref = await firestore
-      .collection('users')
-      .doc(uid)
-      .collection('investments')
-      .add({
-        playerUUID,
-        quantity,
-        avgBuyPrice,
-        userProjectedOvr,
-        createdAt: Date.now()
-      })
-
-    return NextResponse.json({ id: ref.id }, { status: 201 })
-  } catch {
-    return NextResponse.json({ error: 'Authentication failed' }, { status: 401 })
-  }
-}
+  return NextResponse.json({ id }, { status: 201 })
+}, { auth: 'required', failure: 'Failed to create investment' })
 
 // DELETE /api/investments/:id → remove one
-export async function DELETE(req: Request) {
-  try {
-    const uid = await getUserId()
-    const url = new URL(req.url)
-    const id = url.pathname.split('/').pop()
-    if (!id) throw new Error('Missing investment ID')
+export const DELETE = withAuth(async (req, { uid }) => {
+  const url = new URL(req.url)
+  const id = url.pathname.split('/').pop()
+  if (!id || id === 'investments') {
+    throw new ApiError('Missing investment ID', 400)
+  }
 
-    await firestore
+  // takes the transaction ledger with it
+  await firestore.recursiveDelete(
+    firestore
       .collection('users')
       .doc(uid)
       .collection('investments')
       .doc(id)
-      .delete()
+  )
 
-    return NextResponse.json({ success: true })
-  } catch {
-    return NextResponse.json({ error: 'Authentication failed' }, { status: 401 })
-  }
-}
+  return NextResponse.json({ success: true })
+}, { auth: 'required', failure: 'Failed to delete investment' })
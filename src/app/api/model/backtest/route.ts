@@ -0,0 +1,57 @@
+// src/app/api/model/backtest/route.ts
+import { NextResponse } from 'next/server'
+import { firestore }    from '@/lib/firebaseAdmin'
+import { withAuth }     from '@/lib/withAuth'
+import { ApiError, fieldsError } from '@/lib/apiError'
+import { dayBefore, loadBacktest, runBacktest } from '@/lib/backtest'
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/
+
+// a real calendar day: right shape, parses, and doesn't roll over (2025-02-30 isn't March 2)
+const isDate = (v: string) =>
+  DATE_RE.test(v) && !isNaN(Date.parse(v)) && new Date(`${v}T00:00:00Z`).toISOString().slice(0, 10) === v
+
+// GET /api/model/backtest?update=YYYY-MM-DD → stored report (no param: list of reports)
+export const GET = withAuth(async request => {
+  const update = new URL(request.url).searchParams.get('update')
+
+  if (!update) {
+    const snap = await firestore
+      .collection('backtests')
+      .orderBy('update', 'desc')
+      .limit(20)
+      .select('update', 'frozen', 'generatedAt', 'cards', 'direction_hit_rate', 'delta_mae', 'interval_coverage')
+      .get()
+    return NextResponse.json(snap.docs.map(d => d.data()))
+  }
+
+  if (!isDate(update)) {
+    throw fieldsError('Invalid backtest', { update: 'Must be a YYYY-MM-DD date' })
+  }
+
+  const report = await loadBacktest(update)
+  if (!report) {
+    throw new ApiError('No backtest for this update', 404)
+  }
+  return NextResponse.json(report, {
+    status: 200,
+    headers: { 'Cache-Control': 'public, max-age=0, s-maxage=300' }
+  })
+}, { auth: 'none', failure: 'Failed to load backtest' })
+
+// POST /api/model/backtest?update=YYYY-MM-DD[&frozen=YYYY-MM-DD] → run and store the report (server jobs only)
+export const POST = withAuth(async (request, { log }) => {
+  const params = new URL(request.url).searchParams
+  const update = params.get('update') || ''
+  if (!isDate(update)) {
+    throw fieldsError('Invalid backtest', { update: 'Must be a YYYY-MM-DD date' })
+  }
+  const frozen = params.get('frozen') || dayBefore(update)
+  if (!isDate(frozen) || frozen >= update) {
+    throw fieldsError('Invalid backtest', { frozen: 'Must be a YYYY-MM-DD date before the update' })
+  }
+
+  const report = await runBacktest(update, frozen)
+  log(`Backtest ${update} (frozen ${frozen}): ${report.cards} cards`)
+  return NextResponse.json(report, { status: 201 })
+}, { auth: 'cron', failure: 'Failed to run backtest' })
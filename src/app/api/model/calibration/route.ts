@@ -0,0 +1,31 @@
+// src/app/api/model/calibration/route.ts
+import { NextResponse } from 'next/server'
+import { withAuth } from '@/lib/withAuth'
+import { ApiError } from '@/lib/apiError'
+import { loadCalibration, refreshCalibration } from '@/lib/calibration'
+
+// GET /api/model/calibration → current confidence calibration table
+export const GET = withAuth(async () => {
+  const table = await loadCalibration()
+  if (!table) {
+    throw new ApiError('No calibration table yet', 404)
+  }
+  return NextResponse.json(table, {
+    status: 200,
+    headers: { 'Cache-Control': 'public, max-age=0, s-maxage=300' }
+  })
+}, { auth: 'none', failure: 'Failed to load calibration' })
+
+// POST /api/model/calibration[?updates=YYYY-MM-DD,...] → rebuild from backtests (server jobs only)
+export const POST = withAuth(async (request, { log }) => {
+  const param   = new URL(request.url).searchParams.get('updates')
+  const updates = param ? param.split(',').map(u => u.trim()).filter(Boolean) : undefined
+  if (updates?.some(u => !/^\d{4}-\d{2}-\d{2}$/.test(u))) {
+    throw new ApiError('updates must be YYYY-MM-DD dates', 400)
+  }
+
+  const table = await refreshCalibration(updates)
+  const samples = Object.values(table.widthCells).reduce((a, c) => a + c.n, 0)
+  log(`Calibration refreshed from ${table.updates.join(', ') || 'no backtests'}: ${samples} outcomes`)
+  return NextResponse.json(table, { status: 201 })
+}, { auth: 'cron', failure: 'Failed to refresh calibration' })
@@ -0,0 +1,17 @@
+// src/app/api/model/prediction-snapshots/route.ts
+import { NextResponse } from 'next/server'
+import { withAuth } from '@/lib/withAuth'
+import { ApiError } from '@/lib/apiError'
+import { snapshotAllPredictions, snapshotDate } from '@/lib/predictionHistory'
+
+// POST /api/model/prediction-snapshots → freeze today's latestPrediction for every card (server jobs only)
+export const POST = withAuth(async (request, { log }) => {
+  const date = new URL(request.url).searchParams.get('date') || snapshotDate()
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    throw new ApiError('date must be YYYY-MM-DD', 400)
+  }
+
+  const written = await snapshotAllPredictions(date)
+  log(`Prediction snapshot ${date}: ${written} cards`)
+  return NextResponse.json({ success: true, date, written })
+}, { auth: 'cron', failure: 'Failed to write prediction snapshots' })
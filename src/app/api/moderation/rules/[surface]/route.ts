@@ -0,0 +1,36 @@
+// src/app/api/moderation/rules/[surface]/route.ts
+import { NextResponse } from 'next/server'
+import { withAuth } from '@/lib/withAuth'
+import { ApiError, fieldsError, readJson } from '@/lib/apiError'
+import {
+  loadRuleSet,
+  MODERATION_SURFACES,
+  saveRuleSet,
+  validateRuleSet,
+  type ModerationSurface
+} from '@/lib/moderation'
+
+type Params = { surface: string }
+
+function surfaceOf(params: Params): ModerationSurface {
+  if (!MODERATION_SURFACES.includes(params.surface as ModerationSurface)) {
+    throw new ApiError(`surface must be one of ${MODERATION_SURFACES.join(', ')}`, 404)
+  }
+  return params.surface as ModerationSurface
+}
+
+// GET /api/moderation/rules/:surface → the rule set chat or comments run (admins and server jobs)
+export const GET = withAuth<Params>(async (_request, { params }) => {
+  return NextResponse.json(await loadRuleSet(surfaceOf(params)))
+}, { auth: 'admin', cron: true, failure: 'Failed to load moderation rules' })
+
+// PUT /api/moderation/rules/:surface { maxLength, minIntervalMs, rules } → replace the rule set (admins and server jobs)
+export const PUT = withAuth<Params>(async (request, { params, log }) => {
+  const surface = surfaceOf(params)
+  const checked = validateRuleSet(await readJson(request))
+  if (!checked.ok) throw fieldsError('Invalid rule set', checked.fields)
+
+  const set = await saveRuleSet(surface, checked.value)
+  log(`Moderation rules for ${surface} replaced: ${set.rules.length} rules`)
+  return NextResponse.json(set)
+}, { auth: 'admin', cron: true, failure: 'Failed to save moderation rules' })
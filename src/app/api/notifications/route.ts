@@ -0,0 +1,24 @@
+// src/app/api/notifications/route.ts
+import { NextResponse } from 'next/server'
+import { withAuth } from '@/lib/withAuth'
+import { ApiError, readJson } from '@/lib/apiError'
+import { loadNotifications, markNotificationsRead } from '@/lib/notifications'
+
+// GET /api/notifications → { notifications, unread } for the Navbar bell, newest first
+export const GET = withAuth(async (_req, { uid }) => {
+  return NextResponse.json(await loadNotifications(uid), {
+    headers: { 'Cache-Control': 'no-store' }
+  })
+}, { auth: 'required', failure: 'Failed to load notifications' })
+
+// PATCH /api/notifications { ids? } → mark those notifications read, or all of them without ids
+export const PATCH = withAuth(async (req, { uid }) => {
+  const { ids } = (await readJson(req) ?? {}) as { ids?: unknown }
+  if (ids !== undefined &&
+      (!Array.isArray(ids) || ids.length > 100 || !ids.every(id => typeof id === 'string' && id && !id.includes('/')))) {
+    throw new ApiError('ids must be a list of notification ids', 400)
+  }
+
+  const updated = await markNotificationsRead(uid, ids)
+  return NextResponse.json({ ok: true, updated })
+}, { auth: 'required', failure: 'Failed to update notifications' })
@@ -0,0 +1,16 @@
+// src/app/api/reports/route.ts
+import { NextResponse } from 'next/server'
+import { withAuth } from '@/lib/withAuth'
+import { fieldsError, readJson } from '@/lib/apiError'
+import { fileReport } from '@/lib/reports'
+import { validateReport } from '@/lib/reportRules'
+
+// POST /api/reports { surface, target, contentId, reason, note? } → flag a chat message or card comment
+export const POST = withAuth(async (request, { uid }) => {
+  const checked = validateReport(await readJson(request))
+  if (!checked.ok) throw fieldsError('Invalid report', checked.fields)
+
+  const { report, created } = await fileReport(uid, checked.value)
+  // reporters only learn that the report is in, not who else reported or what was decided
+  return NextResponse.json({ id: report.id, reported: true }, { status: created ? 201 : 200 })
+}, { auth: 'required', failure: 'Failed to file report' })
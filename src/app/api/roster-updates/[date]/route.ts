@@ -0,0 +1,11 @@
+// src/app/api/roster-updates/[date]/route.ts
+import { NextResponse } from 'next/server'
+import { withAuth } from '@/lib/withAuth'
+import { deleteRosterUpdate } from '@/lib/rosterUpdates'
+
+// DELETE /api/roster-updates/:date → drop an update from the calendar (admins and server jobs)
+export const DELETE = withAuth<{ date: string }>(async (_request, { params: { date }, log }) => {
+  await deleteRosterUpdate(date)
+  log(`Roster update ${date} deleted`)
+  return NextResponse.json({ ok: true })
+}, { auth: 'admin', cron: true, failure: 'Failed to delete roster update' })
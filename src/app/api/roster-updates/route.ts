@@ -0,0 +1,26 @@
+// src/app/api/roster-updates/route.ts
+import { NextResponse } from 'next/server'
+import { withAuth } from '@/lib/withAuth'
+import { fieldsError, readJson } from '@/lib/apiError'
+import { loadRosterUpdates, saveRosterUpdate } from '@/lib/rosterUpdates'
+import { nextRosterUpdate, validateRosterUpdate } from '@/lib/rosterCalendar'
+
+// GET /api/roster-updates → { updates (oldest first), next } for countdowns and prediction labels
+export const GET = withAuth(async () => {
+  const updates = await loadRosterUpdates()
+  return NextResponse.json({ updates, next: nextRosterUpdate(updates) }, {
+    status: 200,
+    headers: { 'Cache-Control': 'public, max-age=0, s-maxage=60' }
+  })
+}, { auth: 'none', failure: 'Failed to load roster updates' })
+
+// POST /api/roster-updates { date, releaseAt?, state?, label? } → schedule an update or change its
+// state (admins and server jobs); an existing update on the same date is replaced
+export const POST = withAuth(async (request, { log }) => {
+  const checked = validateRosterUpdate(await readJson(request))
+  if (!checked.ok) throw fieldsError('Invalid roster update', checked.fields)
+
+  const { update, created } = await saveRosterUpdate(checked.value)
+  log(`Roster update ${update.date} saved as ${update.state}`)
+  return NextResponse.json(update, { status: created ? 201 : 200 })
+}, { auth: 'admin', cron: true, failure: 'Failed to save roster update' })
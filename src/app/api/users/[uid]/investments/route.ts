@@ -1,16 +1,13 @@
 import { NextResponse } from 'next/server'
 import { firestore }  from '@/lib/firebaseAdmin'
+import { withAuth }   from '@/lib/withAuth'
+import { ApiError }   from '@/lib/apiError'
 
-// properly typed context for Next.js App Router
-export async function GET(
-  _req: Request,
-  context: { params: Promise<{ uid: string }> }
-) {
-  const { uid } = await context.params
-
+// GET /api/users/:uid/investments → a user's holdings, when they've made them public
+export const GET = withAuth<{ uid: string }>(async (_req, { params: { uid } }) => {
   const userDoc = await firestore.doc(`users/${uid}`).get()
   if (!userDoc.exists || !userDoc.data()?.investmentsPublic) {
-    return NextResponse.json({ error: 'Not public' }, { status: 403 })
+    throw new ApiError('Not public', 403)
   }
 
   const snap = await firestore
@@ -21,4 +18,4 @@ export async function GET(
 
   const investments = snap.docs.map(d => ({ id: d.id, ...d.data() }))
   return NextResponse.json(investments)
-}
+}, { auth: 'none', failure: 'Failed to load investments' })
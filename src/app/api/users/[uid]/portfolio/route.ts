@@ -0,0 +1,23 @@
+// src/app/api/users/[uid]/portfolio/route.ts
+import { NextResponse } from 'next/server'
+import { firestore } from '@/lib/firebaseAdmin'
+import { withAuth } from '@/lib/withAuth'
+import { ApiError } from '@/lib/apiError'
+import { loadPortfolio } from '@/lib/portfolio'
+
+// GET /api/users/:uid/portfolio → holdings with market, model and user-projected values, totals and allocation
+// The owner always sees it; everyone else only when investmentsPublic is set
+export const GET = withAuth<{ uid: string }>(async (_req, { params: { uid }, uid: caller }) => {
+  const userDoc = await firestore.doc(`users/${uid}`).get()
+  if (!userDoc.exists) {
+    throw new ApiError('User not found', 404)
+  }
+  if (caller !== uid && !userDoc.data()?.investmentsPublic) {
+    throw new ApiError('Not public', 403)
+  }
+
+  const portfolio = await loadPortfolio(uid)
+  return NextResponse.json(portfolio, {
+    headers: { 'Cache-Control': 'private, no-store' }
+  })
+}, { auth: 'optional', failure: 'Failed to value portfolio' })
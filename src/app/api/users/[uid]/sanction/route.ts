@@ -0,0 +1,26 @@
+// src/app/api/users/[uid]/sanction/route.ts
+import { NextResponse } from 'next/server'
+import { withAuth } from '@/lib/withAuth'
+import { fieldsError, readJson } from '@/lib/apiError'
+import { liftSanction, setSanction } from '@/lib/sanctions'
+import { validateSanction } from '@/lib/sanctionRules'
+
+type Params = { uid: string }
+
+// POST /api/users/:uid/sanction { kind: mute|timeout|ban, minutes?, reason? } → sanction the user,
+// replacing any current sanction (moderators only)
+export const POST = withAuth<Params>(async (request, { params, uid, log }) => {
+  const checked = validateSanction(await readJson(request))
+  if (!checked.ok) throw fieldsError('Invalid sanction', checked.fields)
+
+  const sanction = await setSanction(params.uid, checked.value, uid)
+  log(`${params.uid} sanctioned by ${uid}: ${sanction.kind}${sanction.until ? ` until ${new Date(sanction.until).toISOString()}` : ''}`)
+  return NextResponse.json({ sanction })
+}, { auth: 'moderator', failure: 'Failed to sanction user' })
+
+// DELETE /api/users/:uid/sanction → lift the user's sanction (moderators only)
+export const DELETE = withAuth<Params>(async (_request, { params, uid, log }) => {
+  const lifted = await liftSanction(params.uid)
+  log(`${params.uid}'s ${lifted.kind} lifted by ${uid}`)
+  return NextResponse.json({ sanction: null })
+}, { auth: 'moderator', failure: 'Failed to lift sanction' })
@@ -0,0 +1,36 @@
+// src/app/api/users/[uid]/screens/[screenId]/route.ts
+import { NextResponse } from 'next/server'
+import { firestore } from '@/lib/firebaseAdmin'
+import { withAuth } from '@/lib/withAuth'
+import { ApiError } from '@/lib/apiError'
+import type { Screen } from '@/lib/screens'
+
+type Params = { uid: string; screenId: string }
+
+// GET /api/users/:uid/screens/:screenId → one screen; public so shared links open for anyone
+export const GET = withAuth<Params>(async (_req, { params: { uid, screenId } }) => {
+  const doc = await firestore
+    .collection('users').doc(uid)
+    .collection('screens').doc(screenId)
+    .get()
+
+  if (!doc.exists) {
+    throw new ApiError('Screen not found', 404)
+  }
+  const screen = { id: doc.id, ...doc.data() } as Screen
+  return NextResponse.json(screen)
+}, { auth: 'none', failure: 'Failed to load screen' })
+
+// DELETE /api/users/:uid/screens/:screenId → owner only
+export const DELETE = withAuth<Params>(async (_req, { params: { uid, screenId }, uid: caller }) => {
+  if (caller !== uid) {
+    throw new ApiError('Forbidden', 403)
+  }
+
+  await firestore
+    .collection('users').doc(uid)
+    .collection('screens').doc(screenId)
+    .delete()
+
+  return NextResponse.json({ ok: true })
+}, { auth: 'required', failure: 'Failed to delete screen' })
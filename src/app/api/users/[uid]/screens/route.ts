@@ -0,0 +1,67 @@
+// src/app/api/users/[uid]/screens/route.ts
+import { NextResponse } from 'next/server'
+import { firestore } from '@/lib/firebaseAdmin'
+import { withAuth } from '@/lib/withAuth'
+import { ApiError, readJson } from '@/lib/apiError'
+import {
+  MAX_SCREENS,
+  MAX_SCREEN_NAME,
+  MAX_SCREEN_QUERY,
+  sanitizeScreenQuery,
+  type Screen
+} from '@/lib/screens'
+
+type Params = { uid: string }
+
+// GET /api/users/:uid/screens → the owner's saved screens, most recently saved first
+export const GET = withAuth<Params>(async (_req, { params: { uid }, uid: caller }) => {
+  if (caller !== uid) {
+    throw new ApiError('Forbidden', 403)
+  }
+
+  const snap = await firestore
+    .collection('users').doc(uid)
+    .collection('screens')
+    .orderBy('updatedAt', 'desc')
+    .get()
+
+  const screens: Screen[] = snap.docs.map(d => ({ id: d.id, ...d.data() } as Screen))
+  return NextResponse.json(screens)
+}, { auth: 'required', failure: 'Failed to load screens' })
+
+// POST /api/users/:uid/screens { name, query } → save the current view
+// Saving under an existing name overwrites that screen
+export const POST = withAuth<Params>(async (req, { params: { uid }, uid: caller }) => {
+  if (caller !== uid) {
+    throw new ApiError('Forbidden', 403)
+  }
+
+  const body  = (await readJson(req) ?? {}) as { name?: unknown; query?: unknown }
+  const name  = typeof body.name === 'string' ? body.name.trim() : ''
+  const query = typeof body.query === 'string' ? sanitizeScreenQuery(body.query) : ''
+
+  if (!name || name.length > MAX_SCREEN_NAME) {
+    throw new ApiError(`Name must be 1-${MAX_SCREEN_NAME} characters`, 400)
+  }
+  if (query.length > MAX_SCREEN_QUERY) {
+    throw new ApiError('Screen is too large', 400)
+  }
+
+  const col = firestore.collection('users').doc(uid).collection('screens')
+  const now = Date.now()
+
+  const existing = await col.where('name', '==', name).limit(1).get()
+  if (!existing.empty) {
+    const ref = existing.docs[0].ref
+    await ref.update({ query, updatedAt: now })
+    return NextResponse.json({ id: ref.id, name, query, createdAt: existing.docs[0].get('createdAt'), updatedAt: now })
+  }
+
+  const count = await col.count().get()
+  if (count.data().count >= MAX_SCREENS) {
+    throw new ApiError(`At most ${MAX_SCREENS} screens can be saved`, 400)
+  }
+
+  const ref = await col.add({ name, query, createdAt: now, updatedAt: now })
+  return NextResponse.json({ id: ref.id, name, query, createdAt: now, updatedAt: now }, { status: 201 })
+}, { auth: 'required', failure: 'Failed to save screen' })
@@ -0,0 +1,18 @@
+// src/app/api/watchlist/[cardId]/route.ts
+import { NextResponse } from 'next/server'
+import { withAuth } from '@/lib/withAuth'
+import { getWatchEntry, removeFromWatchlist } from '@/lib/watchlist'
+
+type Params = { cardId: string }
+
+// GET /api/watchlist/:cardId → { watching, entry } for the player page's Watch button
+export const GET = withAuth<Params>(async (_req, { params: { cardId }, uid }) => {
+  const entry = await getWatchEntry(uid, cardId)
+  return NextResponse.json({ watching: entry !== null, entry })
+}, { auth: 'required', failure: 'Failed to load watchlist entry' })
+
+// DELETE /api/watchlist/:cardId → stop watching
+export const DELETE = withAuth<Params>(async (_req, { params: { cardId }, uid }) => {
+  await removeFromWatchlist(uid, cardId)
+  return NextResponse.json({ ok: true })
+}, { auth: 'required', failure: 'Failed to remove from watchlist' })
@@ -0,0 +1,21 @@
+// src/app/api/watchlist/route.ts
+import { NextResponse } from 'next/server'
+import { withAuth } from '@/lib/withAuth'
+import { ApiError, readJson } from '@/lib/apiError'
+import { addToWatchlist, loadWatchlist } from '@/lib/watchlist'
+
+// GET /api/watchlist → the signed-in user's watched cards with live price and delta movement
+export const GET = withAuth(async (_req, { uid }) => {
+  return NextResponse.json(await loadWatchlist(uid))
+}, { auth: 'required', failure: 'Failed to load watchlist' })
+
+// POST /api/watchlist { cardId } → start watching a live card (200 if it already was)
+export const POST = withAuth(async (req, { uid }) => {
+  const { cardId } = (await readJson(req) ?? {}) as { cardId?: unknown }
+  if (typeof cardId !== 'string' || !cardId || cardId.includes('/')) {
+    throw new ApiError('cardId is required', 400)
+  }
+
+  const { item, created } = await addToWatchlist(uid, cardId)
+  return NextResponse.json(item, { status: created ? 201 : 200 })
+}, { auth: 'required', failure: 'Failed to add to watchlist' })
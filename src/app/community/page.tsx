@@ -16,6 +16,8 @@ import {
   getDoc
 } from 'firebase/firestore'
 import { FaSpinner } from 'react-icons/fa'
+import ReportForm from '@/components/ReportForm'
+import type { ModerationReason } from '@/lib/moderation'
 
 // Icon imports for various community features
 import {
@@ -29,7 +31,8 @@ import {
   FaFire,
   FaSync,
   FaBars,
-  FaTimes
+  FaTimes,
+  FaFlag
 } from 'react-icons/fa'
 
 // Message structure for display in the UI with user and interaction data
@@ -45,6 +48,7 @@ interface Message {
   playerName?: string
   likes: number
   liked: boolean          // Whether current user has liked this message
+  hidden?: boolean        // Removed by a moderator; the text is blank
 }
 
 // User search result structure for user lookup functionality
@@ -62,6 +66,7 @@ interface ChatMessageData {
   timestamp: number
   playerId?: string        // For live comments on specific players
   likedBy: string[]       // Array of user IDs who liked this message
+  hidden?: boolean
 }
 
 // User profile data structure from Firestore users collection
@@ -133,6 +138,8 @@ export default function CommunityPage() {
   const [loading, setLoading] = useState(true)
   const [newText, setNewText] = useState('')
   const [replyTo, setReplyTo] = useState<string | null>(null)
+  // moderation feedback from the last send: why it was rejected, held or masked
+  const [sendNotice, setSendNotice] = useState<{ error: boolean; messages: string[] } | null>(null)
   
   // Player card data for live comments
   const [cardThumbs, setCardThumbs] = useState<Record<string, string>>({})
@@ -280,6 +287,7 @@ export default function CommunityPage() {
           playerId:    data.playerId,
           likes:       (data.likedBy || []).length,
           liked:       user ? (data.likedBy || []).includes(user.uid) : false,
+          hidden:      data.hidden === true,
           // username & profilePicUrl will be merged in below
         }
       }) as Array<Omit<Message, 'username' | 'profilePicUrl'>>
@@ -384,10 +392,19 @@ export default function CommunityPage() {
       },
       body: JSON.stringify(payload)
     })
+    const data = await res.json().catch(() => ({}))
+    const reasons: ModerationReason[] = data.reasons ?? []
     if (!res.ok) {
-      console.error(await res.json())
-      return alert('Failed to send')
+      const blocked = reasons.filter(r => r.action === 'block').map(r => r.message)
+      setSendNotice({ error: true, messages: blocked.length ? [...new Set(blocked)] : [data.error || 'Failed to send'] })
+      return
     }
+    // accepted, but say so when words were masked or the message waits for review
+    setSendNotice(
+      data.held         ? { error: false, messages: ['Your message is waiting for a moderator to review it.'] }
+      : reasons.length  ? { error: false, messages: [...new Set(reasons.map(r => r.message))] }
+      : null
+    )
     // Clear input after successful send
     setNewText('')
     setReplyTo(null)
@@ -408,7 +425,10 @@ export default function CommunityPage() {
         body: JSON.stringify({ messageId: id })
       }
     )
-    if (!res.ok) return console.error('Like failed', await res.json())
+    if (!res.ok) {
+      const data = await res.json().catch(() => ({}))
+      return alert(data.error || 'Like failed')
+    }
     const { toggled } = await res.json()
     
     // Update local state optimistically
@@ -652,6 +672,8 @@ export default function CommunityPage() {
                           thumb={cardThumbs[m.playerId!]||''}
                           cardName={cardNames[m.playerId!]||''}
                           userLoggedIn={!!user}
+                          currentUid={user?.uid ?? null}
+                          room={activeTab === 'invest' ? 'investing' : activeTab === 'flip' ? 'flipping' : activeTab}
                           onReply={setReplyTo}
                           onLike={toggleLike}
                         />
@@ -663,6 +685,11 @@ export default function CommunityPage() {
 
           {activeTab !== 'live' && activeTab !== 'trending' && (
             <div className={styles.formWrap}>
+              {sendNotice && (
+                <div className={`${styles.composerNotice} ${sendNotice.error ? styles.composerError : ''}`}>
+                  {sendNotice.messages.map(m => <div key={m}>{m}</div>)}
+                </div>
+              )}
               {replyTo && (
                 <div className={styles.replyIndicator}>
                   Replying to @{ msgs.find(m=>m.id===replyTo)?.username }
@@ -689,7 +716,7 @@ export default function CommunityPage() {
                     : 'Log in to chat'
                   }
                   value={newText}
-                  onChange={e=>setNewText(e.target.value)}
+                  onChange={e=>{ setNewText(e.target.value); setSendNotice(null) }}
                   onKeyDown={handleKeyDown}
                   disabled={!user}
                   rows={1}
@@ -746,7 +773,7 @@ function MessageTime({ timestamp }: { timestamp: number }) {
  * Handles replies, likes, player card links (for live comments), and collapse/expand functionality
  */
 function MessageItem({
-  msg, depth, isLive, thumb, cardName, userLoggedIn, onReply, onLike
+  msg, depth, isLive, thumb, cardName, userLoggedIn, currentUid, room, onReply, onLike
 }: {
   msg: MessageTree,
   depth: number,      // Nesting level for threaded replies
@@ -754,11 +781,18 @@ function MessageItem({
   thumb: string,      // Player card thumbnail (live comments only)
   cardName: string,   // Player name (live comments only)
   userLoggedIn: boolean,
+  currentUid: string | null,
+  room: string,       // Chat room the message lives in (chat_{room})
   onReply: (id: string) => void,
   onLike: (id: string) => void
 }) {
   const [showTime, setShowTime]   = useState(true)
   const [collapsed, setCollapsed] = useState(true)
+  const [reporting, setReporting] = useState(false)
+
+  // live comments are reported against their card, chat messages against their room
+  const reportTarget = isLive ? msg.playerId : room
+  const canReport    = userLoggedIn && !msg.hidden && msg.userId !== currentUid && !!reportTarget
 
   return (
     <li className={`${styles.message} ${depth>0?styles.reply:''}`}>
@@ -792,23 +826,45 @@ function MessageItem({
         </div>
 
         <div className={styles.messageContent}>
-          <p className={styles.text}>{msg.text}</p>
-          {!isLive && userLoggedIn && (
+          <p className={`${styles.text} ${msg.hidden ? styles.hiddenText : ''}`}>
+            {msg.hidden ? 'Removed by a moderator' : msg.text}
+          </p>
+          {userLoggedIn && (!isLive || canReport) && (
             <div className={styles.messageActions}>
-              <button
-                className={styles.actionBtn}
-                onClick={()=>onReply(msg.id)}
-              >
-                <FaReply /> Reply
-              </button>
-              <button
-                className={styles.actionBtn}
-                onClick={()=>onLike(msg.id)}
-              >
-                <FaHeart className={ msg.liked ? styles.liked : '' }/> {msg.likes}
-              </button>
+              {!isLive && (
+                <>
+                  <button
+                    className={styles.actionBtn}
+                    onClick={()=>onReply(msg.id)}
+                  >
+                    <FaReply /> Reply
+                  </button>
+                  <button
+                    className={styles.actionBtn}
+                    onClick={()=>onLike(msg.id)}
+                  >
+                    <FaHeart className={ msg.liked ? styles.liked : '' }/> {msg.likes}
+                  </button>
+                </>
+              )}
+              {canReport && (
+                <button
+                  className={styles.actionBtn}
+                  onClick={()=>setReporting(r=>!r)}
+                >
+                  <FaFlag /> Report
+                </button>
+              )}
             </div>
           )}
+          {reporting && reportTarget && (
+            <ReportForm
+              surface={isLive ? 'comments' : 'chat'}
+              target={reportTarget}
+              contentId={msg.id}
+              onClose={()=>setReporting(false)}
+            />
+          )}
         </div>
       </div>
 
@@ -831,6 +887,8 @@ function MessageItem({
                   thumb={thumb}
                   cardName={cardName}
                   userLoggedIn={userLoggedIn}
+                  currentUid={currentUid}
+                  room={room}
                   onReply={onReply}
                   onLike={onLike}
                 />
@@ -1,6 +1,6 @@
 'use client'
 
-import React, { useState, useEffect } from 'react'
+import React, { useState, useEffect, useCallback } from 'react'
 import { useParams, useRouter }      from 'next/navigation'
 import Link                          from 'next/link'
 import styles                        from './page.module.css'
@@ -8,27 +8,21 @@ import { getAuth, onAuthStateChanged, type User } from 'firebase/auth'
 import { doc, getDoc }               from 'firebase/firestore'
 import { db }                        from '@/lib/firebaseClient'
 import { FaSpinner } from 'react-icons/fa'
-
-interface Investment {
-  id: string
-  playerUUID: string
-  playerName: string
-  quantity: number
-  avgBuyPrice: number
-  userProjectedOvr: number
-  createdAt: string
-}
-
-interface Card {
-  id: string
-  name: string
-  ovr: number | string
-  market_price: number | string
-  predicted_rank: number | string
-  confidence_percentage: number | string
-  qs_pred: number | string
-  baked_img?: string
-}
+import type {
+  ClosedPosition,
+  Portfolio,
+  PortfolioHolding,
+  PortfolioTotals,
+  RealizedPeriod
+} from '@/lib/portfolio'
+import type { Transaction } from '@/lib/ledger'
+import type { ImportRow } from '@/lib/investmentImport'
+import {
+  validateInvestmentCreate,
+  validateInvestmentUpdate,
+  validateTransaction
+} from '@/lib/investmentValidation'
+import type { FieldErrors } from '@/lib/apiError'
 
 interface Suggestion {
   id: string
@@ -61,9 +55,11 @@ export default function InvestmentPage() {
   const [profile,     setProfile]     = useState<Profile|null>(null)
   const [publicFlag,  setPublicFlag]  = useState(false)
 
-  // investments & details
-  const [inv,         setInv]         = useState<Investment[]>([])
-  const [cardDetails, setCardDetails] = useState<Record<string,Card>>({})
+  // holdings valued on the server, plus portfolio totals
+  const [inv,         setInv]         = useState<PortfolioHolding[]>([])
+  const [totals,      setTotals]      = useState<PortfolioTotals|null>(null)
+  const [closed,      setClosed]      = useState<ClosedPosition[]>([])
+  const [realized,    setRealized]    = useState<RealizedPeriod[]>([])
 
   // loading state
   const [loading,     setLoading]     = useState(true)
@@ -75,36 +71,25 @@ export default function InvestmentPage() {
   const [qty,      setQty]      = useState('')
   const [avg,      setAvg]      = useState('')
   const [proj,     setProj]     = useState('')
+  const [formErrors, setFormErrors] = useState<FieldErrors>({})
 
   // — inline edit state —
   const [editingId,  setEditingId]  = useState<string|null>(null)
   const [deltaQty,   setDeltaQty]   = useState('0')
   const [unitPrice,  setUnitPrice]  = useState('')
   const [newOvr,     setNewOvr]     = useState('')
+  const [editErrors, setEditErrors] = useState<FieldErrors>({})
 
-  // Quick‐sell mapping
-  function qsValue(ovr: number): number {
-    if (ovr < 65) return 5
-    if (ovr < 75) return 25
-    if (ovr === 75) return 50
-    if (ovr === 76) return 75
-    if (ovr === 77) return 100
-    if (ovr === 78) return 125
-    if (ovr === 79) return 150
-    if (ovr === 80) return 400
-    if (ovr === 81) return 600
-    if (ovr === 82) return 900
-    if (ovr === 83) return 1200
-    if (ovr === 84) return 1500
-    if (ovr === 85) return 3000
-    if (ovr === 86) return 3750
-    if (ovr === 87) return 4500
-    if (ovr === 88) return 5500
-    if (ovr === 89) return 7000
-    if (ovr === 90) return 8000
-    if (ovr === 91) return 9000
-    return ovr >= 92 ? 10000 : 0
-  }
+  // — transaction ledger of one expanded row —
+  const [ledgerId,   setLedgerId]   = useState<string|null>(null)
+  const [ledger,     setLedger]     = useState<Transaction[]>([])
+
+  // — CSV import: the uploaded text, its matched preview and the cards picked for ambiguous rows —
+  const [importCsv,     setImportCsv]     = useState<string|null>(null)
+  const [importRows,    setImportRows]    = useState<ImportRow[]>([])
+  const [importChoices, setImportChoices] = useState<Record<string,string>>({})
+  const [importError,   setImportError]   = useState('')
+  const [importing,     setImporting]     = useState(false)
 
   // 1) Listen for auth + determine ownership
   useEffect(() => {
@@ -134,12 +119,25 @@ export default function InvestmentPage() {
       if (!isOwner && !pub) {
         setLoading(false)
       }
-
-
     })
-  }, [uid, router])
+  }, [uid, router, isOwner])
+
+  // 3) Fetch the valued portfolio (owner or public)
+  const loadPortfolio = useCallback(async () => {
+    const headers: Record<string,string> = {}
+    if (isOwner && currentUser) {
+      headers.Authorization = `Bearer ${await currentUser.getIdToken()}`
+    }
+    const res = await fetch(`/api/users/${uid}/portfolio`, { headers })
+    if (res.ok) {
+      const data = (await res.json()) as Portfolio
+      setInv(data.holdings)
+      setTotals(data.totals)
+      setClosed(data.closed)
+      setRealized(data.realized)
+    }
+  }, [isOwner, currentUser, uid])
 
-  // 3) Fetch investments (owner or public)
   useEffect(() => {
     if (profile === null) return
     // if this is someone else's private sheet, bail
@@ -147,43 +145,10 @@ export default function InvestmentPage() {
       setLoading(false)
       return
     }
-    async function loadInv() {
-      let res: Response
-      if (isOwner) {
-        const token = await currentUser!.getIdToken()
-        res = await fetch('/api/investments', {
-          headers: { Authorization: `Bearer ${token}` }
-        })
-      } else {
-        res = await fetch(`/api/users/${uid}/investments`)
-      }
-      if (res.ok) {
-        setInv(await res.json())
-      }
-      setLoading(false)
-    }
-    loadInv()
-  }, [profile, isOwner, publicFlag, currentUser, uid])
+    loadPortfolio().finally(() => setLoading(false))
+  }, [profile, isOwner, publicFlag, loadPortfolio])
 
-  // 4) Fetch card details for each investment
-  useEffect(() => {
-    if (inv.length === 0) return
-    const ids = Array.from(new Set(inv.map(i => i.playerUUID)))
-    Promise.all(
-      ids.map(async id => {
-        const res = await fetch(`/api/cards/${id}`)
-        if (!res.ok) return null
-        const data = (await res.json()) as Card
-        return [id, data] as [string,Card]
-      })
-    ).then(pairs => {
-      const m: Record<string,Card> = {}
-      pairs.forEach(p => p && (m[p[0]] = p[1]))
-      setCardDetails(m)
-    })
-  }, [inv])
-
-  // 5) Autocomplete for the “Add” form
+  // 4) Autocomplete for the “Add” form
   useEffect(() => {
     if (sel) {
       setMatches([])
@@ -202,11 +167,21 @@ export default function InvestmentPage() {
       })
   }, [q, sel])
 
-  const canAdd = Boolean(sel && +qty > 0 && !isNaN(+avg) && !isNaN(+proj))
+  // field checks run on submit so their messages can show under the inputs
+  const canAdd = Boolean(sel && qty && avg && proj)
 
   // — Add new investment —
   async function add() {
     if (!sel || !currentUser) return
+    const input = validateInvestmentCreate({
+      playerUUID:       sel.id,
+      playerName:       sel.name,
+      quantity:         +qty,
+      avgBuyPrice:      +avg,
+      userProjectedOvr: +proj
+    })
+    if (!input.ok) { setFormErrors(input.fields); return }
+
     const token = await currentUser.getIdToken()
     const res = await fetch('/api/investments', {
       method:'POST',
@@ -214,24 +189,16 @@ export default function InvestmentPage() {
         'Content-Type':'application/json',
         Authorization:`Bearer ${token}`
       },
-      body: JSON.stringify({
-        playerUUID:       sel.id,
-        playerName:       sel.name,
-        quantity:         +qty,
-        avgBuyPrice:      Math.round(+avg),
-        userProjectedOvr: +proj
-      })
+      body: JSON.stringify(input.value)
     })
     if (!res.ok) {
-      console.error('Add failed:', await res.json())
+      const body = await res.json().catch(() => ({}))
+      setFormErrors(body.fields ?? { form: body.error || 'Failed to add investment' })
       return
     }
     // refresh
-    const nxt = await fetch('/api/investments', {
-      headers:{ Authorization:`Bearer ${await currentUser.getIdToken()}` }
-    })
-    setInv(await nxt.json())
-    setQ(''); setSel(null); setQty(''); setAvg(''); setProj('')
+    await loadPortfolio()
+    setQ(''); setSel(null); setQty(''); setAvg(''); setProj(''); setFormErrors({})
   }
 
   // — Delete one —
@@ -242,55 +209,189 @@ export default function InvestmentPage() {
       method:'DELETE',
       headers:{ Authorization:`Bearer ${token}` }
     })
-    setInv(inv.filter(i=>i.id!==id))
     if (editingId === id) setEditingId(null)
+    await loadPortfolio()
   }
 
   // — Start inline edit —
-  function startEdit(i:Investment) {
+  function startEdit(i:PortfolioHolding) {
     setEditingId(i.id)
     setDeltaQty('0')
     setUnitPrice('')
     setNewOvr(String(i.userProjectedOvr))
+    setEditErrors({})
   }
 
-  // — Submit inline EDIT/PATCH —
-  async function submitEdit(i:Investment) {
+  // — Submit inline EDIT: Δ qty becomes a ledger buy/sell, the projection a PATCH —
+  async function submitEdit(i:PortfolioHolding) {
     if (!currentUser) return
     const dQ = parseInt(deltaQty)||0
     const uP = parseFloat(unitPrice)||0
     const oV = parseInt(newOvr)||i.userProjectedOvr
-    const newQty = i.quantity + dQ
-    let newAvg = i.avgBuyPrice
-    if (newQty < 0) { alert("Cannot remove more than you own"); return }
-    if (dQ > 0) {
-      newAvg = ((i.quantity*i.avgBuyPrice)+(dQ*uP)) / newQty
-    }
+    if (i.quantity + dQ < 0) { setEditErrors({ quantity: 'Cannot remove more than you own' }); return }
+
+    const tx = { type: dQ > 0 ? 'buy' : 'sell', quantity: Math.abs(dQ), price: uP }
+    const fields: FieldErrors = {}
+    const check  = validateTransaction(tx)
+    if (dQ !== 0 && !check.ok) Object.assign(fields, check.fields)
+    const update = validateInvestmentUpdate({ userProjectedOvr: oV })
+    if (!update.ok) Object.assign(fields, update.fields)
+    if (Object.keys(fields).length > 0) { setEditErrors(fields); return }
     const token = await currentUser.getIdToken()
-    const res = await fetch(`/api/investments/${i.id}`, {
-      method:'PATCH',
+
+    if (dQ !== 0) {
+      const res = await fetch(`/api/investments/${i.id}/transactions`, {
+        method:'POST',
+        headers:{
+          'Content-Type':'application/json',
+          Authorization:`Bearer ${token}`
+        },
+        body: JSON.stringify(tx)
+      })
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}))
+        setEditErrors(body.fields ?? { quantity: body.error || 'Failed to record transaction' })
+        return
+      }
+    }
+
+    if (oV !== i.userProjectedOvr) {
+      const res = await fetch(`/api/investments/${i.id}`, {
+        method:'PATCH',
+        headers:{
+          'Content-Type':'application/json',
+          Authorization:`Bearer ${token}`
+        },
+        body: JSON.stringify({ userProjectedOvr: oV })
+      })
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}))
+        setEditErrors(body.fields ?? { userProjectedOvr: body.error || 'Failed to update projection' })
+        return
+      }
+    }
+    // refresh
+    await loadPortfolio()
+    if (ledgerId === i.id) await loadLedger(i.id)
+    setEditingId(null)
+  }
+
+  // — Sell everything and move the row to Closed Positions —
+  async function closePos(i:PortfolioHolding) {
+    if (!currentUser) return
+    const input = window.prompt(
+      `Sale price per card for ${i.quantity} × ${i.card?.name || i.playerName} (before the 10% marketplace tax):`,
+      i.card ? String(i.card.market_price) : ''
+    )
+    if (input == null) return
+    const price = parseFloat(input)
+    if (isNaN(price) || price <= 0) { alert('Enter a valid price'); return }
+
+    const res = await fetch(`/api/investments/${i.id}/close`, {
+      method:'POST',
       headers:{
         'Content-Type':'application/json',
-        Authorization:`Bearer ${token}`
+        Authorization:`Bearer ${await currentUser.getIdToken()}`
       },
-      body: JSON.stringify({
-        quantity:         newQty,
-        avgBuyPrice:      Math.round(newAvg),
-        userProjectedOvr: oV
-      })
+      body: JSON.stringify({ price })
     })
     if (!res.ok) {
-      console.error("Update failed", await res.json())
+      alert((await res.json()).error || 'Failed to close position')
       return
     }
-    // refresh
-    const nxt = await fetch('/api/investments',{
+    if (ledgerId === i.id) setLedgerId(null)
+    await loadPortfolio()
+  }
+
+  // — Transaction ledger —
+  async function loadLedger(id: string) {
+    if (!currentUser) return
+    const res = await fetch(`/api/investments/${id}/transactions`, {
       headers:{ Authorization:`Bearer ${await currentUser.getIdToken()}` }
     })
-    setInv(await nxt.json())
-    setEditingId(null)
+    if (res.ok) setLedger((await res.json()).transactions)
+  }
+
+  function toggleLedger(id: string) {
+    if (ledgerId === id) { setLedgerId(null); return }
+    setLedgerId(id)
+    setLedger([])
+    loadLedger(id)
+  }
+
+  async function voidTx(investmentId: string, txId: string) {
+    if (!currentUser) return
+    if (!window.confirm('Void this transaction? It stays in the history but no longer counts.')) return
+    const res = await fetch(`/api/investments/${investmentId}/transactions/${txId}/void`, {
+      method:'POST',
+      headers:{ Authorization:`Bearer ${await currentUser.getIdToken()}` }
+    })
+    if (!res.ok) {
+      alert((await res.json()).error || 'Failed to void transaction')
+      return
+    }
+    await Promise.all([loadLedger(investmentId), loadPortfolio()])
+  }
+
+  // — CSV import: preview first, then write the ready rows —
+  async function postImport(csv: string, choices: Record<string,string>, commit: boolean) {
+    if (!currentUser) return
+    setImporting(true)
+    try {
+      const res = await fetch('/api/investments/import', {
+        method:'POST',
+        headers:{
+          'Content-Type':'application/json',
+          Authorization:`Bearer ${await currentUser.getIdToken()}`
+        },
+        body: JSON.stringify({ csv, choices, commit })
+      })
+      const body = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        setImportError(body.error || 'Import failed')
+        if (body.rows) setImportRows(body.rows)
+        return
+      }
+      setImportError('')
+      if (commit) {
+        cancelImport()
+        await loadPortfolio()
+      } else {
+        setImportRows(body.rows)
+      }
+    } finally {
+      setImporting(false)
+    }
+  }
+
+  async function pickImportFile(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+    const csv = await file.text()
+    setImportCsv(csv)
+    setImportChoices({})
+    setImportRows([])
+    await postImport(csv, {}, false)
+  }
+
+  function chooseImportCard(line: number, cardId: string) {
+    if (importCsv == null) return
+    const next: Record<string,string> = { ...importChoices, [line]: cardId }
+    if (!cardId) delete next[line]
+    setImportChoices(next)
+    postImport(importCsv, next, false)
   }
 
+  function cancelImport() {
+    setImportCsv(null)
+    setImportRows([])
+    setImportChoices({})
+    setImportError('')
+  }
+
+  const importReady = importRows.filter(r => r.status === 'ready').length
+
   if (loading) {
     return (
       <div className="spinner-container">
@@ -324,25 +425,20 @@ export default function InvestmentPage() {
     )
   }
 
-  // build portfolio summary
-  const summary = inv.reduce((a,i)=>{
-    const c = cardDetails[i.playerUUID]
-    if (!c) return a
-    const cost     = i.quantity * i.avgBuyPrice
-    const aiPrice  = Number(c.qs_pred)||0
-    const aiValue  = i.quantity * aiPrice
-    const aiProfit = aiValue - cost
-    const myQs     = qsValue(i.userProjectedOvr)
-    const myValue  = i.quantity * myQs
-    const myProfit = myValue - cost
-    return {
-      cost:    a.cost+cost,
-      aiValue: a.aiValue+aiValue,
-      aiProfit:a.aiProfit+aiProfit,
-      myValue: a.myValue+myValue,
-      myProfit:a.myProfit+myProfit
-    }
-  }, { cost:0, aiValue:0, aiProfit:0, myValue:0, myProfit:0 })
+  // portfolio summary, valued on the server
+  const summary = {
+    cost:         totals?.cost               ?? 0,
+    marketValue:  totals?.market_value       ?? 0,
+    marketProfit: totals?.unrealized_pl      ?? 0,
+    aiValue:      totals?.model_value        ?? 0,
+    aiProfit:     totals?.model_pl           ?? 0,
+    aiMarket:     totals?.model_market_pl    ?? 0,
+    myValue:      totals?.user_value         ?? 0,
+    myProfit:     totals?.user_pl            ?? 0,
+    myMarket:     totals?.user_market_pl     ?? 0,
+    realized:     totals?.realized_pl        ?? 0,
+    taxPaid:      totals?.tax_paid           ?? 0
+  }
 
   return (
     <main className={styles.investmentContainer}>
@@ -376,6 +472,18 @@ export default function InvestmentPage() {
         </div>
       </section>
 
+      {/* Portfolio / Watchlist tabs (the watchlist is private) */}
+      {isOwner && (
+        <nav className={styles.viewTabs}>
+          <Link href={`/investment/${uid}`} className={`${styles.viewTab} ${styles.activeTab}`}>
+            Portfolio
+          </Link>
+          <Link href={`/investment/${uid}/watchlist`} className={styles.viewTab}>
+            Watchlist
+          </Link>
+        </nav>
+      )}
+
       {/* Portfolio Summary */}
       <div className={styles.portfolioSummary}>
         <div className={styles.summaryCard}>
@@ -390,6 +498,25 @@ export default function InvestmentPage() {
           </div>
         </div>
         
+        <div className={`${styles.summaryCard} ${summary.marketProfit >= 0 ? styles.positiveCard : styles.negativeCard}`}>
+          <div className={styles.summaryIcon}>
+            {summary.marketProfit >= 0 ? (
+              <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor">
+                <path d="M7 14l5-5 5 5z" />
+              </svg>
+            ) : (
+              <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor">
+                <path d="M7 10l5 5 5-5z" />
+              </svg>
+            )}
+          </div>
+          <div className={styles.summaryDetails}>
+            <span className={styles.label}>Market Value</span>
+            <span className={styles.value}>${summary.marketValue.toLocaleString()}</span>
+            <span className={styles.label}>Unrealized P/L after 10% tax: ${summary.marketProfit.toLocaleString()}</span>
+          </div>
+        </div>
+
         <div className={styles.summaryCard}>
           <div className={styles.summaryIcon}>
             <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor">
@@ -415,8 +542,9 @@ export default function InvestmentPage() {
             )}
           </div>
           <div className={styles.summaryDetails}>
-            <span className={styles.label}>AI P/L</span>
+            <span className={styles.label}>AI P/L (quick sell)</span>
             <span className={styles.value}>${summary.aiProfit.toLocaleString()}</span>
+            <span className={styles.label}>Market exit after tax: ${summary.aiMarket.toLocaleString()}</span>
           </div>
         </div>
         
@@ -445,8 +573,22 @@ export default function InvestmentPage() {
             )}
           </div>
           <div className={styles.summaryDetails}>
-            <span className={styles.label}>Your P/L</span>
+            <span className={styles.label}>Your P/L (quick sell)</span>
             <span className={styles.value}>${summary.myProfit.toLocaleString()}</span>
+            <span className={styles.label}>Market exit after tax: ${summary.myMarket.toLocaleString()}</span>
+          </div>
+        </div>
+
+        <div className={`${styles.summaryCard} ${summary.realized >= 0 ? styles.positiveCard : styles.negativeCard}`}>
+          <div className={styles.summaryIcon}>
+            <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor">
+              <path d="M9 16.2L4.8 12l-1.4 1.4L9 19 21 7l-1.4-1.4L9 16.2z" />
+            </svg>
+          </div>
+          <div className={styles.summaryDetails}>
+            <span className={styles.label}>Realized P/L</span>
+            <span className={styles.value}>${summary.realized.toLocaleString()}</span>
+            <span className={styles.label}>Tax paid: ${summary.taxPaid.toLocaleString()}</span>
           </div>
         </div>
       </div>
@@ -486,6 +628,7 @@ export default function InvestmentPage() {
                     ))}
                   </div>
                 )}
+                {formErrors.playerUUID && <div className={styles.fieldError}>{formErrors.playerUUID}</div>}
               </div>
               
               <div className={styles.formGroup}>
@@ -495,6 +638,7 @@ export default function InvestmentPage() {
                   value={qty}
                   onChange={e => setQty(e.target.value)}
                 />
+                {formErrors.quantity && <div className={styles.fieldError}>{formErrors.quantity}</div>}
               </div>
               
               <div className={styles.formGroup}>
@@ -507,6 +651,7 @@ export default function InvestmentPage() {
                     onChange={e => setAvg(e.target.value)}
                   />
                 </div>
+                {formErrors.avgBuyPrice && <div className={styles.fieldError}>{formErrors.avgBuyPrice}</div>}
               </div>
               
               <div className={styles.formGroup}>
@@ -516,6 +661,7 @@ export default function InvestmentPage() {
                   value={proj}
                   onChange={e => setProj(e.target.value)}
                 />
+                {formErrors.userProjectedOvr && <div className={styles.fieldError}>{formErrors.userProjectedOvr}</div>}
               </div>
               
               <button
@@ -529,6 +675,83 @@ export default function InvestmentPage() {
                 Add Investment
               </button>
             </div>
+            {formErrors.form && <div className={styles.fieldError}>{formErrors.form}</div>}
+
+            <div className={styles.importControls}>
+              <label className={styles.importButton}>
+                Import CSV
+                <input type="file" accept=".csv,text/csv" onChange={pickImportFile} hidden />
+              </label>
+              <span className={styles.importHint}>
+                Columns: name, quantity, avg buy price, projected OVR
+              </span>
+              {importing && <span className={styles.importHint}>Matching…</span>}
+            </div>
+            {importError && <div className={styles.fieldError}>{importError}</div>}
+
+            {importRows.length > 0 && (
+              <div className={styles.importPreview}>
+                <table className={styles.ledgerTable}>
+                  <thead>
+                    <tr>
+                      <th>Line</th>
+                      <th>Name</th>
+                      <th>Card</th>
+                      <th>Qty</th>
+                      <th>Avg Price</th>
+                      <th>Proj OVR</th>
+                      <th>Status</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {importRows.map(r => (
+                      <tr key={r.line} className={r.status === 'ready' ? '' : styles.importFlagged}>
+                        <td>{r.line}</td>
+                        <td>{r.name || '–'}</td>
+                        <td>
+                          {r.candidates.length > 1 || (r.status === 'unmatched' && r.candidates.length > 0) ? (
+                            <select
+                              value={importChoices[r.line] ?? ''}
+                              onChange={e => chooseImportCard(r.line, e.target.value)}
+                            >
+                              <option value="">Pick a card…</option>
+                              {r.candidates.map(c => (
+                                <option key={c.id} value={c.id}>
+                                  {c.name}{c.ovr != null ? ` (${c.ovr}` : ''}{c.team ? `, ${c.team}` : ''}{c.ovr != null ? ')' : ''}
+                                </option>
+                              ))}
+                            </select>
+                          ) : (
+                            r.candidates[0]?.name ?? '–'
+                          )}
+                        </td>
+                        <td>{r.quantity ?? '–'}</td>
+                        <td>{r.avgBuyPrice != null ? `$${r.avgBuyPrice.toLocaleString()}` : '–'}</td>
+                        <td>{r.userProjectedOvr ?? '–'}</td>
+                        <td>
+                          {r.status === 'ready'     && <span className={styles.positiveText}>Ready</span>}
+                          {r.status === 'unmatched' && <span className={styles.negativeText}>No matching card</span>}
+                          {r.status === 'ambiguous' && <span className={styles.negativeText}>Several cards match</span>}
+                          {Object.entries(r.fields).map(([k, msg]) => (
+                            <div key={k} className={styles.fieldError}>{k}: {msg}</div>
+                          ))}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                <div className={styles.importActions}>
+                  <button
+                    className={`${styles.addBtn} ${importReady === 0 || importing ? styles.disabled : ''}`}
+                    disabled={importReady === 0 || importing}
+                    onClick={() => importCsv != null && postImport(importCsv, importChoices, true)}
+                  >
+                    Import {importReady} of {importRows.length} rows
+                  </button>
+                  <button className={styles.importCancel} onClick={cancelImport}>Cancel</button>
+                </div>
+              </div>
+            )}
           </div>
         )}
 
@@ -563,12 +786,12 @@ export default function InvestmentPage() {
                 </thead>
                 <tbody>
                   {inv.map(i => {
-                    const c = cardDetails[i.playerUUID]
+                    const c = i.card
                     const ovr = Number(c?.ovr) || 0
                     const pred = Number(c?.predicted_rank) || 0
                     const delta = +(pred - ovr).toFixed(1)
-                    const aiQs = Number(c?.qs_pred) || 0
-                    const myQs = qsValue(i.userProjectedOvr)
+                    const aiQs = i.model_qs
+                    const myQs = i.user_qs
 
                     return (
                       <React.Fragment key={i.id}>
@@ -617,8 +840,12 @@ export default function InvestmentPage() {
                                   onChange={e => setDeltaQty(e.target.value)}
                                   className={styles.quantityInput}
                                   placeholder="Δ Qty"
+                                  title="Positive to record a buy, negative to record a sell"
                                 />
                               )}
+                              {editingId === i.id && editErrors.quantity && (
+                                <div className={styles.fieldError}>{editErrors.quantity}</div>
+                              )}
                             </div>
                           </td>
                           
@@ -638,9 +865,10 @@ export default function InvestmentPage() {
                                       type="number"
                                       value={unitPrice}
                                       onChange={e => setUnitPrice(e.target.value)}
-                                      placeholder="Unit price"
+                                      placeholder="Buy/sell price"
                                     />
                                   </div>
+                                  {editErrors.price && <div className={styles.fieldError}>{editErrors.price}</div>}
                                 </div>
                               )}
                             </div>
@@ -666,6 +894,9 @@ export default function InvestmentPage() {
                                   <span className={styles.projectedOvr}>{i.userProjectedOvr}</span>
                                 )}
                               </div>
+                              {editingId === i.id && editErrors.userProjectedOvr && (
+                                <div className={styles.fieldError}>{editErrors.userProjectedOvr}</div>
+                              )}
                               <div className={`${styles.delta} ${delta >= 0 ? styles.positive : styles.negative}`}>
                                 {delta >= 0 ? '+' : ''}{delta} Δ
                               </div>
@@ -693,6 +924,26 @@ export default function InvestmentPage() {
                           <td>
                             {isOwner && editingId !== i.id && (
                               <div className={styles.actionCell}>
+                                <button
+                                  className={`${styles.iconButton} ${ledgerId === i.id ? styles.activeButton : ''}`}
+                                  onClick={() => toggleLedger(i.id)}
+                                  title="Transactions"
+                                >
+                                  <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor">
+                                    <path d="M13 3a9 9 0 0 0-9 9H1l3.89 3.89.07.14L9 12H6c0-3.87 3.13-7 7-7s7 3.13 7 7-3.13 7-7 7c-1.93 0-3.68-.79-4.94-2.06l-1.42 1.42A8.954 8.954 0 0 0 13 21a9 9 0 0 0 0-18zm-1 5v5l4.28 2.54.72-1.21-3.5-2.08V8H12z" />
+                                  </svg>
+                                </button>
+                                {i.quantity > 0 && (
+                                  <button
+                                    className={`${styles.iconButton} ${styles.closeButton}`}
+                                    onClick={() => closePos(i)}
+                                    title="Sell / close position"
+                                  >
+                                    <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor">
+                                      <path d="M11.8 10.9c-2.27-.59-3-1.2-3-2.15 0-1.09 1.01-1.85 2.7-1.85 1.78 0 2.44.85 2.5 2.1h2.21c-.07-1.72-1.12-3.3-3.21-3.81V3h-3v2.16c-1.94.42-3.5 1.68-3.5 3.61 0 2.31 1.91 3.46 4.7 4.13 2.5.6 3 1.48 3 2.41 0 .69-.49 1.79-2.7 1.79-2.06 0-2.87-.92-2.98-2.1h-2.2c.12 2.19 1.76 3.42 3.68 3.83V21h3v-2.15c1.95-.37 3.5-1.5 3.5-3.55 0-2.84-2.43-3.81-4.7-4.4z" />
+                                    </svg>
+                                  </button>
+                                )}
                                 <button
                                   className={styles.iconButton}
                                   onClick={() => startEdit(i)}
@@ -737,6 +988,49 @@ export default function InvestmentPage() {
                             )}
                           </td>
                         </tr>
+                        {isOwner && ledgerId === i.id && (
+                          <tr className={styles.ledgerRow}>
+                            <td colSpan={7}>
+                              {ledger.length === 0 ? (
+                                <div className={styles.ledgerEmpty}>No transactions recorded</div>
+                              ) : (
+                                <table className={styles.ledgerTable}>
+                                  <thead>
+                                    <tr>
+                                      <th>Date</th>
+                                      <th>Type</th>
+                                      <th>Qty</th>
+                                      <th>Price</th>
+                                      <th>Total</th>
+                                      <th></th>
+                                    </tr>
+                                  </thead>
+                                  <tbody>
+                                    {ledger.map(t => (
+                                      <tr key={t.id} className={t.voided ? styles.voided : ''}>
+                                        <td>{new Date(t.date).toLocaleDateString()}</td>
+                                        <td className={t.type === 'buy' ? styles.positive : styles.negative}>
+                                          {t.type === 'buy' ? 'Buy' : 'Sell'}{t.opening ? ' (opening)' : ''}
+                                        </td>
+                                        <td>{t.quantity}</td>
+                                        <td>${t.price.toLocaleString()}</td>
+                                        <td>${(t.quantity * t.price).toLocaleString()}</td>
+                                        <td>
+                                          {t.voided ? 'Voided' : (
+                                            <button
+                                              className={styles.voidButton}
+                                              onClick={() => voidTx(i.id, t.id)}
+                                            >Void</button>
+                                          )}
+                                        </td>
+                                      </tr>
+                                    ))}
+                                  </tbody>
+                                </table>
+                              )}
+                            </td>
+                          </tr>
+                        )}
                       </React.Fragment>
                     )
                   })}
@@ -745,6 +1039,96 @@ export default function InvestmentPage() {
             </div>
           )}
         </div>
+
+        {/* Closed Positions */}
+        {closed.length > 0 && (
+          <div className={styles.tableContainer}>
+            <div className={styles.tableHeader}>
+              <h3>Closed Positions</h3>
+              <span className={styles.countBadge}>{closed.length}</span>
+            </div>
+            <div className={styles.tableWrapper}>
+              <table className={styles.investmentTable}>
+                <thead>
+                  <tr>
+                    <th>Player</th>
+                    <th>Quantity</th>
+                    <th>Cost</th>
+                    <th>Proceeds</th>
+                    <th>Tax</th>
+                    <th>Realized P/L</th>
+                    <th>Closed</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {closed.map(p => (
+                    <tr key={p.id}>
+                      <td>
+                        <div
+                          className={styles.playerCell}
+                          onClick={() => router.push(`/player/${p.playerUUID}`)}
+                          style={{ cursor: 'pointer' }}
+                        >
+                          {p.baked_img ? (
+                            <img src={p.baked_img} alt={p.name} className={styles.cardIcon} />
+                          ) : (
+                            <div className={styles.cardPlaceholder}></div>
+                          )}
+                          <div className={styles.playerName}>{p.name}</div>
+                        </div>
+                      </td>
+                      <td>{p.sold}</td>
+                      <td>${p.cost.toLocaleString()}</td>
+                      <td>${p.proceeds.toLocaleString()}</td>
+                      <td>${p.tax.toLocaleString()}</td>
+                      <td>
+                        <span className={`${styles.delta} ${p.realized_pl >= 0 ? styles.positive : styles.negative}`}>
+                          {p.realized_pl >= 0 ? '+' : ''}${p.realized_pl.toLocaleString()} ({p.realized_pl_pct.toFixed(1)}%)
+                        </span>
+                      </td>
+                      <td>{p.closedAt ? new Date(p.closedAt).toLocaleDateString() : '–'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        {/* Realized P/L by roster update */}
+        {realized.length > 0 && (
+          <div className={styles.tableContainer}>
+            <div className={styles.tableHeader}>
+              <h3>Realized by Roster Update</h3>
+            </div>
+            <div className={styles.tableWrapper}>
+              <table className={styles.investmentTable}>
+                <thead>
+                  <tr>
+                    <th>Roster Update</th>
+                    <th>Sales</th>
+                    <th>Proceeds</th>
+                    <th>Tax</th>
+                    <th>Realized P/L</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {realized.map(r => (
+                    <tr key={r.update ?? 'earlier'}>
+                      <td>{r.update ?? 'Before first tracked update'}</td>
+                      <td>{r.sales}</td>
+                      <td>${r.proceeds.toLocaleString()}</td>
+                      <td>${r.tax.toLocaleString()}</td>
+                      <td className={r.realized_pl >= 0 ? styles.positiveText : styles.negativeText}>
+                        {r.realized_pl >= 0 ? '+' : ''}${r.realized_pl.toLocaleString()}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
       </section>
     </main>
   )
@@ -0,0 +1,190 @@
+'use client'
+
+import React, { useState, useEffect, useCallback } from 'react'
+import { useParams, useRouter }      from 'next/navigation'
+import Link                          from 'next/link'
+import styles                        from '../page.module.css'
+import { getAuth, onAuthStateChanged, type User } from 'firebase/auth'
+import { FaSpinner } from 'react-icons/fa'
+import type { WatchlistItem } from '@/lib/watchlist'
+
+// signed change with its colour class, e.g. "+120" in green
+function Change({ value, suffix = '' }: { value: number | null; suffix?: string }) {
+  if (value == null) return <span>–</span>
+  return (
+    <span className={value >= 0 ? styles.positiveText : styles.negativeText}>
+      {value >= 0 ? '+' : ''}{value.toLocaleString()}{suffix}
+    </span>
+  )
+}
+
+export default function WatchlistPage() {
+  const { uid }    = useParams() as { uid?: string }
+  const router     = useRouter()
+  const authClient = getAuth()
+
+  const [currentUser, setCurrentUser] = useState<User|null>(null)
+  const [items,       setItems]       = useState<WatchlistItem[]>([])
+  const [loading,     setLoading]     = useState(true)
+
+  // 1) Only the owner can see their watchlist; everyone else goes to the portfolio
+  useEffect(() => {
+    const unsub = onAuthStateChanged(authClient, u => {
+      if (u?.uid !== uid) {
+        router.replace(`/investment/${uid}`)
+        return
+      }
+      setCurrentUser(u)
+    })
+    return () => unsub()
+  }, [authClient, uid, router])
+
+  // 2) Watched cards with live price and predicted delta
+  const loadWatchlist = useCallback(async () => {
+    if (!currentUser) return
+    const res = await fetch('/api/watchlist', {
+      headers:{ Authorization:`Bearer ${await currentUser.getIdToken()}` }
+    })
+    if (res.ok) setItems(await res.json())
+  }, [currentUser])
+
+  useEffect(() => {
+    if (!currentUser) return
+    loadWatchlist().finally(() => setLoading(false))
+  }, [currentUser, loadWatchlist])
+
+  async function unwatch(cardId: string) {
+    if (!currentUser) return
+    const res = await fetch(`/api/watchlist/${cardId}`, {
+      method:'DELETE',
+      headers:{ Authorization:`Bearer ${await currentUser.getIdToken()}` }
+    })
+    if (!res.ok) {
+      alert((await res.json()).error || 'Failed to remove card')
+      return
+    }
+    setItems(prev => prev.filter(i => i.cardId !== cardId))
+  }
+
+  if (loading) {
+    return (
+      <div className="spinner-container">
+        <FaSpinner className="spinner" />
+      </div>
+    )
+  }
+
+  return (
+    <main className={styles.investmentContainer}>
+      {/* Portfolio / Watchlist tabs */}
+      <nav className={styles.viewTabs}>
+        <Link href={`/investment/${uid}`} className={styles.viewTab}>
+          Portfolio
+        </Link>
+        <Link href={`/investment/${uid}/watchlist`} className={`${styles.viewTab} ${styles.activeTab}`}>
+          Watchlist
+        </Link>
+      </nav>
+
+      <section className={styles.investmentContent}>
+        <div className={styles.tableContainer}>
+          <div className={styles.tableHeader}>
+            <h3>Watchlist</h3>
+            <span className={styles.countBadge}>{items.length}</span>
+          </div>
+
+          {items.length === 0 ? (
+            <div className={styles.emptyState}>
+              <p>No watched cards yet</p>
+              <p>Use the Watch button on a player page to track a card without buying it</p>
+            </div>
+          ) : (
+            <div className={styles.tableWrapper}>
+              <table className={styles.investmentTable}>
+                <thead>
+                  <tr>
+                    <th>Player</th>
+                    <th>Watching Since</th>
+                    <th>Price</th>
+                    <th>Price Change</th>
+                    <th>Predicted Δ</th>
+                    <th>Δ Change</th>
+                    <th>Pred. Profit</th>
+                    <th></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {items.map(i => {
+                    const c = i.card
+                    return (
+                      <tr key={i.cardId}>
+                        <td>
+                          <div
+                            className={styles.playerCell}
+                            onClick={() => router.push(`/player/${i.cardId}`)}
+                            style={{ cursor: 'pointer' }}
+                          >
+                            {c?.baked_img ? (
+                              <img src={c.baked_img} alt={c.name} className={styles.cardIcon} />
+                            ) : (
+                              <div className={styles.cardPlaceholder}></div>
+                            )}
+                            <div>
+                              <div className={styles.playerName}>{c?.name || i.playerName}</div>
+                              <div className={styles.playerMeta}>
+                                {c ? (
+                                  <>
+                                    <span>OVR: {c.ovr}</span>
+                                    <span>{c.team_short_name} · {c.display_position}</span>
+                                  </>
+                                ) : (
+                                  <span>No live prediction</span>
+                                )}
+                              </div>
+                            </div>
+                          </div>
+                        </td>
+                        <td>{new Date(i.addedAt).toLocaleDateString()}</td>
+                        <td>
+                          <div>${c ? c.market_price.toLocaleString() : '–'}</div>
+                          <div className={styles.valueLabel}>was ${i.priceAtAdd.toLocaleString()}</div>
+                        </td>
+                        <td>
+                          <Change value={i.price_change} />
+                          {i.price_change_pct != null && (
+                            <div className={styles.valueLabel}>
+                              <Change value={i.price_change_pct} suffix="%" />
+                            </div>
+                          )}
+                        </td>
+                        <td>
+                          <div>{c ? `${c.delta_rank_pred >= 0 ? '+' : ''}${c.delta_rank_pred}` : '–'}</div>
+                          <div className={styles.valueLabel}>
+                            was {i.deltaAtAdd >= 0 ? '+' : ''}{i.deltaAtAdd}
+                          </div>
+                        </td>
+                        <td><Change value={i.delta_change} /></td>
+                        <td>{c ? <Change value={c.predicted_profit} /> : '–'}</td>
+                        <td>
+                          <button
+                            className={`${styles.iconButton} ${styles.deleteButton}`}
+                            onClick={() => unwatch(i.cardId)}
+                            title="Stop watching"
+                          >
+                            <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor">
+                              <path d="M19 6.41L17.59 5 12 10.59 6.41 5 5 6.41 10.59 12 5 17.59 6.41 19 12 13.41 17.59 19 19 17.59 13.41 12z" />
+                            </svg>
+                          </button>
+                        </td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </section>
+    </main>
+  )
+}
@@ -4,6 +4,7 @@ import Head from 'next/head'
 import { useState, useEffect } from 'react'
 import styles from './page.module.css'
 import { FaSpinner } from 'react-icons/fa'
+import UpdateCountdown from '@/components/UpdateCountdown'
 
 // FA5 icons
 import {
@@ -103,6 +104,9 @@ export default function LandingPage() {
             <p className={styles.heroSubtitle}>
               Get ahead of roster updates with machine learning-powered predictions
             </p>
+            <div className={styles.heroUpdate}>
+              <UpdateCountdown variant="banner" />
+            </div>
             <div className={styles.heroCta}>
               <a href="/signup" className="btn btn-primary">
                 <FaRocket /> Get Started Free
@@ -8,6 +8,11 @@ import { auth } from '@/lib/firebaseClient'                           // ← imp
 import { onAuthStateChanged, type User } from 'firebase/auth'
 import { FaArrowLeft } from 'react-icons/fa'
 import { FaSpinner } from 'react-icons/fa'
+import TimeSeriesChart from '@/components/TimeSeriesChart'
+import UpdateCountdown from '@/components/UpdateCountdown'
+import ReportForm from '@/components/ReportForm'
+import { ALERT_KINDS, validateAlert, type Alert, type AlertKind } from '@/lib/alertRules'
+import type { ModerationReason } from '@/lib/moderation'
 
 type SortBy = 'recent'|'liked'|'replies'
 
@@ -20,6 +25,7 @@ interface Comment {
   text:          string
   timestamp:     number | null
   likes:         string[]
+  hidden?:       boolean   // removed by a moderator; the text is blank
 }
 
 interface Card {
@@ -56,6 +62,14 @@ interface Card {
   predicted_profit_pct_low?: number
   predicted_profit_pct_high?: number
 
+  market_exit_price?: number
+  predicted_profit_market?: number
+  predicted_profit_market_pct?: number
+
+  predicted_ev_profit?: number
+  prob_profit?: number
+  prob_next_qs_step?: number
+
   bat_hand: string
   throw_hand: string
   height: string
@@ -67,6 +81,53 @@ interface Card {
   [key: string]: string | number | boolean | null | undefined
 }
 
+interface MarketPoint {
+  t:         number
+  buy:       number | null
+  sell:      number | null
+  sell_low:  number | null
+  sell_high: number | null
+  samples:   number
+}
+
+type MarketInterval = 'daily'|'hourly'
+
+interface PredictionSnapshot {
+  date:                string
+  ovr:                 number
+  predicted_rank:      number
+  predicted_rank_low:  number
+  predicted_rank_high: number
+}
+
+interface PredictionOutcome {
+  update_date:     string
+  prediction_date: string
+  ovr_before:      number
+  ovr_after:       number
+  predicted_rank:  number
+  error:           number
+  within_interval: boolean
+  direction_hit:   boolean
+}
+
+interface PredictionHistory {
+  snapshots: PredictionSnapshot[]
+  outcomes:  PredictionOutcome[]
+  accuracy: {
+    updates:            number
+    mae:                number | null
+    interval_coverage:  number | null
+    direction_hit_rate: number | null
+  }
+}
+
+// how far back each chart interval looks
+const MARKET_RANGE_MS: Record<MarketInterval, number> = {
+  daily:  30 * 24 * 60 * 60 * 1000,
+  hourly: 7  * 24 * 60 * 60 * 1000,
+}
+
 const fmt2 = (n: number) => n.toFixed(2)
 
 export default function CardPage() {
@@ -78,6 +139,8 @@ export default function CardPage() {
   const [comments, setComments]             = useState<Comment[]>([])
   const [newComment, setNewComment]         = useState('')
   const [replyTo, setReplyTo]               = useState<string | null>(null)
+  const [commentNotice, setCommentNotice]   = useState<{ error: boolean; messages: string[] } | null>(null)
+  const [reportingId, setReportingId]       = useState<string | null>(null)
   const [user, setUser]         = useState<User|null>(auth.currentUser)
   const [sortBy, setSortBy]     = useState<SortBy>('recent')
   const [openReplies, setOpenReplies] = useState<Record<string,boolean>>({})
@@ -87,6 +150,16 @@ export default function CardPage() {
     userVote: null
   })
   const [votesLoading, setVotesLoading] = useState(true)
+  const [watching, setWatching] = useState(false)
+  const [watchLoading, setWatchLoading] = useState(false)
+  const [alerts, setAlerts] = useState<Alert[]>([])
+  const [alertsOpen, setAlertsOpen] = useState(false)
+  const [alertKind, setAlertKind] = useState<AlertKind>('price_below')
+  const [alertThreshold, setAlertThreshold] = useState('')
+  const [alertError, setAlertError] = useState('')
+  const [marketInterval, setMarketInterval] = useState<MarketInterval>('daily')
+  const [marketHistory, setMarketHistory]   = useState<MarketPoint[]>([])
+  const [predHistory, setPredHistory]       = useState<PredictionHistory|null>(null)
   useEffect(() => onAuthStateChanged(auth, u => setUser(u)), [])
 
   // fixed destructuring
@@ -170,6 +243,55 @@ export default function CardPage() {
     fetchVotes()
   }, [card, user])
 
+  // Whether the signed-in user already watches this card
+  useEffect(() => {
+    if (!card || !user) {
+      setWatching(false)
+      return
+    }
+    user.getIdToken()
+      .then(token => fetch(`/api/watchlist/${card.id}`, {
+        headers: { 'Authorization': `Bearer ${token}` }
+      }))
+      .then(r => r.ok ? r.json() : { watching: false })
+      .then(data => setWatching(Boolean(data.watching)))
+      .catch(err => console.error('Failed to fetch watch status:', err))
+  }, [card, user])
+
+  // This user's alert rules on the card, loaded when the panel opens
+  useEffect(() => {
+    if (!card || !user || !alertsOpen) return
+    user.getIdToken()
+      .then(token => fetch(`/api/alerts?cardId=${card.id}`, {
+        headers: { 'Authorization': `Bearer ${token}` }
+      }))
+      .then(r => r.ok ? r.json() : [])
+      .then(setAlerts)
+      .catch(err => console.error('Failed to fetch alerts:', err))
+  }, [card, user, alertsOpen])
+
+  // Fetch market price history for the chart
+  useEffect(() => {
+    if (!card) return
+    const from = Date.now() - MARKET_RANGE_MS[marketInterval]
+    fetch(`/api/cards/${card.id}/market/history?interval=${marketInterval}&from=${from}`)
+      .then(r => r.ok ? r.json() : { points: [] })
+      .then((data: { points: MarketPoint[] }) => setMarketHistory(data.points || []))
+      .catch(err => {
+        console.error('Failed to fetch market history:', err)
+        setMarketHistory([])
+      })
+  }, [card, marketInterval])
+
+  // Fetch dated prediction snapshots and realized outcomes
+  useEffect(() => {
+    if (!card) return
+    fetch(`/api/cards/${card.id}/predictions/history`)
+      .then(r => r.ok ? r.json() : null)
+      .then((data: PredictionHistory | null) => setPredHistory(data))
+      .catch(err => console.error('Failed to fetch prediction history:', err))
+  }, [card])
+
   if (loading) {
     return (
       <div className="spinner-container">
@@ -201,7 +323,7 @@ export default function CardPage() {
     }
     
     const token = await user.getIdToken()
-    await fetch(`/api/cards/${card!.id}/comments`, {
+    const post = await fetch(`/api/cards/${card!.id}/comments`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -212,6 +334,19 @@ export default function CardPage() {
         parentId: finalParentId
       })
     })
+    const data = await post.json().catch(() => ({}))
+    const reasons: ModerationReason[] = data.reasons ?? []
+    if (!post.ok) {
+      const blocked = reasons.filter(r => r.action === 'block').map(r => r.message)
+      setCommentNotice({ error: true, messages: blocked.length ? [...new Set(blocked)] : [data.error || 'Failed to post comment'] })
+      return
+    }
+    // accepted, but say so when words were masked or the comment waits for review
+    setCommentNotice(
+      data.held         ? { error: false, messages: ['Your comment is waiting for a moderator to review it.'] }
+      : reasons.length  ? { error: false, messages: [...new Set(reasons.map(r => r.message))] }
+      : null
+    )
     setNewComment('')
     setReplyTo(null)
     // re-fetch
@@ -236,11 +371,14 @@ export default function CardPage() {
 
   const toggleLike = async (cid: string) => {
     if (!user) return router.push('/login')
-    await fetch(`/api/cards/${card!.id}/comments/${cid}/likes`, {
+    const res = await fetch(`/api/cards/${card!.id}/comments/${cid}/likes`, {
       method:'POST',
-      headers:{ 'Content-Type':'application/json' },
-      body: JSON.stringify({ userId: user.uid })
+      headers:{ Authorization:`Bearer ${await user.getIdToken()}` }
     })
+    if (!res.ok) {
+      const data = await res.json().catch(() => ({}))
+      return alert(data.error || 'Failed to update like')
+    }
     // optimistic update
     setComments(cs => cs.map(c =>
       c.id === cid
@@ -327,6 +465,87 @@ export default function CardPage() {
     }
   }
 
+  const handleWatch = async () => {
+    if (!user) return router.push('/login')
+    if (!card) return
+
+    setWatchLoading(true)
+    try {
+      const token = await user.getIdToken()
+      const response = watching
+        ? await fetch(`/api/watchlist/${card.id}`, {
+            method: 'DELETE',
+            headers: { 'Authorization': `Bearer ${token}` }
+          })
+        : await fetch('/api/watchlist', {
+            method: 'POST',
+            headers: {
+              'Authorization': `Bearer ${token}`,
+              'Content-Type': 'application/json'
+            },
+            body: JSON.stringify({ cardId: card.id })
+          })
+
+      if (!response.ok) {
+        const error = await response.json()
+        alert(error.error || 'Failed to update watchlist')
+        return
+      }
+      setWatching(!watching)
+    } catch (error) {
+      console.error('Watchlist error:', error)
+      alert('Failed to update watchlist. Please try again.')
+    } finally {
+      setWatchLoading(false)
+    }
+  }
+
+  const addAlert = async () => {
+    if (!user) return router.push('/login')
+    if (!card) return
+
+    const input = validateAlert({
+      cardId:    card.id,
+      kind:      alertKind,
+      threshold: alertThreshold === '' ? null : Number(alertThreshold)
+    })
+    if (!input.ok) {
+      setAlertError(Object.values(input.fields)[0])
+      return
+    }
+
+    try {
+      const response = await fetch('/api/alerts', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${await user.getIdToken()}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(input.value)
+      })
+      const result = await response.json()
+      if (!response.ok) {
+        setAlertError(result.fields ? Object.values(result.fields)[0] as string : result.error || 'Failed to create alert')
+        return
+      }
+      setAlerts(prev => [result, ...prev])
+      setAlertThreshold('')
+      setAlertError('')
+    } catch (error) {
+      console.error('Alert error:', error)
+      setAlertError('Failed to create alert. Please try again.')
+    }
+  }
+
+  const removeAlert = async (alertId: string) => {
+    if (!user) return
+    const response = await fetch(`/api/alerts/${alertId}`, {
+      method: 'DELETE',
+      headers: { 'Authorization': `Bearer ${await user.getIdToken()}` }
+    })
+    if (response.ok) setAlerts(prev => prev.filter(a => a.id !== alertId))
+  }
+
   const hitterGroups: [string, [string, string][]][] = [
     [
       'Hitting',
@@ -424,7 +643,54 @@ export default function CardPage() {
               >
                 {votesLoading ? '...' : `↓ ${votes.downvotes}`}
               </button>
+              <button
+                className={`${styles.voteBtn} ${styles.watchBtn} ${watching ? styles.active : ''}`}
+                onClick={handleWatch}
+                disabled={!user || watchLoading}
+                title={user ? (watching ? 'Remove from your watchlist' : 'Track this card without owning it') : 'Login to watch'}
+              >
+                {watching ? '★ Watching' : '☆ Watch'}
+              </button>
+              <button
+                className={`${styles.voteBtn} ${styles.watchBtn} ${alertsOpen ? styles.active : ''}`}
+                onClick={() => user ? setAlertsOpen(!alertsOpen) : router.push('/login')}
+                disabled={!user}
+                title={user ? 'Get notified when the price or prediction moves' : 'Login to set alerts'}
+              >
+                🔔 Alerts
+              </button>
             </div>
+            {alertsOpen && (
+              <div className={styles.alertPanel}>
+                {alerts.map(a => (
+                  <div key={a.id} className={styles.alertRule}>
+                    <span>
+                      {ALERT_KINDS[a.kind].label}
+                      {a.threshold != null ? ` ${a.threshold.toLocaleString()}` : ''}
+                    </span>
+                    <button className={styles.alertRemove} onClick={() => removeAlert(a.id)}>✕</button>
+                  </div>
+                ))}
+                <div className={styles.alertForm}>
+                  <select value={alertKind} onChange={e => setAlertKind(e.target.value as AlertKind)}>
+                    {(Object.keys(ALERT_KINDS) as AlertKind[]).map(k => (
+                      <option key={k} value={k}>{ALERT_KINDS[k].label}</option>
+                    ))}
+                  </select>
+                  {ALERT_KINDS[alertKind].threshold && (
+                    <input
+                      type="number"
+                      min={0}
+                      value={alertThreshold}
+                      onChange={e => setAlertThreshold(e.target.value)}
+                      placeholder={alertKind === 'profit_pct_above' ? '%' : 'Stubs'}
+                    />
+                  )}
+                  <button onClick={addAlert}>Add</button>
+                </div>
+                {alertError && <div className={styles.alertError}>{alertError}</div>}
+              </div>
+            )}
             <div className={styles.playerMeta}>
               <span>{card.team_short_name}</span>
               <span>{card.display_position}</span>
@@ -490,7 +756,7 @@ export default function CardPage() {
               to <strong>{card.predicted_rank}</strong> overall.
               {card.market_price && (
                 <>
-                  {' '}Buying at <strong>{card.market_price}</strong> you
+                  {' '}Buying at <strong>{card.market_price}</strong> and quick-selling after the update you
                   can expect a profit of{' '}
                   <strong className={card.predicted_profit >= 0 ? styles.positive : styles.negative}>
                     {card.predicted_profit.toFixed(0)}
@@ -553,7 +819,7 @@ export default function CardPage() {
                   <textarea
                     placeholder="Add a comment…"
                     value={replyTo ? '' : newComment}
-                    onChange={e => !replyTo && setNewComment(e.target.value)}
+                    onChange={e => { if (!replyTo) { setNewComment(e.target.value); setCommentNotice(null) } }}
                     disabled={!!replyTo}
                   />
                   <button onClick={postComment} disabled={!!replyTo}>
@@ -563,6 +829,11 @@ export default function CardPage() {
               ) : (
                 <p><Link href="/login">Log in</Link> to leave a comment.</p>
               )}
+              {commentNotice && (
+                <div className={`${styles.commentNotice} ${commentNotice.error ? styles.commentError : ''}`}>
+                  {commentNotice.messages.map(m => <div key={m}>{m}</div>)}
+                </div>
+              )}
 
               {/* ─── Comment Threads ──────────────────────────────────────── */}
               <ul className={styles.commentList}>
@@ -586,7 +857,9 @@ export default function CardPage() {
                       </span>
                     </div>
 
-                    <p className={styles.commentText}>{renderCommentText(c.text)}</p>
+                    <p className={`${styles.commentText} ${c.hidden ? styles.hiddenComment : ''}`}>
+                      {c.hidden ? 'Removed by a moderator' : renderCommentText(c.text)}
+                    </p>
 
                     <div className={styles.commentActions}>
                       <button
@@ -611,7 +884,23 @@ export default function CardPage() {
                           Delete
                         </button>
                       )}
+                      {user && c.userId !== user.uid && !c.hidden && (
+                        <button
+                          className={styles.replyButton}
+                          onClick={() => setReportingId(reportingId === c.id ? null : c.id)}
+                        >
+                          Report
+                        </button>
+                      )}
                     </div>
+                    {reportingId === c.id && (
+                      <ReportForm
+                        surface="comments"
+                        target={card.id}
+                        contentId={c.id}
+                        onClose={() => setReportingId(null)}
+                      />
+                    )}
 
                     {/* Inline Reply Form */}
                     {replyTo === c.id && user && (
@@ -619,7 +908,7 @@ export default function CardPage() {
                         <textarea
                           placeholder={`Reply to @${c.username}…`}
                           value={newComment}
-                          onChange={e => setNewComment(e.target.value)}
+                          onChange={e => { setNewComment(e.target.value); setCommentNotice(null) }}
                           autoFocus
                         />
                         <div className={styles.replyActions}>
@@ -674,7 +963,9 @@ export default function CardPage() {
                                   </span>
                                 </div>
 
-                                <p className={styles.commentText}>{renderCommentText(r.text)}</p>
+                                <p className={`${styles.commentText} ${r.hidden ? styles.hiddenComment : ''}`}>
+                                  {r.hidden ? 'Removed by a moderator' : renderCommentText(r.text)}
+                                </p>
 
                                 <div className={styles.commentActions}>
                                   <button
@@ -701,7 +992,23 @@ export default function CardPage() {
                                       Delete
                                     </button>
                                   )}
+                                  {user && r.userId !== user.uid && !r.hidden && (
+                                    <button
+                                      className={styles.replyButton}
+                                      onClick={() => setReportingId(reportingId === r.id ? null : r.id)}
+                                    >
+                                      Report
+                                    </button>
+                                  )}
                                 </div>
+                                {reportingId === r.id && (
+                                  <ReportForm
+                                    surface="comments"
+                                    target={card.id}
+                                    contentId={r.id}
+                                    onClose={() => setReportingId(null)}
+                                  />
+                                )}
 
                                 {/* Inline Reply Form for nested replies */}
                                 {replyTo === r.id && user && (
@@ -709,7 +1016,7 @@ export default function CardPage() {
                                     <textarea
                                       placeholder={`Reply to @${r.username}…`}
                                       value={newComment}
-                                      onChange={e => setNewComment(e.target.value)}
+                                      onChange={e => { setNewComment(e.target.value); setCommentNotice(null) }}
                                       autoFocus
                                     />
                                     <div className={styles.replyActions}>
@@ -804,6 +1111,9 @@ export default function CardPage() {
       {/* Predictions */}
       <section className={styles.playerSection}>
         <h2 className={styles.sectionTitle}>Predictions</h2>
+        <div className={styles.targetUpdate}>
+          <UpdateCountdown variant="banner" />
+        </div>
         <div className={styles.predictionsGrid}>
           {[
             ['Current Overall', card.ovr],
@@ -825,6 +1135,90 @@ export default function CardPage() {
           ))}
         </div>
 
+        <h3 className={styles.subSectionTitle}>Prediction History</h3>
+        <div className={styles.predictionHistory}>
+          <TimeSeriesChart
+            series={(() => {
+              const snaps = predHistory?.snapshots ?? []
+              const at = (d: string) => Date.parse(d)
+              return [
+                {
+                  key: 'pred',
+                  label: 'Predicted',
+                  color: 'var(--accent-primary)',
+                  points: snaps.map(s => ({ t: at(s.date), v: s.predicted_rank })),
+                },
+                {
+                  key: 'low',
+                  label: 'Low',
+                  color: 'var(--negative)',
+                  points: snaps.map(s => ({ t: at(s.date), v: s.predicted_rank_low })),
+                  dashed: true,
+                },
+                {
+                  key: 'high',
+                  label: 'High',
+                  color: 'var(--positive)',
+                  points: snaps.map(s => ({ t: at(s.date), v: s.predicted_rank_high })),
+                  dashed: true,
+                },
+                {
+                  key: 'actual',
+                  label: 'Actual OVR',
+                  color: 'var(--accent-secondary)',
+                  points: [
+                    ...snaps.map(s => ({ t: at(s.date), v: s.ovr })),
+                    ...(predHistory?.outcomes ?? [])
+                      .filter(o => !snaps.some(s => s.date === o.update_date))
+                      .map(o => ({ t: at(o.update_date), v: o.ovr_after })),
+                  ].sort((a, b) => a.t - b.t),
+                },
+              ]
+            })()}
+            formatValue={v => v.toFixed(1)}
+            emptyText="No prediction history recorded for this card yet."
+          />
+          {predHistory && predHistory.accuracy.updates > 0 && (
+            <>
+              <p className={styles.accuracySummary}>
+                Across <strong>{predHistory.accuracy.updates}</strong> roster update
+                {predHistory.accuracy.updates === 1 ? '' : 's'}: average error{' '}
+                <strong>{predHistory.accuracy.mae?.toFixed(2)}</strong> OVR, direction right{' '}
+                <strong>{predHistory.accuracy.direction_hit_rate?.toFixed(0)}%</strong>, inside the
+                predicted range <strong>{predHistory.accuracy.interval_coverage?.toFixed(0)}%</strong> of the time.
+              </p>
+              <div className={styles.predictionTable}>
+                <table>
+                  <thead>
+                    <tr>
+                      <th>Update</th>
+                      <th>Before</th>
+                      <th>Predicted</th>
+                      <th>Actual</th>
+                      <th>Error</th>
+                      <th>In Range</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {predHistory.outcomes.map(o => (
+                      <tr key={o.update_date}>
+                        <td>{o.update_date}</td>
+                        <td>{o.ovr_before}</td>
+                        <td>{o.predicted_rank.toFixed(1)}</td>
+                        <td>{o.ovr_after}</td>
+                        <td className={o.direction_hit ? styles.positive : styles.negative}>
+                          {o.error >= 0 ? '+' : ''}{o.error.toFixed(2)}
+                        </td>
+                        <td>{o.within_interval ? 'Yes' : 'No'}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+        </div>
+
         <h3 className={styles.subSectionTitle}>Attribute Predictions</h3>
         <div className={styles.predictionTable}>
           <table>
@@ -899,21 +1293,76 @@ export default function CardPage() {
       {/* Market */}
       <section className={styles.playerSection}>
         <h2 className={styles.sectionTitle}>Market Data</h2>
+        <div className={styles.marketChartHeader}>
+          <div className={styles.marketCurrent}>
+            Current Price <strong>{card.market_price ?? '–'}</strong>
+          </div>
+          <div className={styles.timePeriodTabs}>
+            {(['daily','hourly'] as MarketInterval[]).map(iv => (
+              <button
+                key={iv}
+                className={`${styles.periodTab} ${marketInterval === iv ? styles.active : ''}`}
+                onClick={() => setMarketInterval(iv)}
+              >
+                {iv === 'daily' ? '30 Days' : '7 Days'}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className={styles.marketChart}>
+          <TimeSeriesChart
+            series={[
+              {
+                key: 'sell',
+                label: 'Sell',
+                color: 'var(--accent-primary)',
+                points: marketHistory.map(p => ({ t: p.t, v: p.sell })),
+              },
+              {
+                key: 'buy',
+                label: 'Buy',
+                color: 'var(--accent-secondary)',
+                points: marketHistory.map(p => ({ t: p.t, v: p.buy })),
+                dashed: true,
+              },
+            ]}
+            formatTime={t => marketInterval === 'hourly'
+              ? new Date(t).toLocaleString([], { month: 'short', day: 'numeric', hour: 'numeric' })
+              : new Date(t).toLocaleDateString([], { month: 'short', day: 'numeric' })}
+            emptyText="No price history recorded for this card yet."
+          />
+        </div>
         <div className={styles.marketGrid}>
           {[
             ['Quick Sell Actual', card.qs_actual],
             ['Quick Sell Predicted', Number(card.qs_pred).toFixed(0)],
-            ['Market Price', card.market_price],
             [
-              'Predicted Profit',
+              'Profit (Quick Sell)',
               Number(card.predicted_profit).toFixed(0),
               card.predicted_profit >= 0 ? 'positive' : 'negative',
             ],
             [
-              'Predicted Profit %',
+              'Profit % (Quick Sell)',
               `${card.predicted_profit_pct >= 0 ? '+' : ''}${card.predicted_profit_pct.toFixed(1)}%`,
               card.predicted_profit_pct >= 0 ? 'positive' : 'negative',
             ],
+            [
+              'Profit (Market, after tax)',
+              Number(card.predicted_profit_market ?? 0).toFixed(0),
+              Number(card.predicted_profit_market) >= 0 ? 'positive' : 'negative',
+            ],
+            [
+              'Profit % (Market, after tax)',
+              `${Number(card.predicted_profit_market_pct) >= 0 ? '+' : ''}${Number(card.predicted_profit_market_pct ?? 0).toFixed(1)}%`,
+              Number(card.predicted_profit_market_pct) >= 0 ? 'positive' : 'negative',
+            ],
+            [
+              'Expected Profit',
+              Number(card.predicted_ev_profit ?? 0).toFixed(0),
+              Number(card.predicted_ev_profit) >= 0 ? 'positive' : 'negative',
+            ],
+            ['Chance of Profit', `${Number(card.prob_profit ?? 0).toFixed(1)}%`],
+            ['Chance of Next QS Step', `${Number(card.prob_next_qs_step ?? 0).toFixed(1)}%`],
           ].map(([title, val, cls, prefix]) => (
             <div key={title} className={styles.marketCard}>
               <h3 className={styles.marketTitle}>{title}</h3>
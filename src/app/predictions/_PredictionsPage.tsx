@@ -1,10 +1,29 @@
 // src/app/predictions/page.tsx
 'use client'
 
-import React, { useState, useEffect, useMemo } from 'react'
+import React, { useState, useEffect, useCallback } from 'react'
 import { useRouter, useSearchParams } from 'next/navigation'
 import styles from './page.module.css'
 import { FaSpinner } from 'react-icons/fa'
+import UpdateCountdown from '@/components/UpdateCountdown'
+import { auth } from '@/lib/firebaseClient'
+import { onAuthStateChanged, type User } from 'firebase/auth'
+import { sanitizeScreenQuery, screenLink, type Screen } from '@/lib/screens'
+import { COLUMN_GROUPS, DEFAULT_KEYS, LABELS } from '@/lib/predictionColumns'
+import {
+  RARITIES,
+  TYPES,
+  cardQueryToParams,
+  decodeFilters,
+  encodeFilters,
+  isCompleteCondition,
+  type CardPage,
+  type FilterCondition,
+  type FilterMatch,
+  type FilterOp,
+  type RarityFilter,
+  type TypeFilter
+} from '@/lib/cardQuery'
 
 interface Card {
   id: string
@@ -23,6 +42,7 @@ interface Card {
   predicted_rank_high: number
 
   confidence_percentage: number
+  interval_width: number
 
   market_price?: number
 
@@ -37,78 +57,25 @@ interface Card {
   predicted_ev_profit: number
   predicted_profit_pct: number
 
+  market_exit_price: number
+  predicted_profit_market_low: number
+  predicted_profit_market: number
+  predicted_profit_market_high: number
+  predicted_profit_market_pct: number
+
+  prob_profit: number
+  prob_upgrade: number
+  prob_downgrade: number
+  prob_next_qs_step: number
+
   [key: string]: string | number | boolean | undefined
 }
 
-const DEFAULT_KEYS = [
-  'card',
-  'name',
-  'ovr',
-  'delta_rank_pred',
-  'confidence_percentage',
-  'market_price',
-  'qs_pred',
-  'predicted_profit',
-  'predicted_profit_pct',
-]
-
-// define your column groups
-const COLUMN_GROUPS = [
-  {
-    group: 'details',
-    label: 'Details',
-    cols: [
-      { key: 'card', label: 'Card' },
-      { key: 'name', label: 'Name' },
-      { key: 'team', label: 'Team' },
-      { key: 'team_short_name', label: 'Team (abbr)' },
-      { key: 'display_position', label: 'Pos' },
-      { key: 'age', label: 'Age' },
-      { key: 'ovr', label: 'Current Overall' },
-    ]
-  },
-  {
-    group: 'predictions',
-    label: 'Predictions',
-    cols: [
-      { key: 'delta_rank_low',      label: 'Change In Rank Low' },
-      { key: 'delta_rank_pred',     label: 'Change In Rank Predicted' },
-      { key: 'delta_rank_high',     label: 'Change In Rank High' },
-      { key: 'predicted_rank_low',  label: 'Predicted Rank Low' },
-      { key: 'predicted_rank',      label: 'Predicted Rank' },
-      { key: 'predicted_rank_high', label: 'Predicted Rank High' },
-      { key: 'confidence_percentage', label: 'Confidence %' },
-    ]
-  },
-  {
-    group: 'market',
-    label: 'Market',
-    cols: [
-      { key: 'qs_actual',            label: 'Current QS' },
-      { key: 'qs_pred_low',          label: 'QS Predicted Low' },
-      { key: 'qs_pred',              label: 'QS Predicted' },
-      { key: 'qs_pred_high',         label: 'QS Predicted High' },
-      { key: 'market_price',         label: 'Current Price' },
-      { key: 'predicted_profit_low',  label: 'Predicted Profit Low' },
-      { key: 'predicted_profit',      label: 'Predicted Profit' },
-      { key: 'predicted_profit_high', label: 'Predicted Profit High' },
-      { key: 'predicted_ev_profit',   label: 'Expected Profit' },
-      { key: 'predicted_profit_pct',  label: 'Profit %' },
-    ]
-  }
-]
-
 // list of detail‐group keys
 const DETAILS_KEYS = COLUMN_GROUPS
   .find(g => g.group === 'details')!
   .cols.map(c => c.key)
 
-// human‐friendly labels
-const LABELS: Record<string,string> = {}
-COLUMN_GROUPS.forEach(g =>
-  g.cols.forEach(c => { LABELS[c.key] = c.label })
-)
-
 // detailed descriptions for tooltip
 const DESCRIPTIONS: Record<string,string> = {
   card:                   'Card image linking to the player detail page.',
@@ -124,17 +91,40 @@ const DESCRIPTIONS: Record<string,string> = {
   predicted_rank_low:     'Lower bound of the predicted overall rank.',
   predicted_rank:         'Model’s predicted overall rank.',
   predicted_rank_high:    'Upper bound of the predicted overall rank.',
-  confidence_percentage:  'Confidence level based on prediction interval width.',
+  confidence_percentage:  'How often past predictions with a similar interval width, OVR tier and hitter/pitcher type landed inside their predicted range.',
+  interval_width:         'Width of the prediction interval (Predicted Rank High minus Low) in overall points.',
   qs_actual:              'Quick-sell value for the current overall rating.',
   qs_pred_low:            'Quick-sell value for the lower bound of predicted rank.',
   qs_pred:                'Quick-sell value for the predicted rank.',
   qs_pred_high:           'Quick-sell value for the upper bound of predicted rank.',
   market_price:           'Current market (sell) price of the card.',
-  predicted_profit_low:   'Profit if the lower-bound QS value is realized.',
-  predicted_profit:       'Profit based on the predicted QS value.',
-  predicted_profit_high:  'Profit if the upper-bound QS value is realized.',
-  predicted_ev_profit:    'Expected profit across the prediction distribution.',
-  predicted_profit_pct:   'Profit percentage relative to current market price.',
+  predicted_profit_low:   'Quick-sell exit: profit if the lower-bound QS value is realized. Quick-selling is not taxed.',
+  predicted_profit:       'Quick-sell exit: predicted QS value minus the current price. Quick-selling is not taxed.',
+  predicted_profit_high:  'Quick-sell exit: profit if the upper-bound QS value is realized. Quick-selling is not taxed.',
+  predicted_ev_profit:    'Quick-sell exit: expected profit over the probability distribution of post-update overalls, valued on the quick-sell ladder.',
+  predicted_profit_pct:   'Quick-sell exit: predicted profit as a percentage of the current market price.',
+  market_exit_price:      'Expected marketplace sale price after the update: the predicted QS value plus the premium the card trades at over its current QS value.',
+  predicted_profit_market_low:  'Market exit: lower-bound sale price less the 10% marketplace sell tax, minus the current price.',
+  predicted_profit_market:      'Market exit: expected sale price less the 10% marketplace sell tax, minus the current price.',
+  predicted_profit_market_high: 'Market exit: upper-bound sale price less the 10% marketplace sell tax, minus the current price.',
+  predicted_profit_market_pct:  'Market exit: after-tax profit as a percentage of the current market price.',
+  prob_profit:            'Quick-sell exit: probability that the post-update quick-sell value exceeds the current price.',
+  prob_upgrade:           'Probability that the overall rating goes up at the next roster update.',
+  prob_downgrade:         'Probability that the overall rating goes down at the next roster update.',
+  prob_next_qs_step:      'Probability of reaching the next rung of the quick-sell ladder above the current overall.',
+}
+
+// text columns filter by set membership, everything else by numeric range
+const TEXT_KEYS = ['name', 'team', 'team_short_name', 'display_position']
+const TEXT_OPS: FilterOp[]    = ['in']
+const NUMERIC_OPS: FilterOp[] = ['gte', 'lte', 'eq', 'between']
+
+const FILTER_OP_LABELS: Record<FilterOp, string> = {
+  gte:     '≥',
+  lte:     '≤',
+  eq:      '=',
+  between: 'between',
+  in:      'in',
 }
 
 // Helper functions for URL state management
@@ -157,8 +147,11 @@ export default function PredictionsPage() {
   const router = useRouter()
   const searchParams = useSearchParams()
   
-  const [cards, setCards] = useState<Card[]>([])
+  const [page, setPage] = useState<CardPage<Card>>({
+    items: [], total: 0, pageIndex: 0, pageSize: 25, pageCount: 0
+  })
   const [loading, setLoading] = useState(true)
+  const [loadError, setLoadError] = useState('')
 
   // Initialize state from sessionStorage first, then URL parameters
   const getInitialState = () => {
@@ -192,6 +185,12 @@ export default function PredictionsPage() {
   const [sortDesc, setSortDesc] = useState(
     savedState?.sortDesc !== undefined ? savedState.sortDesc : searchParams.get('desc') === 'true'
   )
+  const [filters, setFilters] = useState<FilterCondition[]>(
+    savedState?.filters || decodeFilters(searchParams.get('filters') || '')
+  )
+  const [filterMode, setFilterMode] = useState<FilterMatch>(
+    savedState?.filterMode || (searchParams.get('match') === 'or' ? 'or' : 'and')
+  )
   const [pageSize, setPageSize] = useState(
     savedState?.pageSize || parseInt(searchParams.get('size') || '25')
   )
@@ -199,6 +198,17 @@ export default function PredictionsPage() {
     savedState?.pageIndex || parseInt(searchParams.get('page') || '0')
   )
 
+  // saved screens: named copies of the URL state, stored per user
+  const [user, setUser] = useState<User|null>(null)
+  const [screens, setScreens] = useState<Screen[]>([])
+  const [screenId, setScreenId] = useState('')
+  const [screenNote, setScreenNote] = useState('')
+  // a shared link (?screen=&owner=) is read once, before the URL sync strips it
+  const [sharedScreen] = useState(() => ({
+    id:    searchParams.get('screen'),
+    owner: searchParams.get('owner')
+  }))
+
   const [tooltipOpen, setTooltipOpen] = useState<string|null>(null)
   const [openDropdown, setOpenDropdown] = useState<string|null>(null)
 
@@ -231,26 +241,188 @@ export default function PredictionsPage() {
     })
   }
 
+  // filter builder helpers; any change sends the table back to the first page
+  const updateFilter = (idx: number, patch: Partial<FilterCondition>) => {
+    setFilters(fs => fs.map((f, i) => i === idx ? { ...f, ...patch } : f))
+    setPageIndex(0)
+  }
+  const addFilter = () => {
+    setFilters(fs => [...fs, { key: 'market_price', op: 'gte', values: [] }])
+  }
+  const removeFilter = (idx: number) => {
+    setFilters(fs => fs.filter((_, i) => i !== idx))
+    setPageIndex(0)
+  }
+  const changeFilterKey = (idx: number, f: FilterCondition, key: string) => {
+    const isText = TEXT_KEYS.includes(key)
+    const wasText = TEXT_KEYS.includes(f.key)
+    updateFilter(idx, {
+      key,
+      op: isText ? 'in' : (wasText ? 'gte' : f.op),
+      values: isText === wasText ? f.values : []
+    })
+  }
+  const activeFilterCount = filters.filter(isCompleteCondition).length
+
+  // replace the whole view with a saved screen's query string
+  const applyScreen = useCallback((query: string) => {
+    const p = new URLSearchParams(query)
+    const r = p.get('rarity') as RarityFilter
+    const t = p.get('type') as TypeFilter
+    setRarity(RARITIES.includes(r) ? r : 'all')
+    setTypeFilter(TYPES.includes(t) ? t : 'all')
+    setSearch(p.get('search') || '')
+    setFilters(decodeFilters(p.get('filters') || ''))
+    setFilterMode(p.get('match') === 'or' ? 'or' : 'and')
+    setColumns(decodeColumns(p.get('columns') || ''))
+    setSortKey(p.get('sort') || null)
+    setSortDesc(p.get('desc') === 'true')
+    setPageSize(parseInt(p.get('size') || '25'))
+    setPageIndex(0)
+  }, [])
+
+  useEffect(() => onAuthStateChanged(auth, u => setUser(u)), [])
+
+  // load the signed-in user's screens
   useEffect(() => {
+    if (!user) { setScreens([]); return }
+    (async () => {
+      try {
+        const token = await user.getIdToken()
+        const res = await fetch(`/api/users/${user.uid}/screens`, {
+          headers: { Authorization: `Bearer ${token}` }
+        })
+        if (res.ok) setScreens(await res.json())
+      } catch (err) {
+        console.error(err)
+      }
+    })()
+  }, [user])
+
+  // open a shared screen link
+  useEffect(() => {
+    if (!sharedScreen.id || !sharedScreen.owner) return
+    fetch(`/api/users/${sharedScreen.owner}/screens/${sharedScreen.id}`)
+      .then(res => res.ok ? res.json() : Promise.reject(res.status))
+      .then((screen: Screen) => {
+        applyScreen(screen.query)
+        setScreenNote(`Viewing shared screen “${screen.name}”`)
+      })
+      .catch(() => setScreenNote('Shared screen not found'))
+  }, [sharedScreen, applyScreen])
+
+  const saveScreen = async () => {
+    if (!user) return
+    const current = screens.find(sc => sc.id === screenId)
+    const name = window.prompt('Save this view as:', current?.name || '')?.trim()
+    if (!name) return
+
+    const token = await user.getIdToken()
+    const res = await fetch(`/api/users/${user.uid}/screens`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+      body: JSON.stringify({ name, query: sanitizeScreenQuery(window.location.search) })
+    })
+    const data = await res.json()
+    if (!res.ok) {
+      alert(data.error || 'Failed to save screen')
+      return
+    }
+    const saved = data as Screen
+    setScreens(list => [saved, ...list.filter(sc => sc.id !== saved.id)])
+    setScreenId(saved.id)
+    setScreenNote(`Saved “${saved.name}”`)
+  }
+
+  const deleteScreen = async () => {
+    const current = screens.find(sc => sc.id === screenId)
+    if (!user || !current) return
+    if (!window.confirm(`Delete the screen “${current.name}”?`)) return
+
+    const token = await user.getIdToken()
+    const res = await fetch(`/api/users/${user.uid}/screens/${current.id}`, {
+      method: 'DELETE',
+      headers: { Authorization: `Bearer ${token}` }
+    })
+    if (!res.ok) {
+      alert('Failed to delete screen')
+      return
+    }
+    setScreens(list => list.filter(sc => sc.id !== current.id))
+    setScreenId('')
+    setScreenNote('')
+  }
+
+  const shareScreen = async () => {
+    if (!user || !screenId) return
+    const link = screenLink(window.location.origin, user.uid, screenId)
+    try {
+      await navigator.clipboard.writeText(link)
+      setScreenNote('Link copied')
+    } catch {
+      window.prompt('Copy this link:', link)
+    }
+  }
+
+  // debounce the name search and filter inputs so typing doesn't fire a request per keystroke
+  const [debouncedSearch, setDebouncedSearch] = useState(search)
+  useEffect(() => {
+    const t = setTimeout(() => setDebouncedSearch(search), 250)
+    return () => clearTimeout(t)
+  }, [search])
+
+  const [debouncedFilters, setDebouncedFilters] = useState(filters)
+  useEffect(() => {
+    const t = setTimeout(() => setDebouncedFilters(filters), 250)
+    return () => clearTimeout(t)
+  }, [filters])
+
+  // filter, sort and page on the server
+  useEffect(() => {
+    const controller = new AbortController()
     async function load() {
       try {
-        const res = await fetch('/api/cards/live')
-        const data: Card[] = await res.json()
-        setCards(data.map(c => ({
-          ...c,
-          is_hitter:
-            c.is_hitter === true ||
-            c.is_hitter === 'true' ||
-            c.is_hitter === 'True'
-        })))
+        const params = cardQueryToParams({
+          rarity,
+          type: typeFilter,
+          search: debouncedSearch,
+          filters: debouncedFilters,
+          match: filterMode,
+          sortKey,
+          sortDesc,
+          pageSize,
+          pageIndex
+        })
+        // always send the page size so the API answers with a paged envelope
+        params.set('pageSize', String(pageSize))
+        const res = await fetch(`/api/cards/live?${params}`, { signal: controller.signal })
+        const data = await res.json().catch(() => ({}))
+        if (!res.ok) {
+          setLoadError(data.error || 'Failed to load cards')
+          setLoading(false)
+          return
+        }
+        setLoadError('')
+        setPage({
+          ...data,
+          items: (data as CardPage<Card>).items.map(c => ({
+            ...c,
+            is_hitter:
+              c.is_hitter === true ||
+              c.is_hitter === 'true' ||
+              c.is_hitter === 'True'
+          }))
+        })
+        setLoading(false)
       } catch (err) {
+        if (controller.signal.aborted) return
         console.error(err)
-      } finally {
         setLoading(false)
       }
     }
     load()
-  }, [])
+    return () => controller.abort()
+  }, [rarity, typeFilter, debouncedSearch, debouncedFilters, filterMode, sortKey, sortDesc, pageSize, pageIndex])
 
   // Save state to sessionStorage and sync to URL
   useEffect(() => {
@@ -259,6 +431,8 @@ export default function PredictionsPage() {
       rarity,
       typeFilter,
       search,
+      filters,
+      filterMode,
       columns,
       sortKey,
       sortDesc,
@@ -272,50 +446,40 @@ export default function PredictionsPage() {
       rarity: rarity !== 'all' ? rarity : '',
       type: typeFilter !== 'all' ? typeFilter : '',
       search: search,
+      filters: encodeFilters(filters),
+      match: filterMode === 'or' ? 'or' : '',
       columns: columns.join(',') !== DEFAULT_KEYS.join(',') ? encodeColumns(columns) : '',
       sort: sortKey || '',
       desc: sortDesc ? 'true' : '',
       size: pageSize !== 25 ? pageSize.toString() : '',
-      page: pageIndex !== 0 ? pageIndex.toString() : ''
+      page: pageIndex !== 0 ? pageIndex.toString() : '',
+      screen: '',
+      owner: ''
     })
-  }, [router, rarity, typeFilter, search, columns, sortKey, sortDesc, pageSize, pageIndex])
-
-  // 1) filter
-  const filtered = useMemo(() => {
-    return cards
-      .filter(c => rarity === 'all' || c.rarity.toLowerCase() === rarity)
-      .filter(c =>
-        typeFilter === 'all' ||
-        (typeFilter === 'hitters'  && c.is_hitter) ||
-        (typeFilter === 'pitchers' && !c.is_hitter)
-      )
-      .filter(c => (c.name ?? '').toLowerCase().includes(search.toLowerCase()))
-  }, [cards, rarity, typeFilter, search])
-
-  // 2) sort
-  const sorted = useMemo(() => {
-    if (!sortKey) return filtered
-    return [...filtered].sort((a,b) => {
-      const aValRaw = (a as Record<string, unknown>)[sortKey]
-      const bValRaw = (b as Record<string, unknown>)[sortKey]
-
-      // then:
-      const aNum = typeof aValRaw === 'number' ? aValRaw : Number(aValRaw)
-      const bNum = typeof bValRaw === 'number' ? bValRaw : Number(bValRaw)
-      if (!isNaN(aNum) && !isNaN(bNum)) {
-        const cmp = aNum > bNum ? 1 : -1
-        return sortDesc ? -cmp : cmp
-      }
-      
-      // Fall back to string comparison
-      const cmp = aNum > bNum ? 1 : -1
-      return sortDesc ? -cmp : cmp
+  }, [router, rarity, typeFilter, search, filters, filterMode, columns, sortKey, sortDesc, pageSize, pageIndex])
+
+  // download link for the current view: same filters, sort and columns, every page
+  const exportHref = (format: 'csv' | 'json') => {
+    const params = cardQueryToParams({
+      rarity,
+      type: typeFilter,
+      search,
+      filters,
+      match: filterMode,
+      sortKey,
+      sortDesc,
+      pageSize,
+      pageIndex: 0
     })
-  }, [filtered, sortKey, sortDesc])
+    params.delete('pageSize')
+    params.set('columns', columns.join(','))
+    params.set('format', format)
+    return `/api/cards/live/export?${params}`
+  }
 
-  // 3) paginate
-  const pageCount = Math.ceil(sorted.length / pageSize)
-  const paged     = sorted.slice(pageIndex * pageSize, (pageIndex+1)*pageSize)
+  // current page as returned by the API
+  const pageCount = page.pageCount
+  const paged     = page.items
 
 
   useEffect(() => {
@@ -354,6 +518,7 @@ export default function PredictionsPage() {
     <main className={styles.predictionsContainer}>
       <section className={styles.predictionsHero}>
         <h1 className={styles.heroTitle}>Player Predictions</h1>
+        <UpdateCountdown variant="banner" />
       </section>
 
       <section className={styles.predictionsTableSection}>
@@ -401,8 +566,132 @@ export default function PredictionsPage() {
               />
             </div>
 
+            {/* saved screens */}
+            {user && (
+              <div className={styles.screenControls}>
+                <select
+                  value={screenId}
+                  onChange={e => {
+                    const picked = screens.find(sc => sc.id === e.target.value)
+                    setScreenId(e.target.value)
+                    setScreenNote('')
+                    if (picked) applyScreen(picked.query)
+                  }}
+                >
+                  <option value="">Saved screens…</option>
+                  {screens.map(sc => (
+                    <option key={sc.id} value={sc.id}>{sc.name}</option>
+                  ))}
+                </select>
+                <button type="button" onClick={saveScreen}>Save</button>
+                <button type="button" onClick={shareScreen} disabled={!screenId}>Copy Link</button>
+                <button type="button" onClick={deleteScreen} disabled={!screenId}>Delete</button>
+              </div>
+            )}
+            {screenNote && <span className={styles.screenNote}>{screenNote}</span>}
+
             {/* column toggles */}
             <div className={styles.columnDropdowns}>
+              {/* filter builder */}
+              <div
+                className={`${styles.columnDropdown} ${styles.filterBuilder} ${openDropdown === 'filters' ? styles.open : ''}`}
+              >
+                <button
+                  type="button"
+                  className={`${styles.dropdownSummary} ${activeFilterCount > 0 ? styles.filterActive : ''}`}
+                  onClick={() => setOpenDropdown(openDropdown === 'filters' ? null : 'filters')}
+                >
+                  Filters{activeFilterCount > 0 ? ` (${activeFilterCount})` : ''}
+                </button>
+                {openDropdown === 'filters' && (
+                  <div className={styles.dropdownContent}>
+                    <button
+                      className={styles.mobileCloseButton}
+                      onClick={() => setOpenDropdown(null)}
+                    >
+                      ×
+                    </button>
+                    <button
+                      type="button"
+                      className={styles.clearFilters}
+                      onClick={() => { setFilters([]); setPageIndex(0) }}
+                    >× Clear All</button>
+                    <div className={styles.filterMatch}>
+                      <label>Match</label>
+                      <select
+                        value={filterMode}
+                        onChange={e => { setFilterMode(e.target.value as FilterMatch); setPageIndex(0) }}
+                      >
+                        <option value="and">All conditions (AND)</option>
+                        <option value="or">Any condition (OR)</option>
+                      </select>
+                    </div>
+                    {filters.map((f, idx) => (
+                      <div key={idx} className={styles.filterRow}>
+                        <select
+                          value={f.key}
+                          onChange={e => changeFilterKey(idx, f, e.target.value)}
+                        >
+                          {COLUMN_GROUPS.map(g => (
+                            <optgroup key={g.group} label={g.label}>
+                              {g.cols.filter(c => c.key !== 'card').map(c => (
+                                <option key={c.key} value={c.key}>{c.label}</option>
+                              ))}
+                            </optgroup>
+                          ))}
+                        </select>
+                        <select
+                          value={f.op}
+                          onChange={e => updateFilter(idx, { op: e.target.value as FilterOp })}
+                        >
+                          {(TEXT_KEYS.includes(f.key) ? TEXT_OPS : NUMERIC_OPS).map(op => (
+                            <option key={op} value={op}>{FILTER_OP_LABELS[op]}</option>
+                          ))}
+                        </select>
+                        {f.op === 'in' ? (
+                          <input
+                            type="text"
+                            value={f.values.join(',')}
+                            placeholder="Comma-separated…"
+                            onChange={e => updateFilter(idx, { values: e.target.value.split(',') })}
+                          />
+                        ) : f.op === 'between' ? (
+                          <>
+                            <input
+                              type="number"
+                              value={f.values[0] ?? ''}
+                              onChange={e => updateFilter(idx, { values: [e.target.value, f.values[1] ?? ''] })}
+                            />
+                            <span>and</span>
+                            <input
+                              type="number"
+                              value={f.values[1] ?? ''}
+                              onChange={e => updateFilter(idx, { values: [f.values[0] ?? '', e.target.value] })}
+                            />
+                          </>
+                        ) : (
+                          <input
+                            type="number"
+                            value={f.values[0] ?? ''}
+                            onChange={e => updateFilter(idx, { values: [e.target.value] })}
+                          />
+                        )}
+                        <button
+                          type="button"
+                          className={styles.filterRemove}
+                          onClick={() => removeFilter(idx)}
+                        >×</button>
+                      </div>
+                    ))}
+                    <button
+                      type="button"
+                      className={styles.filterAdd}
+                      onClick={addFilter}
+                    >+ Add condition</button>
+                  </div>
+                )}
+              </div>
+
               {COLUMN_GROUPS.map(group => {
                 const keys = group.cols.map(c => c.key)
                 const defaultKeysForGroup = keys.filter(k => DEFAULT_KEYS.includes(k))
@@ -494,9 +783,17 @@ export default function PredictionsPage() {
               </select>
               <span>per page</span>
             </div>
+
+            {/* export */}
+            <div className={styles.exportControls}>
+              <a href={exportHref('csv')} download>Export CSV</a>
+              <a href={exportHref('json')} download>Export JSON</a>
+            </div>
           </div>
         </div>
 
+        {loadError && <p className={styles.loadError}>{loadError}</p>}
+
         {/* table */}
         <div className={styles.tableContainer}>
           <table className={styles.predictionsTable}>
@@ -548,7 +845,7 @@ export default function PredictionsPage() {
                       cell = num.toFixed(2)
                     }
                     // ── existing formatting for percentages ──
-                    else if (col.endsWith('_pct') || col === 'confidence_percentage') {
+                    else if (col.endsWith('_pct') || col.startsWith('prob_') || col === 'confidence_percentage') {
                       const num = typeof raw === 'number' ? raw : Number(raw)
                       cell = `${num.toFixed(1)}%`
                     }
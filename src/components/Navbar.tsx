@@ -9,7 +9,10 @@ import { useState, useEffect, useRef } from 'react'
 import { auth } from '@/lib/firebaseClient'
 import { onAuthStateChanged, signOut, User } from 'firebase/auth'
 import styles from './Navbar.module.css'
-import { FaBars, FaTimes, FaCaretDown, FaUser, FaSignOutAlt } from 'react-icons/fa'
+import UpdateCountdown from './UpdateCountdown'
+import { FaBars, FaTimes, FaCaretDown, FaUser, FaSignOutAlt, FaBell, FaShieldAlt, FaUserShield } from 'react-icons/fa'
+import type { Notification } from '@/lib/notifications'
+import { hasRole, roleOf, type Role } from '@/lib/roles'
 
 interface Player { 
   uuid: string 
@@ -17,6 +20,9 @@ interface Player {
   baked_img?: string 
 }
 
+// how often the bell re-checks for new notifications
+const NOTIFICATION_POLL_MS = 60 * 1000
+
 /**
  * Navbar component - provides primary site navigation with advanced features
  * Includes: player search autocomplete, mobile-responsive menu, user authentication integration
@@ -27,10 +33,15 @@ export default function Navbar() {
   const [search, setSearch] = useState('')
   const [matches, setMatches] = useState<Player[]>([])
   const [user, setUser] = useState<User | null>(null)
+  const [role, setRole] = useState<Role>('user')
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false)
   const [userDropdownOpen, setUserDropdownOpen] = useState(false)
   const listRef = useRef<HTMLDivElement>(null)
   const userDropdownRef = useRef<HTMLDivElement>(null)
+  const [notifications, setNotifications] = useState<Notification[]>([])
+  const [unread, setUnread] = useState(0)
+  const [bellOpen, setBellOpen] = useState(false)
+  const bellRef = useRef<HTMLDivElement>(null)
 
   useEffect(() => {
     const q = search.trim().toLowerCase()
@@ -63,17 +74,66 @@ export default function Navbar() {
       if (userDropdownRef.current && !userDropdownRef.current.contains(e.target as Node)) {
         setUserDropdownOpen(false)
       }
+      // Close notification panel if clicking outside
+      if (bellRef.current && !bellRef.current.contains(e.target as Node)) {
+        setBellOpen(false)
+      }
     }
     document.addEventListener('click', onClick)
     return () => document.removeEventListener('click', onClick)
   }, [])
 
-  // 3) listen for auth state
+  // 3) listen for auth state; the role claim decides which staff links show
   useEffect(() => {
-    const unsub = onAuthStateChanged(auth, u => setUser(u))
+    const unsub = onAuthStateChanged(auth, async u => {
+      setUser(u)
+      setRole(u ? roleOf((await u.getIdTokenResult()).claims) : 'user')
+    })
     return () => unsub()
   }, [])
 
+  // 4) poll the notification feed while signed in
+  useEffect(() => {
+    if (!user) {
+      setNotifications([])
+      setUnread(0)
+      return
+    }
+    const load = async () => {
+      try {
+        const res = await fetch('/api/notifications', {
+          headers: { Authorization: `Bearer ${await user.getIdToken()}` }
+        })
+        if (!res.ok) return
+        const data = await res.json()
+        setNotifications(data.notifications)
+        setUnread(data.unread)
+      } catch (err) {
+        console.error('Failed to load notifications:', err)
+      }
+    }
+    load()
+    const timer = setInterval(load, NOTIFICATION_POLL_MS)
+    return () => clearInterval(timer)
+  }, [user])
+
+  // mark some (or, without ids, all) notifications read
+  const markRead = async (ids?: string[]) => {
+    if (!user) return
+    const res = await fetch('/api/notifications', {
+      method: 'PATCH',
+      headers: {
+        Authorization: `Bearer ${await user.getIdToken()}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(ids ? { ids } : {})
+    })
+    if (!res.ok) return
+    const { updated } = await res.json()
+    setNotifications(prev => prev.map(n => !ids || ids.includes(n.id) ? { ...n, read: true } : n))
+    setUnread(prev => Math.max(0, prev - updated))
+  }
+
   const accountHref    = user ? `/account/${user.uid}` : '/login'
 
   const investmentHref = user ? `/investment/${user.uid}` : '/login'
@@ -142,6 +202,24 @@ export default function Navbar() {
                     >
                       <FaUser /> My Account
                     </Link>
+                    {hasRole({ role }, 'moderator') && (
+                      <Link
+                        href="/admin/moderation"
+                        className={styles.mobileAccountLink}
+                        onClick={() => setMobileMenuOpen(false)}
+                      >
+                        <FaShieldAlt /> Moderation
+                      </Link>
+                    )}
+                    {role === 'admin' && (
+                      <Link
+                        href="/admin/roles"
+                        className={styles.mobileAccountLink}
+                        onClick={() => setMobileMenuOpen(false)}
+                      >
+                        <FaUserShield /> Roles
+                      </Link>
+                    )}
                     <button
                       onClick={() => signOut(auth)}
                       className={styles.mobileAccountLink}
@@ -197,6 +275,62 @@ export default function Navbar() {
               </div>
             </div>
 
+            {/* Countdown to the next roster update */}
+            <UpdateCountdown />
+
+            {/* Notification bell with unread count */}
+            {user && (
+              <div className={styles.bell} ref={bellRef}>
+                <button
+                  className={styles.bellButton}
+                  onClick={() => setBellOpen(!bellOpen)}
+                  title="Notifications"
+                >
+                  <FaBell />
+                  {unread > 0 && (
+                    <span className={styles.bellBadge}>{unread > 99 ? '99+' : unread}</span>
+                  )}
+                </button>
+
+                {bellOpen && (
+                  <div className={styles.notificationPanel}>
+                    <div className={styles.notificationHeader}>
+                      <span>Notifications</span>
+                      {unread > 0 && (
+                        <button className={styles.markAllRead} onClick={() => markRead()}>
+                          Mark all read
+                        </button>
+                      )}
+                    </div>
+                    {notifications.length === 0 ? (
+                      <div className={styles.notificationEmpty}>
+                        No notifications yet. Set alerts from a player page.
+                      </div>
+                    ) : (
+                      notifications.map(n => (
+                        <Link
+                          key={n.id}
+                          href={n.link ?? '#'}
+                          className={`${styles.notificationItem} ${n.read ? '' : styles.unread}`}
+                          onClick={() => {
+                            if (!n.read) markRead([n.id])
+                            setBellOpen(false)
+                            setMobileMenuOpen(false)
+                          }}
+                        >
+                          <span className={styles.notificationTitle}>{n.title}</span>
+                          <span className={styles.notificationBody}>{n.body}</span>
+                          <span className={styles.notificationTime}>
+                            {new Date(n.createdAt).toLocaleString()}
+                          </span>
+                        </Link>
+                      ))
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
+
             {/* Desktop user authentication section with profile dropdown */}
             <div className={styles.userDropdown} ref={userDropdownRef}>
               {user ? (
@@ -221,6 +355,16 @@ export default function Navbar() {
                       <Link href={accountHref} className={styles.dropdownItem}>
                         <FaUser /> My Account
                       </Link>
+                      {hasRole({ role }, 'moderator') && (
+                        <Link href="/admin/moderation" className={styles.dropdownItem}>
+                          <FaShieldAlt /> Moderation
+                        </Link>
+                      )}
+                      {role === 'admin' && (
+                        <Link href="/admin/roles" className={styles.dropdownItem}>
+                          <FaUserShield /> Roles
+                        </Link>
+                      )}
                       <button
                         onClick={() => signOut(auth)}
                         className={styles.dropdownItem}
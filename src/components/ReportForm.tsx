@@ -0,0 +1,83 @@
+// src/components/ReportForm.tsx
+// Inline "Report" form for a chat message or card comment; posts to /api/reports
+// Used by MessageItem on the community page and by comments on the player page
+'use client'
+
+import { useState } from 'react'
+import styles from './ReportForm.module.css'
+import { auth } from '@/lib/firebaseClient'
+import { MAX_NOTE, REPORT_REASONS, type ReportReason } from '@/lib/reportRules'
+import type { ModerationSurface } from '@/lib/moderation'
+
+interface ReportFormProps {
+  surface:   ModerationSurface
+  target:    string   // chat room or card id
+  contentId: string
+  onClose:   () => void
+}
+
+export default function ReportForm({ surface, target, contentId, onClose }: ReportFormProps) {
+  const [reason, setReason]   = useState<ReportReason>('spam')
+  const [note, setNote]       = useState('')
+  const [sending, setSending] = useState(false)
+  const [error, setError]     = useState('')
+  const [done, setDone]       = useState(false)
+
+  const submit = async () => {
+    const user = auth.currentUser
+    if (!user) return setError('Log in to report')
+    setSending(true)
+    setError('')
+    try {
+      const res = await fetch('/api/reports', {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${await user.getIdToken()}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ surface, target, contentId, reason, note: note.trim() || null })
+      })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        setError(data.fields ? Object.values(data.fields).join(' ') : data.error || 'Failed to send report')
+        return
+      }
+      setDone(true)
+    } finally {
+      setSending(false)
+    }
+  }
+
+  if (done) {
+    return (
+      <div className={styles.reportForm}>
+        <span>Thanks, a moderator will take a look.</span>
+        <button className={styles.linkBtn} onClick={onClose}>Close</button>
+      </div>
+    )
+  }
+
+  return (
+    <div className={styles.reportForm}>
+      <select value={reason} onChange={e => setReason(e.target.value as ReportReason)}>
+        {Object.entries(REPORT_REASONS).map(([key, label]) => (
+          <option key={key} value={key}>{label}</option>
+        ))}
+      </select>
+      <input
+        type="text"
+        placeholder="Anything a moderator should know? (optional)"
+        maxLength={MAX_NOTE}
+        value={note}
+        onChange={e => setNote(e.target.value)}
+      />
+      <div className={styles.actions}>
+        <button className={styles.submitBtn} onClick={submit} disabled={sending}>
+          {sending ? 'Sending…' : 'Report'}
+        </button>
+        <button className={styles.linkBtn} onClick={onClose}>Cancel</button>
+      </div>
+      {error && <div className={styles.error}>{error}</div>}
+    </div>
+  )
+}
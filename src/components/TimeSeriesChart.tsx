@@ -0,0 +1,177 @@
+// src/components/TimeSeriesChart.tsx
+// Lightweight SVG line chart for time series (market prices, prediction history)
+// Features: multiple series with gaps for missing values, hover crosshair with values, legend
+'use client'
+
+import { useMemo, useState } from 'react'
+import styles from './TimeSeriesChart.module.css'
+
+export interface ChartPoint {
+  t: number
+  v: number | null
+}
+
+export interface ChartSeries {
+  key:     string
+  label:   string
+  color:   string
+  points:  ChartPoint[]
+  dashed?: boolean
+}
+
+interface TimeSeriesChartProps {
+  series:       ChartSeries[]
+  height?:      number
+  formatValue?: (v: number) => string
+  formatTime?:  (t: number) => string
+  emptyText?:   string
+}
+
+// fixed drawing surface; the SVG scales to its container width
+const WIDTH   = 640
+const PAD     = { top: 16, right: 16, bottom: 28, left: 56 }
+
+const defaultFormatValue = (v: number) => Math.round(v).toLocaleString()
+const defaultFormatTime  = (t: number) => new Date(t).toLocaleDateString()
+
+/**
+ * TimeSeriesChart - plots one or more series against a shared time axis
+ * Null values break the line rather than dropping to zero
+ */
+export default function TimeSeriesChart({
+  series,
+  height = 220,
+  formatValue = defaultFormatValue,
+  formatTime = defaultFormatTime,
+  emptyText = 'No data for this range yet.',
+}: TimeSeriesChartProps) {
+  const [hoverT, setHoverT] = useState<number | null>(null)
+
+  // shared scales across every series
+  const bounds = useMemo(() => {
+    const ts: number[] = []
+    const vs: number[] = []
+    series.forEach(s => s.points.forEach(p => {
+      ts.push(p.t)
+      if (p.v !== null) vs.push(p.v)
+    }))
+    if (!vs.length) return null
+    const minV = Math.min(...vs)
+    const maxV = Math.max(...vs)
+    // pad flat lines so they render mid-chart
+    const spanV = maxV - minV || Math.max(1, Math.abs(maxV) * 0.1)
+    return {
+      minT: Math.min(...ts),
+      maxT: Math.max(...ts),
+      minV: minV - spanV * 0.05,
+      maxV: maxV + spanV * 0.05,
+      times: Array.from(new Set(ts)).sort((a, b) => a - b),
+    }
+  }, [series])
+
+  if (!bounds) {
+    return <div className={styles.empty}>{emptyText}</div>
+  }
+
+  const innerW = WIDTH  - PAD.left - PAD.right
+  const innerH = height - PAD.top  - PAD.bottom
+  const x = (t: number) =>
+    PAD.left + (bounds.maxT === bounds.minT ? innerW / 2 : ((t - bounds.minT) / (bounds.maxT - bounds.minT)) * innerW)
+  const y = (v: number) =>
+    PAD.top + innerH - ((v - bounds.minV) / (bounds.maxV - bounds.minV)) * innerH
+
+  // split each series into drawable segments at null values
+  const paths = series.map(s => {
+    const segments: string[] = []
+    let current: string[] = []
+    s.points.forEach(p => {
+      if (p.v === null) {
+        if (current.length) segments.push(current.join(' '))
+        current = []
+      } else {
+        current.push(`${current.length ? 'L' : 'M'}${x(p.t).toFixed(1)},${y(p.v).toFixed(1)}`)
+      }
+    })
+    if (current.length) segments.push(current.join(' '))
+    return { ...s, d: segments.join(' ') }
+  })
+
+  // snap the hover position to the closest sampled time
+  const handleMove = (e: React.MouseEvent<SVGSVGElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect()
+    const px = ((e.clientX - rect.left) / rect.width) * WIDTH
+    let best = bounds.times[0]
+    bounds.times.forEach(t => {
+      if (Math.abs(x(t) - px) < Math.abs(x(best) - px)) best = t
+    })
+    setHoverT(best)
+  }
+
+  const hoverValues = hoverT === null ? [] : series.map(s => ({
+    ...s,
+    value: s.points.find(p => p.t === hoverT)?.v ?? null,
+  }))
+
+  const ticksV = [bounds.maxV, (bounds.maxV + bounds.minV) / 2, bounds.minV]
+
+  return (
+    <div className={styles.chart}>
+      <svg
+        viewBox={`0 0 ${WIDTH} ${height}`}
+        className={styles.svg}
+        onMouseMove={handleMove}
+        onMouseLeave={() => setHoverT(null)}
+      >
+        {/* horizontal grid + value labels */}
+        {ticksV.map(v => (
+          <g key={v}>
+            <line x1={PAD.left} x2={WIDTH - PAD.right} y1={y(v)} y2={y(v)} className={styles.grid} />
+            <text x={PAD.left - 8} y={y(v) + 4} className={styles.axisLabel} textAnchor="end">
+              {formatValue(v)}
+            </text>
+          </g>
+        ))}
+
+        {/* time labels at both ends */}
+        <text x={PAD.left} y={height - 8} className={styles.axisLabel} textAnchor="start">
+          {formatTime(bounds.minT)}
+        </text>
+        <text x={WIDTH - PAD.right} y={height - 8} className={styles.axisLabel} textAnchor="end">
+          {formatTime(bounds.maxT)}
+        </text>
+
+        {paths.map(p => (
+          <path
+            key={p.key}
+            d={p.d}
+            fill="none"
+            style={{ stroke: p.color }}
+            strokeWidth={2}
+            strokeDasharray={p.dashed ? '6 4' : undefined}
+          />
+        ))}
+
+        {/* crosshair */}
+        {hoverT !== null && (
+          <g>
+            <line x1={x(hoverT)} x2={x(hoverT)} y1={PAD.top} y2={PAD.top + innerH} className={styles.crosshair} />
+            {hoverValues.map(h => h.value !== null && (
+              <circle key={h.key} cx={x(hoverT)} cy={y(h.value)} r={4} style={{ fill: h.color }} />
+            ))}
+          </g>
+        )}
+      </svg>
+
+      <div className={styles.legend}>
+        {hoverT !== null && <span className={styles.hoverTime}>{formatTime(hoverT)}</span>}
+        {(hoverT !== null ? hoverValues : series.map(s => ({ ...s, value: null }))).map(s => (
+          <span key={s.key} className={styles.legendItem}>
+            <span className={styles.swatch} style={{ background: s.color }} />
+            {s.label}
+            {s.value !== null && <strong>{formatValue(s.value)}</strong>}
+          </span>
+        ))}
+      </div>
+    </div>
+  )
+}
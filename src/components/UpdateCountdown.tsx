@@ -0,0 +1,82 @@
+// src/components/UpdateCountdown.tsx
+// Countdown to the next roster update from /api/roster-updates
+// Compact form sits in the Navbar; the banner form labels a page's predictions with the update they target
+'use client'
+
+import { useEffect, useState } from 'react'
+import styles from './UpdateCountdown.module.css'
+import { formatCountdown, rosterUpdateLabel, type RosterUpdate } from '@/lib/rosterCalendar'
+
+interface UpdateCountdownProps {
+  variant?: 'compact' | 'banner'
+}
+
+// the minute-level countdown only needs an occasional refresh
+const TICK_MS = 30 * 1000
+
+// one request per page load, shared by every countdown on the page
+let nextUpdate: Promise<RosterUpdate | null> | null = null
+
+function loadNextUpdate(): Promise<RosterUpdate | null> {
+  nextUpdate ??= fetch('/api/roster-updates')
+    .then(r => {
+      if (!r.ok) throw new Error(`roster updates: ${r.status}`)
+      return r.json()
+    })
+    .then(data => data.next as RosterUpdate | null)
+    .catch(err => {
+      nextUpdate = null
+      throw err
+    })
+  return nextUpdate
+}
+
+export default function UpdateCountdown({ variant = 'compact' }: UpdateCountdownProps) {
+  const [update, setUpdate] = useState<RosterUpdate | null | undefined>(undefined)
+  const [now, setNow] = useState(() => Date.now())
+
+  useEffect(() => {
+    let cancelled = false
+    loadNextUpdate()
+      .then(u => { if (!cancelled) setUpdate(u) })
+      .catch(err => {
+        console.error('Failed to load roster updates:', err)
+        if (!cancelled) setUpdate(null)
+      })
+    const timer = setInterval(() => setNow(Date.now()), TICK_MS)
+    return () => {
+      cancelled = true
+      clearInterval(timer)
+    }
+  }, [])
+
+  if (update === undefined) return null
+
+  if (!update) {
+    return variant === 'banner'
+      ? <div className={styles.banner}>No roster update scheduled yet</div>
+      : null
+  }
+
+  const label = rosterUpdateLabel(update)
+  const left  = formatCountdown(update.releaseAt - now)
+  const when  = new Date(update.releaseAt).toLocaleString()
+
+  if (variant === 'compact') {
+    return (
+      <span className={styles.compact} title={`${label} roster update: ${when}`}>
+        Next update <strong>{left ?? 'due now'}</strong>
+      </span>
+    )
+  }
+
+  return (
+    <div className={styles.banner}>
+      Predictions target the <strong>{label}</strong> roster update
+      {' · '}
+      <span className={styles.countdown} title={when}>
+        {left ? `drops in ${left}` : 'due now'}
+      </span>
+    </div>
+  )
+}
@@ -0,0 +1,148 @@
+// src/lib/alertRules.ts
+// Alert rule kinds, validation and evaluation shared by the alert API and the player page
+// Pure functions only (no Firebase imports); storage and notification writes live in alerts.ts
+import { valueCard } from '@/lib/valuation'
+import type { FieldErrors, Validated } from '@/lib/apiError'
+
+export type AlertKind = 'price_below' | 'price_above' | 'profit_pct_above' | 'delta_sign_flip'
+
+export const ALERT_KINDS: Record<AlertKind, { label: string; threshold: boolean }> = {
+  price_below:      { label: 'Sell price drops below',      threshold: true  },
+  price_above:      { label: 'Sell price rises above',      threshold: true  },
+  profit_pct_above: { label: 'Predicted profit exceeds (%)', threshold: true  },
+  delta_sign_flip:  { label: 'Predicted Δ flips sign',       threshold: false },
+}
+
+// stored document
+export interface AlertData {
+  cardId:          string
+  playerName:      string
+  kind:            AlertKind
+  threshold:       number | null
+  active:          boolean
+  createdAt:       number
+  met:             boolean         // whether the condition held at the last evaluation
+  lastSign:        -1 | 1 | null   // sign of delta_rank_pred at the last evaluation (0 keeps the old sign)
+  lastTriggeredAt: number | null
+}
+
+export interface Alert extends AlertData {
+  id: string
+}
+
+export interface AlertInput {
+  cardId:    string
+  kind:      AlertKind
+  threshold: number | null
+}
+
+// The card values rules look at, read straight from the card document
+export interface AlertSignals {
+  sell:       number | null
+  profit_pct: number | null
+  delta:      number | null
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100
+
+/**
+ * POST /api/alerts body
+ */
+export function validateAlert(input: unknown): Validated<AlertInput> {
+  const body = input && typeof input === 'object' ? input as Record<string, unknown> : {}
+  const errors: FieldErrors = {}
+
+  const { cardId, kind, threshold } = body
+  if (typeof cardId !== 'string' || !cardId || cardId.includes('/')) errors.cardId = 'Pick a card'
+  if (typeof kind !== 'string' || !Object.hasOwn(ALERT_KINDS, kind)) {
+    errors.kind = `Must be one of ${Object.keys(ALERT_KINDS).join(', ')}`
+  } else if (ALERT_KINDS[kind as AlertKind].threshold &&
+             (typeof threshold !== 'number' || !Number.isFinite(threshold) || threshold < 0)) {
+    errors.threshold = 'Must be a number, 0 or more'
+  }
+
+  if (Object.keys(errors).length > 0) return { ok: false, fields: errors }
+  const k = kind as AlertKind
+  return {
+    ok: true,
+    value: { cardId: cardId as string, kind: k, threshold: ALERT_KINDS[k].threshold ? threshold as number : null },
+  }
+}
+
+// The card document fields alert rules read
+export interface AlertCardDoc {
+  ovr?:          number
+  latestMarket?: { sell?: number | null }
+  latestPrediction?: {
+    predicted_rank:      number
+    predicted_rank_low:  number
+    predicted_rank_high: number
+  } | null
+}
+
+/**
+ * Sell price, predicted profit % and predicted delta from a raw card document
+ */
+export function cardSignals(data: AlertCardDoc): AlertSignals {
+  const sell = typeof data.latestMarket?.sell === 'number' ? data.latestMarket.sell : null
+  const pred = data.latestPrediction
+  if (!pred || typeof data.ovr !== 'number') return { sell, profit_pct: null, delta: null }
+
+  const valuation = valueCard({
+    ovr:                 data.ovr,
+    predicted_rank:      pred.predicted_rank,
+    predicted_rank_low:  pred.predicted_rank_low,
+    predicted_rank_high: pred.predicted_rank_high,
+    market_price:        sell,
+  })
+  return { sell, profit_pct: valuation.predicted_profit_pct, delta: round2(pred.predicted_rank - data.ovr) }
+}
+
+// whether a threshold rule's condition holds (false when the value is unknown)
+function conditionMet(alert: Pick<AlertData, 'kind' | 'threshold'>, s: AlertSignals): boolean {
+  const t = alert.threshold ?? 0
+  switch (alert.kind) {
+    case 'price_below':      return s.sell != null && s.sell < t
+    case 'price_above':      return s.sell != null && s.sell > t
+    case 'profit_pct_above': return s.profit_pct != null && s.profit_pct > t
+    default:                 return false
+  }
+}
+
+/**
+ * Evaluate one rule against fresh signals: the state to store and whether it fires now
+ */
+export function checkAlert(
+  alert: Pick<AlertData, 'kind' | 'threshold' | 'met' | 'lastSign'>,
+  s:     AlertSignals
+): { met: boolean; lastSign: -1 | 1 | null; fired: boolean } {
+  if (alert.kind === 'delta_sign_flip') {
+    const sign = s.delta == null || s.delta === 0 ? alert.lastSign : s.delta > 0 ? 1 : -1
+    const fired = alert.lastSign != null && sign != null && sign !== alert.lastSign
+    return { met: false, lastSign: sign, fired }
+  }
+  const met = conditionMet(alert, s)
+  return { met, lastSign: alert.lastSign, fired: met && !alert.met }
+}
+
+/**
+ * Notification text for a rule that just fired
+ */
+export function alertMessage(alert: Pick<AlertData, 'kind' | 'threshold' | 'playerName'>, s: AlertSignals) {
+  const t = (alert.threshold ?? 0).toLocaleString()
+  switch (alert.kind) {
+    case 'price_below':
+      return { title: `${alert.playerName} below ${t}`, body: `Sell price is now ${s.sell?.toLocaleString()} stubs` }
+    case 'price_above':
+      return { title: `${alert.playerName} above ${t}`, body: `Sell price is now ${s.sell?.toLocaleString()} stubs` }
+    case 'profit_pct_above':
+      return { title: `${alert.playerName} profit over ${t}%`, body: `Predicted profit is now ${s.profit_pct}%` }
+    case 'delta_sign_flip': {
+      const d = s.delta ?? 0
+      return {
+        title: `${alert.playerName} prediction flipped`,
+        body:  `Predicted Δ is now ${d > 0 ? '+' : ''}${d} (${d > 0 ? 'upgrade' : 'downgrade'} expected)`,
+      }
+    }
+  }
+}
@@ -0,0 +1,159 @@
+// src/lib/alerts.ts
+// Price and prediction alert rules (users/{uid}/alerts) and their server-side evaluation
+// Rules are edge-triggered: one notification when the condition starts to hold, then nothing
+// until it stops holding and holds again. They're evaluated after every market snapshot and by
+// the /api/alerts/evaluate job once the prediction pipeline has refreshed latestPrediction
+import { firestore } from '@/lib/firebaseAdmin'
+import { queueNotification } from '@/lib/notifications'
+import {
+  alertMessage,
+  cardSignals,
+  checkAlert,
+  type Alert,
+  type AlertData,
+  type AlertInput,
+  type AlertSignals
+} from '@/lib/alertRules'
+import { ApiError } from '@/lib/apiError'
+
+export class AlertError extends ApiError {
+  constructor(message: string, status: number) {
+    super(message, status)
+    this.name = 'AlertError'
+  }
+}
+
+export const MAX_ALERTS = 50
+
+const alertsRef = (uid: string) =>
+  firestore.collection('users').doc(uid).collection('alerts')
+
+function notify(
+  batch: ReturnType<typeof firestore.batch>,
+  uid:   string,
+  alertId: string,
+  alert: AlertData,
+  s:     AlertSignals,
+  now:   number
+) {
+  queueNotification(batch, uid, {
+    type:    'alert',
+    ...alertMessage(alert, s),
+    link:    `/player/${alert.cardId}`,
+    cardId:  alert.cardId,
+    alertId,
+  }, now)
+}
+
+/**
+ * A user's rules, newest first, optionally for one card
+ */
+export async function loadAlerts(uid: string, cardId?: string): Promise<Alert[]> {
+  const snap = await alertsRef(uid).orderBy('createdAt', 'desc').get()
+  return snap.docs
+    .map(d => ({ id: d.id, ...d.data() } as Alert))
+    .filter(a => !cardId || a.cardId === cardId)
+}
+
+/**
+ * Create a rule. Threshold rules that already hold fire straight away;
+ * sign-flip rules take the current sign as their baseline
+ */
+export async function createAlert(uid: string, input: AlertInput): Promise<Alert> {
+  const [card, count] = await Promise.all([
+    firestore.collection('cards').doc(input.cardId).get(),
+    alertsRef(uid).count().get(),
+  ])
+  if (!card.exists) throw new AlertError('Card not found', 404)
+  if (count.data().count >= MAX_ALERTS) {
+    throw new AlertError(`At most ${MAX_ALERTS} alerts per user`, 409)
+  }
+
+  const now = Date.now()
+  const signals = cardSignals(card.data() ?? {})
+  const sign = signals.delta == null || signals.delta === 0 ? null : signals.delta > 0 ? 1 : -1
+  const state = checkAlert({ ...input, met: false, lastSign: sign }, signals)
+
+  const alert: AlertData = {
+    cardId:          input.cardId,
+    playerName:      card.get('name') ?? input.cardId,
+    kind:            input.kind,
+    threshold:       input.threshold,
+    active:          true,
+    createdAt:       now,
+    met:             state.met,
+    lastSign:        state.lastSign,
+    lastTriggeredAt: state.fired ? now : null,
+  }
+
+  const ref = alertsRef(uid).doc()
+  const batch = firestore.batch()
+  batch.set(ref, alert)
+  if (state.fired) notify(batch, uid, ref.id, alert, signals, now)
+  await batch.commit()
+
+  return { id: ref.id, ...alert }
+}
+
+/**
+ * Delete a rule; its past notifications stay in the feed
+ */
+export async function deleteAlert(uid: string, alertId: string): Promise<void> {
+  const ref = alertsRef(uid).doc(alertId)
+  if (!(await ref.get()).exists) throw new AlertError('Alert not found', 404)
+  await ref.delete()
+}
+
+/**
+ * Evaluate every active rule on one card against its current document; returns how many fired
+ */
+export async function evaluateCardAlerts(cardId: string): Promise<number> {
+  const [card, snap] = await Promise.all([
+    firestore.collection('cards').doc(cardId).get(),
+    firestore.collectionGroup('alerts').where('cardId', '==', cardId).get(),
+  ])
+  if (!card.exists || snap.empty) return 0
+
+  const signals = cardSignals(card.data() ?? {})
+  const now = Date.now()
+  let fired = 0
+
+  const docs = snap.docs.filter(d => d.get('active') === true)
+  // each rule writes its state and at most one notification; stay under the 500-write batch limit
+  for (let i = 0; i < docs.length; i += 250) {
+    const batch = firestore.batch()
+    let writes = 0
+    for (const d of docs.slice(i, i + 250)) {
+      const alert = d.data() as AlertData
+      const state = checkAlert(alert, signals)
+      if (!state.fired && state.met === alert.met && state.lastSign === alert.lastSign) continue
+
+      batch.update(d.ref, {
+        met:      state.met,
+        lastSign: state.lastSign,
+        ...(state.fired ? { lastTriggeredAt: now } : {}),
+      })
+      writes++
+      if (state.fired) {
+        notify(batch, d.ref.parent.parent!.id, d.id, alert, signals, now)
+        fired++
+      }
+    }
+    if (writes > 0) await batch.commit()
+  }
+  return fired
+}
+
+/**
+ * Evaluate every card that has at least one active rule; returns how many rules fired
+ */
+export async function evaluateAllAlerts(): Promise<{ cards: number; fired: number }> {
+  const snap = await firestore.collectionGroup('alerts').where('active', '==', true).select('cardId').get()
+  const cardIds = [...new Set(snap.docs.map(d => d.get('cardId') as string))]
+
+  let fired = 0
+  for (const cardId of cardIds) {
+    fired += await evaluateCardAlerts(cardId)
+  }
+  return { cards: cardIds.length, fired }
+}
@@ -0,0 +1,66 @@
+// src/lib/apiError.ts
+// Errors API routes answer with, as the JSON envelope { error, code, requestId, ...details }
+// Pure (no Next or Firebase imports): the domain errors in ledger.ts, reports.ts etc. extend ApiError,
+// and withAuth.ts turns any ApiError a handler throws into the response
+// Also home to the field-level validation types every validator (investments, roles, reports...) returns
+
+// field name → message, returned as `fields` in 400 responses
+export type FieldErrors = Record<string, string>
+
+export type Validated<T> = { ok: true; value: T } | { ok: false; fields: FieldErrors }
+
+export type ErrorCode =
+  | 'bad_request'        // 400, including unreadable JSON
+  | 'invalid_fields'     // 400 with `fields`: field name → message
+  | 'unauthenticated'    // 401: missing or invalid ID token (or cron secret)
+  | 'forbidden'          // 403: signed in, but lacks the role or isn't the owner
+  | 'not_found'          // 404
+  | 'conflict'           // 409
+  | 'rate_limited'       // 429
+  | 'internal'           // 500: logged with the request id
+
+const STATUS_CODES: Record<number, ErrorCode> = {
+  400: 'bad_request',
+  401: 'unauthenticated',
+  403: 'forbidden',
+  404: 'not_found',
+  409: 'conflict',
+  429: 'rate_limited',
+}
+
+export function codeForStatus(status: number): ErrorCode {
+  return STATUS_CODES[status] ?? (status >= 500 ? 'internal' : 'bad_request')
+}
+
+/**
+ * An error with the HTTP status (and optional extra envelope fields) to answer with
+ */
+export class ApiError extends Error {
+  constructor(
+    message:        string,
+    public status:  number,
+    public code:    ErrorCode = codeForStatus(status),
+    public details: Record<string, unknown> = {}
+  ) {
+    super(message)
+    this.name = 'ApiError'
+  }
+}
+
+/**
+ * 400 `{ error, code: 'invalid_fields', fields }` for a failed validation
+ */
+export function fieldsError(message: string, fields: FieldErrors, status = 400): ApiError {
+  return new ApiError(message, status, status === 400 ? 'invalid_fields' : codeForStatus(status), { fields })
+}
+
+/**
+ * The request body as parsed JSON, or a 400 when it isn't JSON
+ */
+export async function readJson(request: Request): Promise<unknown> {
+  try {
+    return await request.json()
+  } catch {
+    throw new ApiError('Request body must be JSON', 400)
+  }
+}
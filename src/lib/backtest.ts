@@ -0,0 +1,240 @@
+// src/lib/backtest.ts
+// Roster-update backtest: joins each card's frozen pre-update prediction snapshot with the OVR
+// it received, then scores direction, delta error, interval coverage and QS profit
+// Reports live in backtests/{update} with one row per card under backtests/{update}/cards
+import { firestore } from '@/lib/firebaseAdmin'
+import { evaluatePrediction, snapshotDate, type PredictionSnapshot } from '@/lib/predictionHistory'
+import { confidencePercentage, qsValue, valueCard } from '@/lib/valuation'
+
+export interface BacktestRow {
+  cardId:                string
+  is_hitter:             boolean
+  ovr_before:            number
+  ovr_after:             number
+  predicted_rank:        number
+  predicted_rank_low:    number
+  predicted_rank_high:   number
+  interval_width:        number
+  confidence_percentage: number
+  delta_rank_pred:       number
+  delta_rank_actual:     number
+  delta_error:           number
+  direction_hit:         boolean
+  within_interval:       boolean
+  market_price:          number
+  predicted_profit:      number
+  realized_profit:       number
+}
+
+// Hit rate / coverage for one slice of the rows
+export interface BacktestBand {
+  label:              string
+  cards:              number
+  direction_hit_rate: number | null
+  interval_coverage:  number | null
+  delta_mae:          number | null
+}
+
+export interface BacktestSummary {
+  cards:              number
+  direction_hit_rate: number | null
+  delta_mae:          number | null
+  interval_coverage:  number | null
+  profit: {
+    predicted_total:      number
+    realized_total:       number
+    predicted_mean:       number | null
+    realized_mean:        number | null
+    predicted_profitable: number
+    realized_profitable:  number
+  }
+  by_confidence: BacktestBand[]
+}
+
+export interface BacktestReport extends BacktestSummary {
+  update:      string
+  frozen:      string
+  generatedAt: number
+}
+
+const DAY_MS      = 24 * 60 * 60 * 1000
+const BATCH_LIMIT = 500
+
+// confidence_percentage bands the team reads the report by
+const CONFIDENCE_BANDS: [string, number, number][] = [
+  ['0-49%',   0,  50],
+  ['50-69%',  50, 70],
+  ['70-84%',  70, 85],
+  ['85-100%', 85, 101],
+]
+
+const round2 = (n: number) => Math.round(n * 100) / 100
+const rate   = (hits: number, n: number) => n ? round2((hits / n) * 100) : null
+
+// default freeze date: the last daily snapshot before the update day
+export const dayBefore = (date: string) => snapshotDate(new Date(Date.parse(date) - DAY_MS))
+
+/**
+ * Score one frozen snapshot against the card's post-update OVR
+ */
+export function buildBacktestRow(
+  cardId: string,
+  snap: PredictionSnapshot,
+  ovrAfter: number,
+  isHitter: boolean
+): BacktestRow {
+  const { error, within_interval, direction_hit } = evaluatePrediction(snap, snap.ovr, ovrAfter)
+  const valuation = valueCard({
+    ovr:                 snap.ovr,
+    predicted_rank:      snap.predicted_rank,
+    predicted_rank_low:  snap.predicted_rank_low,
+    predicted_rank_high: snap.predicted_rank_high,
+    market_price:        snap.market_price,
+  })
+
+  return {
+    cardId,
+    is_hitter:             isHitter,
+    ovr_before:            snap.ovr,
+    ovr_after:             ovrAfter,
+    predicted_rank:        snap.predicted_rank,
+    predicted_rank_low:    snap.predicted_rank_low,
+    predicted_rank_high:   snap.predicted_rank_high,
+    interval_width:        round2(snap.predicted_rank_high - snap.predicted_rank_low),
+    confidence_percentage: confidencePercentage(snap.predicted_rank_low, snap.predicted_rank_high),
+    delta_rank_pred:       round2(snap.predicted_rank - snap.ovr),
+    delta_rank_actual:     ovrAfter - snap.ovr,
+    delta_error:           error,
+    direction_hit,
+    within_interval,
+    market_price:          valuation.market_price,
+    predicted_profit:      valuation.predicted_profit,
+    realized_profit:       qsValue(ovrAfter) - valuation.market_price,
+  }
+}
+
+function summarizeBand(label: string, rows: BacktestRow[]): BacktestBand {
+  const n = rows.length
+  return {
+    label,
+    cards:              n,
+    direction_hit_rate: rate(rows.filter(r => r.direction_hit).length, n),
+    interval_coverage:  rate(rows.filter(r => r.within_interval).length, n),
+    delta_mae:          n ? round2(rows.reduce((a, r) => a + Math.abs(r.delta_error), 0) / n) : null,
+  }
+}
+
+/**
+ * Aggregate rows into the headline numbers plus a per-confidence-band breakdown
+ */
+export function summarizeBacktest(rows: BacktestRow[]): BacktestSummary {
+  const n = rows.length
+  const all = summarizeBand('all', rows)
+  const predictedTotal = rows.reduce((a, r) => a + r.predicted_profit, 0)
+  const realizedTotal  = rows.reduce((a, r) => a + r.realized_profit, 0)
+
+  return {
+    cards:              n,
+    direction_hit_rate: all.direction_hit_rate,
+    delta_mae:          all.delta_mae,
+    interval_coverage:  all.interval_coverage,
+    profit: {
+      predicted_total:      predictedTotal,
+      realized_total:       realizedTotal,
+      predicted_mean:       n ? round2(predictedTotal / n) : null,
+      realized_mean:        n ? round2(realizedTotal / n) : null,
+      predicted_profitable: rows.filter(r => r.predicted_profit > 0).length,
+      realized_profitable:  rows.filter(r => r.realized_profit > 0).length,
+    },
+    by_confidence: CONFIDENCE_BANDS.map(([label, lo, hi]) =>
+      summarizeBand(label, rows.filter(r =>
+        r.confidence_percentage >= lo && r.confidence_percentage < hi
+      ))
+    ),
+  }
+}
+
+/**
+ * Run the backtest for a roster update and persist the report and its rows
+ * Post-update OVR is read from the card documents, so run it once the update has landed
+ */
+export async function runBacktest(update: string, frozen: string = dayBefore(update)): Promise<BacktestReport> {
+  const snaps = await firestore
+    .collectionGroup('predictions')
+    .where('date', '==', frozen)
+    .get()
+
+  // parent of cards/{cardId}/predictions/{date} is the card document
+  const frozenByCard = new Map<string, PredictionSnapshot>()
+  snaps.docs.forEach(d => {
+    const cardRef = d.ref.parent.parent
+    if (!cardRef || cardRef.parent.id !== 'cards') return
+    const data = d.data()
+    frozenByCard.set(cardRef.id, {
+      date:                frozen,
+      ovr:                 Number(data.ovr) || 0,
+      predicted_rank:      Number(data.predicted_rank),
+      predicted_rank_low:  Number(data.predicted_rank_low),
+      predicted_rank_high: Number(data.predicted_rank_high),
+      market_price:        typeof data.market_price === 'number' ? data.market_price : null,
+    })
+  })
+
+  const cardIds = Array.from(frozenByCard.keys())
+  const rows: BacktestRow[] = []
+  for (let i = 0; i < cardIds.length; i += BATCH_LIMIT) {
+    const refs = cardIds.slice(i, i + BATCH_LIMIT).map(id => firestore.collection('cards').doc(id))
+    const docs = await firestore.getAll(...refs, { fieldMask: ['ovr', 'is_hitter'] })
+    docs.forEach(doc => {
+      if (!doc.exists) return
+      const data = doc.data()!
+      const snap = frozenByCard.get(doc.id)!
+      if (Number.isNaN(snap.predicted_rank)) return
+      const isHitter = data.is_hitter === true || data.is_hitter === 'true' || data.is_hitter === 'True'
+      rows.push(buildBacktestRow(doc.id, snap, Number(data.ovr) || 0, isHitter))
+    })
+  }
+
+  const report: BacktestReport = {
+    update,
+    frozen,
+    generatedAt: Date.now(),
+    ...summarizeBacktest(rows),
+  }
+
+  const reportRef = firestore.collection('backtests').doc(update)
+  await reportRef.set(report)
+  for (let i = 0; i < rows.length; i += BATCH_LIMIT) {
+    const batch = firestore.batch()
+    rows.slice(i, i + BATCH_LIMIT).forEach(r => batch.set(reportRef.collection('cards').doc(r.cardId), r))
+    await batch.commit()
+  }
+
+  return report
+}
+
+/**
+ * Load a stored report, or null when the update has not been backtested
+ */
+export async function loadBacktest(update: string): Promise<BacktestReport | null> {
+  const doc = await firestore.collection('backtests').doc(update).get()
+  return doc.exists ? (doc.data() as BacktestReport) : null
+}
+
+/**
+ * Load the per-card rows behind one or more stored reports
+ */
+export async function loadBacktestRows(updates: string[]): Promise<BacktestRow[]> {
+  const snaps = await Promise.all(
+    updates.map(u => firestore.collection('backtests').doc(u).collection('cards').get())
+  )
+  return snaps.flatMap(s => s.docs.map(d => d.data() as BacktestRow))
+}
+
+/**
+ * Dates (YYYY-MM-DD) of every backtested roster update, oldest first
+ */
+export async function loadUpdateDates(): Promise<string[]> {
+  const snap = await firestore.collection('backtests').select().get()
+  return snap.docs.map(d => d.id).sort()
+}
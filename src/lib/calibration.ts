@@ -0,0 +1,148 @@
+// src/lib/calibration.ts
+// Calibrated confidence: empirical interval coverage per width band, OVR tier and hitter/pitcher,
+// built from stored backtest rows and kept in modelCalibration/current
+// Lookups fall back to the width-only band, then to the linear heuristic, when samples are thin
+import { firestore } from '@/lib/firebaseAdmin'
+import { loadBacktestRows, type BacktestRow } from '@/lib/backtest'
+import { confidencePercentage } from '@/lib/valuation'
+
+// Coverage observed for one cell: `covered` of `n` realized OVRs landed inside the interval
+export interface CalibrationCell {
+  n:        number
+  covered:  number
+  coverage: number
+}
+
+export interface CalibrationTable {
+  generatedAt: number
+  updates:     string[]
+  minSamples:  number
+  cells:       Record<string, CalibrationCell>
+  widthCells:  Record<string, CalibrationCell>
+}
+
+// [label, lower bound inclusive, upper bound exclusive] of predicted_rank_high - predicted_rank_low
+export const WIDTH_BANDS: [string, number, number][] = [
+  ['0-1', 0, 1],
+  ['1-2', 1, 2],
+  ['2-3', 2, 3],
+  ['3-5', 3, 5],
+  ['5+',  5, Infinity],
+]
+
+// OVR tiers follow the card rarity cut-offs
+export const OVR_TIERS: [string, number, number][] = [
+  ['common',  0,  65],
+  ['bronze',  65, 75],
+  ['silver',  75, 80],
+  ['gold',    80, 85],
+  ['diamond', 85, Infinity],
+]
+
+// cells with fewer realized outcomes than this are not trusted on their own
+export const MIN_SAMPLES = 20
+
+// how many of the most recent backtests feed a refresh by default
+const DEFAULT_UPDATES = 5
+
+// cached table for API routes; refreshed at most every few minutes per server instance
+const CACHE_MS = 5 * 60 * 1000
+let cached: { table: CalibrationTable | null; at: number } | null = null
+
+const bandOf = (bands: [string, number, number][], v: number) =>
+  (bands.find(([, lo, hi]) => v >= lo && v < hi) ?? bands[bands.length - 1])[0]
+
+export const widthBand = (width: number) => bandOf(WIDTH_BANDS, Math.max(0, width))
+export const ovrTier   = (ovr: number)   => bandOf(OVR_TIERS, ovr)
+export const cellKey   = (width: number, ovr: number, isHitter: boolean) =>
+  `${widthBand(width)}|${ovrTier(ovr)}|${isHitter ? 'hitter' : 'pitcher'}`
+
+const round1 = (n: number) => Math.round(n * 10) / 10
+
+function addTo(map: Record<string, CalibrationCell>, key: string, covered: boolean) {
+  const cell = map[key] ?? { n: 0, covered: 0, coverage: 0 }
+  cell.n++
+  if (covered) cell.covered++
+  cell.coverage = round1((cell.covered / cell.n) * 100)
+  map[key] = cell
+}
+
+/**
+ * Build a calibration table from backtest rows
+ */
+export function buildCalibration(
+  rows: BacktestRow[],
+  updates: string[],
+  minSamples: number = MIN_SAMPLES
+): CalibrationTable {
+  const cells: Record<string, CalibrationCell> = {}
+  const widthCells: Record<string, CalibrationCell> = {}
+
+  rows.forEach(r => {
+    addTo(cells, cellKey(r.interval_width, r.ovr_before, r.is_hitter), r.within_interval)
+    addTo(widthCells, widthBand(r.interval_width), r.within_interval)
+  })
+
+  return { generatedAt: Date.now(), updates, minSamples, cells, widthCells }
+}
+
+/**
+ * Confidence (0-100) that the realized OVR lands inside [low, high]
+ * Uses the most specific cell with enough samples, else the linear heuristic
+ */
+export function calibratedConfidence(
+  low: number,
+  high: number,
+  ovr: number,
+  isHitter: boolean,
+  table: CalibrationTable | null
+): number {
+  if (table) {
+    const width = high - low
+    const cell = table.cells[cellKey(width, ovr, isHitter)]
+    if (cell && cell.n >= table.minSamples) return cell.coverage
+    const band = table.widthCells[widthBand(width)]
+    if (band && band.n >= table.minSamples) return band.coverage
+  }
+  return round1(confidencePercentage(low, high))
+}
+
+/**
+ * Current calibration table (cached), or null before the first refresh
+ */
+export async function loadCalibration(): Promise<CalibrationTable | null> {
+  if (cached && Date.now() - cached.at < CACHE_MS) return cached.table
+  try {
+    const doc = await firestore.collection('modelCalibration').doc('current').get()
+    const table = doc.exists ? (doc.data() as CalibrationTable) : null
+    cached = { table, at: Date.now() }
+    return table
+  } catch (error) {
+    // confidence degrades to the heuristic rather than failing the card routes
+    console.error('Error loading calibration table:', error)
+    return null
+  }
+}
+
+/**
+ * Rebuild the table from the given backtests (default: the most recent few) and store it
+ */
+export async function refreshCalibration(updates?: string[]): Promise<CalibrationTable> {
+  let source = updates
+  if (!source?.length) {
+    const snap = await firestore
+      .collection('backtests')
+      .orderBy('update', 'desc')
+      .limit(DEFAULT_UPDATES)
+      .select('update')
+      .get()
+    source = snap.docs.map(d => String(d.data().update))
+  }
+
+  const rows  = await loadBacktestRows(source)
+  const table = buildCalibration(rows, source)
+
+  await firestore.collection('modelCalibration').doc('current').set(table)
+  cached = { table, at: Date.now() }
+  return table
+}
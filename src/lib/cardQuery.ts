@@ -0,0 +1,248 @@
+// src/lib/cardQuery.ts
+// Filtering, sorting and paging for card lists, driven by the same state the predictions page
+// keeps in its URL (rarity, type, search, filters, sort, page). Pure so it runs on the server or client
+
+export type RarityFilter = 'all' | 'common' | 'bronze' | 'silver' | 'gold' | 'diamond'
+export type TypeFilter   = 'all' | 'hitters' | 'pitchers'
+
+// Column filter operators: numeric comparisons, or membership in a set of text values
+export type FilterOp    = 'gte' | 'lte' | 'eq' | 'between' | 'in'
+export type FilterMatch = 'and' | 'or'
+
+// One condition on a card column; `between` reads values[0]..values[1], `in` reads every value
+export interface FilterCondition {
+  key:    string
+  op:     FilterOp
+  values: string[]
+}
+
+export interface CardQuery {
+  rarity:    RarityFilter
+  type:      TypeFilter
+  search:    string
+  filters:   FilterCondition[]
+  match:     FilterMatch
+  sortKey:   string | null
+  sortDesc:  boolean
+  pageSize:  number
+  pageIndex: number
+}
+
+// Paged response envelope
+export interface CardPage<T> {
+  items:     T[]
+  total:     number
+  pageIndex: number
+  pageSize:  number
+  pageCount: number
+}
+
+// Minimal shape a card needs for filtering
+export interface QueryableCard {
+  name?:      string
+  rarity?:    string
+  is_hitter?: boolean | string
+}
+
+export const RARITIES: RarityFilter[] = ['all', 'common', 'bronze', 'silver', 'gold', 'diamond']
+export const TYPES: TypeFilter[]      = ['all', 'hitters', 'pitchers']
+export const FILTER_OPS: FilterOp[]   = ['gte', 'lte', 'eq', 'between', 'in']
+
+export const DEFAULT_PAGE_SIZE = 25
+export const MAX_PAGE_SIZE     = 100
+
+// the query params this module understands; their absence means "no query"
+export const CARD_QUERY_PARAMS = ['rarity', 'type', 'search', 'filters', 'match', 'sortKey', 'sortDesc', 'pageSize', 'pageIndex']
+
+export const DEFAULT_CARD_QUERY: CardQuery = {
+  rarity:    'all',
+  type:      'all',
+  search:    '',
+  filters:   [],
+  match:     'and',
+  sortKey:   null,
+  sortDesc:  false,
+  pageSize:  DEFAULT_PAGE_SIZE,
+  pageIndex: 0,
+}
+
+/**
+ * Encode conditions as `key:op:v1|v2` joined by commas, the way the predictions page encodes columns
+ * Each part is URI-encoded so team names and other values can't break the separators
+ */
+export function encodeFilters(filters: FilterCondition[]): string {
+  return filters
+    .map(f => `${encodeURIComponent(f.key)}:${f.op}:${f.values.map(encodeURIComponent).join('|')}`)
+    .join(',')
+}
+
+/**
+ * Decode the output of encodeFilters, dropping malformed conditions
+ */
+export function decodeFilters(str: string): FilterCondition[] {
+  if (!str) return []
+  const out: FilterCondition[] = []
+  str.split(',').forEach(part => {
+    const [key, op, values = ''] = part.split(':')
+    if (!key || !FILTER_OPS.includes(op as FilterOp)) return
+    try {
+      out.push({
+        key:    decodeURIComponent(key),
+        op:     op as FilterOp,
+        values: values ? values.split('|').map(decodeURIComponent) : [],
+      })
+    } catch {
+      // malformed escape sequence: skip the condition
+    }
+  })
+  return out
+}
+
+const toNumber = (v: string | undefined) =>
+  v != null && v.trim() !== '' ? Number(v) : NaN
+
+/**
+ * True when a condition has every value its operator needs; incomplete conditions are ignored
+ */
+export function isCompleteCondition(f: FilterCondition): boolean {
+  switch (f.op) {
+    case 'between': return Number.isFinite(toNumber(f.values[0])) && Number.isFinite(toNumber(f.values[1]))
+    case 'in':      return f.values.some(v => v.trim() !== '')
+    default:        return Number.isFinite(toNumber(f.values[0]))
+  }
+}
+
+function matchesCondition(card: QueryableCard, f: FilterCondition): boolean {
+  const raw = (card as Record<string, unknown>)[f.key]
+  if (raw == null || raw === '') return false
+
+  if (f.op === 'in') {
+    const value = String(raw).toLowerCase()
+    return f.values.some(v => v.trim().toLowerCase() === value)
+  }
+
+  const n = typeof raw === 'number' ? raw : Number(raw)
+  if (isNaN(n)) return false
+  const a = toNumber(f.values[0])
+  switch (f.op) {
+    case 'gte':     return n >= a
+    case 'lte':     return n <= a
+    case 'eq':      return n === a
+    case 'between': {
+      const b = toNumber(f.values[1])
+      return n >= Math.min(a, b) && n <= Math.max(a, b)
+    }
+  }
+}
+
+/**
+ * Apply the complete conditions, all of them (`and`) or any of them (`or`)
+ */
+export function matchesFilters(card: QueryableCard, filters: FilterCondition[], match: FilterMatch): boolean {
+  const active = filters.filter(isCompleteCondition)
+  if (active.length === 0) return true
+  return match === 'or'
+    ? active.some(f => matchesCondition(card, f))
+    : active.every(f => matchesCondition(card, f))
+}
+
+/**
+ * True when any card query parameter is present
+ */
+export function hasCardQuery(params: URLSearchParams): boolean {
+  return CARD_QUERY_PARAMS.some(k => params.has(k))
+}
+
+/**
+ * Read a CardQuery from URL params, falling back to defaults for missing or invalid values
+ */
+export function parseCardQuery(params: URLSearchParams): CardQuery {
+  const rarity = (params.get('rarity') || 'all').toLowerCase() as RarityFilter
+  const type   = (params.get('type') || 'all').toLowerCase() as TypeFilter
+  const size   = parseInt(params.get('pageSize') || '', 10)
+  const index  = parseInt(params.get('pageIndex') || '', 10)
+
+  return {
+    rarity:    RARITIES.includes(rarity) ? rarity : 'all',
+    type:      TYPES.includes(type) ? type : 'all',
+    search:    params.get('search')?.trim() || '',
+    filters:   decodeFilters(params.get('filters') || ''),
+    match:     params.get('match') === 'or' ? 'or' : 'and',
+    sortKey:   params.get('sortKey') || null,
+    sortDesc:  params.get('sortDesc') === 'true',
+    pageSize:  size > 0 ? Math.min(size, MAX_PAGE_SIZE) : DEFAULT_PAGE_SIZE,
+    pageIndex: index > 0 ? index : 0,
+  }
+}
+
+/**
+ * Write a CardQuery into URL params, omitting defaults
+ */
+export function cardQueryToParams(query: CardQuery, params = new URLSearchParams()): URLSearchParams {
+  const filters = query.filters.filter(isCompleteCondition)
+  if (query.rarity !== 'all')                params.set('rarity', query.rarity)
+  if (query.type !== 'all')                  params.set('type', query.type)
+  if (query.search)                          params.set('search', query.search)
+  if (filters.length > 0)                    params.set('filters', encodeFilters(filters))
+  if (query.match === 'or')                  params.set('match', 'or')
+  if (query.sortKey)                         params.set('sortKey', query.sortKey)
+  if (query.sortDesc)                        params.set('sortDesc', 'true')
+  if (query.pageSize !== DEFAULT_PAGE_SIZE)  params.set('pageSize', String(query.pageSize))
+  if (query.pageIndex !== 0)                 params.set('pageIndex', String(query.pageIndex))
+  return params
+}
+
+const isHitter = (c: QueryableCard) =>
+  c.is_hitter === true || c.is_hitter === 'true' || c.is_hitter === 'True'
+
+/**
+ * Apply rarity, hitter/pitcher, name search and column filters
+ */
+export function filterCards<T extends QueryableCard>(cards: T[], query: CardQuery): T[] {
+  const search = query.search.toLowerCase()
+  return cards
+    .filter(c => query.rarity === 'all' || (c.rarity ?? '').toLowerCase() === query.rarity)
+    .filter(c =>
+      query.type === 'all' ||
+      (query.type === 'hitters'  && isHitter(c)) ||
+      (query.type === 'pitchers' && !isHitter(c))
+    )
+    .filter(c => (c.name ?? '').toLowerCase().includes(search))
+    .filter(c => matchesFilters(c, query.filters, query.match))
+}
+
+/**
+ * Sort by a column: numerically when both values are numbers, otherwise as text
+ * Missing values always sort last
+ */
+export function sortCards<T extends QueryableCard>(cards: T[], sortKey: string | null, sortDesc: boolean): T[] {
+  if (!sortKey) return cards
+  return [...cards].sort((a, b) => {
+    const aRaw = (a as Record<string, unknown>)[sortKey]
+    const bRaw = (b as Record<string, unknown>)[sortKey]
+    if (aRaw == null || aRaw === '') return bRaw == null || bRaw === '' ? 0 : 1
+    if (bRaw == null || bRaw === '') return -1
+
+    const aNum = typeof aRaw === 'number' ? aRaw : Number(aRaw)
+    const bNum = typeof bRaw === 'number' ? bRaw : Number(bRaw)
+    const cmp = !isNaN(aNum) && !isNaN(bNum)
+      ? aNum - bNum
+      : String(aRaw).localeCompare(String(bRaw))
+    return sortDesc ? -cmp : cmp
+  })
+}
+
+/**
+ * Filter, sort and slice out one page
+ */
+export function queryCards<T extends QueryableCard>(cards: T[], query: CardQuery): CardPage<T> {
+  const sorted = sortCards(filterCards(cards, query), query.sortKey, query.sortDesc)
+  const start  = query.pageIndex * query.pageSize
+  return {
+    items:     sorted.slice(start, start + query.pageSize),
+    total:     sorted.length,
+    pageIndex: query.pageIndex,
+    pageSize:  query.pageSize,
+    pageCount: Math.ceil(sorted.length / query.pageSize),
+  }
+}
@@ -0,0 +1,13 @@
+// src/lib/cronAuth.ts
+// Shared-secret check for server-side jobs (snapshots, reports) that call write-only API routes
+// Jobs send `Authorization: Bearer <CRON_SECRET>`; requests are rejected when the secret is unset
+
+/**
+ * True when the request carries the configured CRON_SECRET as a bearer token
+ */
+export function isCronRequest(request: Request): boolean {
+  const secret = process.env.CRON_SECRET
+  if (!secret) return false
+  const authHeader = request.headers.get('authorization') || ''
+  return authHeader === `Bearer ${secret}`
+}
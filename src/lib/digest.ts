@@ -0,0 +1,176 @@
+// src/lib/digest.ts
+// Daily/weekly email digest: the user's holdings, watched cards and the largest predicted movers,
+// built from the same data as /api/cards/live and the investments collection
+// Users opt in per frequency through `digests` on their users/{uid} document
+import admin from 'firebase-admin'
+import { firestore } from '@/lib/firebaseAdmin'
+import { loadLiveCards, type CardPayload } from '@/lib/liveCards'
+import { loadPortfolio, type PortfolioHolding, type PortfolioTotals } from '@/lib/portfolio'
+import { loadWatchlist, type WatchlistItem } from '@/lib/watchlist'
+import { getMailTransport, type MailMessage, type MailTransport } from '@/lib/mail'
+
+export type DigestFrequency = 'daily' | 'weekly'
+
+export const DIGEST_FREQUENCIES: DigestFrequency[] = ['daily', 'weekly']
+
+// users/{uid}.digests; missing means opted out
+export type DigestPrefs = Record<DigestFrequency, boolean>
+
+// a digest isn't re-sent inside this window, so a retried job doesn't mail twice
+const RESEND_AFTER_MS: Record<DigestFrequency, number> = {
+  daily:  20 * 60 * 60 * 1000,
+  weekly:  6 * 24 * 60 * 60 * 1000,
+}
+
+const TOP_HOLDINGS = 5
+const TOP_MOVERS   = 5
+
+export interface Digest {
+  frequency: DigestFrequency
+  username:  string
+  totals:    PortfolioTotals | null
+  holdings:  PortfolioHolding[]   // largest unrealized P&L moves first
+  watchlist: WatchlistItem[]
+  movers: {
+    up:   CardPayload[]
+    down: CardPayload[]
+  }
+}
+
+/**
+ * Largest predicted upgrades and downgrades by delta_rank_pred
+ */
+export function predictedMovers(cards: CardPayload[], limit = TOP_MOVERS) {
+  const byDelta = [...cards].sort((a, b) => b.delta_rank_pred - a.delta_rank_pred)
+  return {
+    up:   byDelta.filter(c => c.delta_rank_pred > 0).slice(0, limit),
+    down: byDelta.filter(c => c.delta_rank_pred < 0).reverse().slice(0, limit),
+  }
+}
+
+/**
+ * Gather one user's digest
+ */
+export async function buildDigest(uid: string, username: string, frequency: DigestFrequency): Promise<Digest> {
+  const [portfolio, watchlist, cards] = await Promise.all([
+    loadPortfolio(uid),
+    loadWatchlist(uid),
+    loadLiveCards(),
+  ])
+  return {
+    frequency,
+    username,
+    totals:   portfolio.holdings.length > 0 ? portfolio.totals : null,
+    holdings: [...portfolio.holdings]
+      .sort((a, b) => Math.abs(b.unrealized_pl) - Math.abs(a.unrealized_pl))
+      .slice(0, TOP_HOLDINGS),
+    watchlist,
+    movers: predictedMovers(cards),
+  }
+}
+
+const stubs  = (n: number) => `${Math.round(n).toLocaleString('en-US')} stubs`
+const signed = (n: number, unit = '') => `${n >= 0 ? '+' : ''}${n.toLocaleString('en-US')}${unit}`
+const escapeHtml = (s: string) =>
+  s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+
+/**
+ * Subject, plain-text and HTML bodies for a digest; `siteUrl` makes the links absolute
+ */
+export function renderDigest(d: Digest, siteUrl: string): Omit<MailMessage, 'to'> {
+  const title = `Your ${d.frequency} DiamondInsights digest`
+  const sections: { heading: string; rows: { text: string; href?: string }[] }[] = []
+
+  if (d.totals) {
+    sections.push({
+      heading: 'Portfolio',
+      rows: [
+        { text: `Market value ${stubs(d.totals.market_value)} on ${stubs(d.totals.cost)} invested` },
+        { text: `Unrealized P/L after tax ${signed(Math.round(d.totals.unrealized_pl))} (${signed(d.totals.unrealized_pl_pct, '%')})` },
+        { text: `Model P/L at predicted OVR ${signed(Math.round(d.totals.model_pl))}` },
+        ...d.holdings.map(h => ({
+          text: `${h.card?.name ?? h.playerName ?? h.playerUUID}: ${h.quantity} × ${stubs(h.card?.market_price ?? h.avgBuyPrice)}, P/L ${signed(Math.round(h.unrealized_pl))}`,
+          href: `/player/${h.playerUUID}`,
+        })),
+      ],
+    })
+  }
+
+  if (d.watchlist.length > 0) {
+    sections.push({
+      heading: 'Watchlist',
+      rows: d.watchlist.map(w => ({
+        text: w.card
+          ? `${w.card.name}: ${stubs(w.card.market_price)} (${signed(w.price_change ?? 0)} since added), predicted Δ ${signed(w.card.delta_rank_pred)} (${signed(w.delta_change ?? 0)})`
+          : `${w.playerName}: no live prediction`,
+        href: `/player/${w.cardId}`,
+      })),
+    })
+  }
+
+  const mover = (c: CardPayload) => ({
+    text: `${c.name} (${c.ovr} OVR): predicted Δ ${signed(c.delta_rank_pred)}, ${stubs(c.market_price)}`,
+    href: `/player/${c.id}`,
+  })
+  if (d.movers.up.length > 0)   sections.push({ heading: 'Biggest predicted upgrades',   rows: d.movers.up.map(mover) })
+  if (d.movers.down.length > 0) sections.push({ heading: 'Biggest predicted downgrades', rows: d.movers.down.map(mover) })
+
+  const manage = `${siteUrl}/account/edit`
+  const text = [
+    `Hi ${d.username},`,
+    '',
+    ...sections.flatMap(s => [s.heading, ...s.rows.map(r => `- ${r.text}`), '']),
+    `Change your email preferences: ${manage}`,
+  ].join('\n')
+
+  const html = [
+    `<h2>${escapeHtml(title)}</h2>`,
+    `<p>Hi ${escapeHtml(d.username)},</p>`,
+    ...sections.map(s => [
+      `<h3>${escapeHtml(s.heading)}</h3>`,
+      '<ul>',
+      ...s.rows.map(r => r.href
+        ? `<li><a href="${escapeHtml(siteUrl + r.href)}">${escapeHtml(r.text)}</a></li>`
+        : `<li>${escapeHtml(r.text)}</li>`),
+      '</ul>',
+    ].join('\n')),
+    `<p><a href="${escapeHtml(manage)}">Change your email preferences</a></p>`,
+  ].join('\n')
+
+  return { subject: title, text, html }
+}
+
+/**
+ * Mail the digest to every user opted in to `frequency` who hasn't had one inside the resend window
+ */
+export async function sendDigests(
+  frequency: DigestFrequency,
+  siteUrl:   string,
+  transport: MailTransport = getMailTransport()
+): Promise<{ users: number; sent: number; skipped: number; failed: number }> {
+  const snap = await firestore.collection('users').where(`digests.${frequency}`, '==', true).get()
+  const now = Date.now()
+  let sent = 0, skipped = 0, failed = 0
+
+  // one user at a time keeps the live-card cache warm and the SMTP server unhurried
+  for (const doc of snap.docs) {
+    const lastSent = doc.get(`digestSentAt.${frequency}`) as number | undefined
+    if (lastSent && now - lastSent < RESEND_AFTER_MS[frequency]) { skipped++; continue }
+
+    try {
+      // only the verified sign-in address: users/{uid}.email is user-editable
+      const user = await admin.auth().getUser(doc.id)
+      if (!user.email || !user.emailVerified) { skipped++; continue }
+      const email = user.email
+
+      const digest = await buildDigest(doc.id, doc.get('username') || 'there', frequency)
+      await transport.send({ to: email, ...renderDigest(digest, siteUrl) })
+      await doc.ref.set({ digestSentAt: { [frequency]: now } }, { merge: true })
+      sent++
+    } catch (error) {
+      console.error(`Error sending ${frequency} digest to ${doc.id}:`, error)
+      failed++
+    }
+  }
+  return { users: snap.size, sent, skipped, failed }
+}
@@ -0,0 +1,193 @@
+// src/lib/investmentImport.ts
+// Bulk CSV import for the investment tracker: parse a spreadsheet export, match player names
+// to Live cards through the same name_lowercase index /api/cards/suggestions uses, and flag
+// rows that can't be imported so the page can preview them before anything is written
+import { firestore } from '@/lib/firebaseAdmin'
+import { validateInvestmentCreate } from '@/lib/investmentValidation'
+import { ApiError, type FieldErrors } from '@/lib/apiError'
+
+// each row writes an investment plus its opening buy, so this stays under the 500-write batch limit
+export const MAX_IMPORT_ROWS  = 200
+export const MAX_IMPORT_BYTES = 200 * 1024
+
+// ready: will be written; unmatched: no card by that name; ambiguous: several cards share the name;
+// invalid: matched but a value fails validation
+export type ImportStatus = 'ready' | 'unmatched' | 'ambiguous' | 'invalid'
+
+export interface ImportCandidate {
+  id:         string
+  name:       string
+  ovr?:       number
+  team?:      string
+  baked_img?: string
+}
+
+export interface ImportRow {
+  line:             number
+  name:             string
+  quantity:         number | null
+  avgBuyPrice:      number | null
+  userProjectedOvr: number | null
+  status:           ImportStatus
+  cardId:           string | null
+  candidates:       ImportCandidate[]
+  fields:           FieldErrors
+}
+
+export class ImportError extends ApiError {
+  constructor(message: string, status = 400) {
+    super(message, status)
+    this.name = 'ImportError'
+  }
+}
+
+type Column = 'name' | 'quantity' | 'avgBuyPrice' | 'userProjectedOvr'
+
+// header spellings accepted for each column, compared lowercase with punctuation and spaces removed
+const HEADER_ALIASES: Record<Column, string[]> = {
+  name:             ['name', 'player', 'playername', 'card', 'cardname'],
+  quantity:         ['quantity', 'qty', 'count'],
+  avgBuyPrice:      ['avgbuyprice', 'avgprice', 'buyprice', 'price', 'avg', 'cost'],
+  userProjectedOvr: ['userprojectedovr', 'projectedovr', 'projection', 'proj', 'targetovr'],
+}
+
+/**
+ * Split CSV text into rows of fields (RFC 4180 quoting, CRLF or LF line breaks)
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field  = ''
+  let quoted = false
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i]
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') { field += '"'; i++ }
+      else if (ch === '"')                    quoted = false
+      else                                    field += ch
+    } else if (ch === '"') {
+      quoted = true
+    } else if (ch === ',') {
+      row.push(field); field = ''
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++
+      row.push(field); rows.push(row)
+      row = []; field = ''
+    } else {
+      field += ch
+    }
+  }
+  if (field || row.length > 0) { row.push(field); rows.push(row) }
+
+  // drop blank lines
+  return rows.filter(r => r.some(f => f.trim()))
+}
+
+// "$1,200" and "1200" both read as 1200; blanks and text read as null so validation flags them
+const toNumber = (s: string | undefined) => {
+  const n = Number((s ?? '').replace(/[$,\s]/g, '') || NaN)
+  return Number.isFinite(n) ? n : null
+}
+
+const normalizeHeader = (h: string) => h.toLowerCase().replace(/[^a-z0-9]/g, '')
+
+/**
+ * Read the header row and turn every data row into an unmatched ImportRow
+ */
+export function parseImportCsv(text: string): ImportRow[] {
+  if (text.length > MAX_IMPORT_BYTES) {
+    throw new ImportError(`File is larger than ${MAX_IMPORT_BYTES / 1024} KB`)
+  }
+  const [header, ...data] = parseCsv(text.replace(/^\uFEFF/, ''))
+  if (!header) throw new ImportError('File is empty')
+
+  const keys = header.map(normalizeHeader)
+  const index = {} as Record<Column, number>
+  const missing: string[] = []
+  for (const col of Object.keys(HEADER_ALIASES) as Column[]) {
+    index[col] = keys.findIndex(k => HEADER_ALIASES[col].includes(k))
+    if (index[col] < 0) missing.push(col)
+  }
+  if (missing.length > 0) throw new ImportError(`Missing column(s): ${missing.join(', ')}`)
+  if (data.length === 0) throw new ImportError('No rows below the header')
+  if (data.length > MAX_IMPORT_ROWS) throw new ImportError(`At most ${MAX_IMPORT_ROWS} rows per import`)
+
+  return data.map((r, i) => ({
+    line:             i + 2,
+    name:             (r[index.name] ?? '').trim(),
+    quantity:         toNumber(r[index.quantity]),
+    avgBuyPrice:      toNumber(r[index.avgBuyPrice]),
+    userProjectedOvr: toNumber(r[index.userProjectedOvr]),
+    status:           'unmatched',
+    cardId:           null,
+    candidates:       [],
+    fields:           {},
+  }))
+}
+
+// Live cards whose name_lowercase equals `name`, or failing that, up to 5 that start with it
+async function findCards(name: string): Promise<{ exact: boolean; cards: ImportCandidate[] }> {
+  const live = firestore.collection('cards').where('series', '==', 'Live')
+  const toCandidate = (d: FirebaseFirestore.QueryDocumentSnapshot): ImportCandidate => ({
+    id:        d.id,
+    name:      d.get('name'),
+    ovr:       d.get('ovr'),
+    team:      d.get('team'),
+    baked_img: d.get('baked_img'),
+  })
+
+  const exact = await live
+    .where('name_lowercase', '==', name)
+    .select('name', 'ovr', 'team', 'baked_img')
+    .get()
+  if (!exact.empty) return { exact: true, cards: exact.docs.map(toCandidate) }
+
+  const prefix = await live
+    .orderBy('name_lowercase')
+    .startAt(name)
+    .endAt(name + '\uf8ff')
+    .limit(5)
+    .select('name', 'ovr', 'team', 'baked_img')
+    .get()
+  return { exact: false, cards: prefix.docs.map(toCandidate) }
+}
+
+/**
+ * Match each row to a card and validate it. `choices` maps a row's line number to the card id
+ * the user picked for an ambiguous or unmatched row; only ids among that row's candidates count
+ */
+export async function matchImportRows(
+  rows:    ImportRow[],
+  choices: Record<string, string> = {}
+): Promise<ImportRow[]> {
+  const names = [...new Set(rows.map(r => r.name.toLowerCase()).filter(Boolean))]
+  const found = new Map(await Promise.all(names.map(async n => [n, await findCards(n)] as const)))
+
+  return rows.map(row => {
+    const match = found.get(row.name.toLowerCase())
+    const candidates = match?.cards ?? []
+    const chosen = candidates.find(c => c.id === choices[row.line])
+
+    let card: ImportCandidate | undefined
+    let status: ImportStatus
+    if (chosen)                                       { card = chosen; status = 'ready' }
+    else if (match?.exact && candidates.length === 1) { card = candidates[0]; status = 'ready' }
+    else if (match?.exact)                            status = 'ambiguous'
+    else                                              status = 'unmatched'
+
+    const checked = validateInvestmentCreate({
+      playerUUID:       card?.id ?? '',
+      playerName:       card?.name,
+      quantity:         row.quantity,
+      avgBuyPrice:      row.avgBuyPrice,
+      userProjectedOvr: row.userProjectedOvr,
+    })
+    const fields: FieldErrors = checked.ok ? {} : { ...checked.fields }
+    // the card id is reported through the status, not as a field error
+    delete fields.playerUUID
+    if (status === 'ready' && Object.keys(fields).length > 0) status = 'invalid'
+
+    return { ...row, status, cardId: card?.id ?? null, candidates, fields }
+  })
+}
@@ -0,0 +1,158 @@
+// src/lib/investmentValidation.ts
+// Field-level validation for investment and ledger writes
+// Pure so the API routes and the investment page form check the same rules
+import type { FieldErrors, Validated } from '@/lib/apiError'
+
+export interface InvestmentCreate {
+  playerUUID:       string
+  playerName?:      string
+  quantity:         number
+  avgBuyPrice:      number
+  userProjectedOvr: number
+}
+
+export interface InvestmentUpdate {
+  userProjectedOvr: number
+}
+
+export interface TransactionCreate {
+  type:     'buy' | 'sell'
+  quantity: number
+  price:    number
+  date:     number
+}
+
+export interface PositionClose {
+  price: number
+  date:  number
+}
+
+// card ratings run 40-99 in game
+export const MIN_OVR      = 40
+export const MAX_OVR      = 99
+export const MAX_QUANTITY = 100000
+export const MAX_PRICE    = 10000000
+
+type Body = Record<string, unknown>
+
+const asBody = (body: unknown): Body =>
+  body && typeof body === 'object' && !Array.isArray(body) ? body as Body : {}
+
+function checkQuantity(v: unknown, errors: FieldErrors, field = 'quantity') {
+  if (typeof v !== 'number' || !Number.isInteger(v) || v <= 0) {
+    errors[field] = 'Must be a positive whole number'
+  } else if (v > MAX_QUANTITY) {
+    errors[field] = `Must be at most ${MAX_QUANTITY.toLocaleString()}`
+  }
+}
+
+function checkPrice(v: unknown, errors: FieldErrors, field: string) {
+  if (typeof v !== 'number' || !Number.isFinite(v) || v < 0) {
+    errors[field] = 'Must be a number of stubs, 0 or more'
+  } else if (v > MAX_PRICE) {
+    errors[field] = `Must be at most ${MAX_PRICE.toLocaleString()}`
+  }
+}
+
+// a sell at 0 would book a bogus loss in the append-only ledger, so sells need a real price
+function checkSalePrice(v: unknown, errors: FieldErrors, field: string) {
+  if (!errors[field] && v === 0) errors[field] = 'Enter the sale price per card'
+}
+
+// trade dates default to now and may not be in the future; returns the parsed ms
+function checkDate(v: unknown, errors: FieldErrors, now: number): number {
+  const when = v == null ? now : new Date(v as string | number).getTime()
+  if (!Number.isFinite(when))      errors.date = 'Must be a timestamp or date string'
+  else if (when > now + 60 * 1000) errors.date = 'Cannot be in the future'
+  return when
+}
+
+function checkOvr(v: unknown, errors: FieldErrors, field = 'userProjectedOvr') {
+  if (typeof v !== 'number' || !Number.isInteger(v) || v < MIN_OVR || v > MAX_OVR) {
+    errors[field] = `Must be a whole number from ${MIN_OVR} to ${MAX_OVR}`
+  }
+}
+
+/**
+ * POST /api/investments body
+ */
+export function validateInvestmentCreate(input: unknown): Validated<InvestmentCreate> {
+  const body = asBody(input)
+  const errors: FieldErrors = {}
+
+  const { playerUUID, playerName, quantity, avgBuyPrice, userProjectedOvr } = body
+  // ids end up in Firestore paths, so no slashes
+  if (typeof playerUUID !== 'string' || !playerUUID.trim() || playerUUID.length > 128 || playerUUID.includes('/')) {
+    errors.playerUUID = 'Pick a player from the list'
+  }
+  if (playerName != null && (typeof playerName !== 'string' || playerName.length > 100)) {
+    errors.playerName = 'Must be text of at most 100 characters'
+  }
+  checkQuantity(quantity, errors)
+  checkPrice(avgBuyPrice, errors, 'avgBuyPrice')
+  checkOvr(userProjectedOvr, errors)
+
+  if (Object.keys(errors).length > 0) return { ok: false, fields: errors }
+  return {
+    ok: true,
+    value: {
+      playerUUID:       (playerUUID as string).trim(),
+      playerName:       playerName as string | undefined,
+      quantity:         quantity as number,
+      avgBuyPrice:      Math.round(avgBuyPrice as number),
+      userProjectedOvr: userProjectedOvr as number,
+    },
+  }
+}
+
+/**
+ * PATCH /api/investments/:id body; quantity and price only change through the ledger
+ */
+export function validateInvestmentUpdate(input: unknown): Validated<InvestmentUpdate> {
+  const body = asBody(input)
+  const errors: FieldErrors = {}
+
+  if ('quantity' in body)    errors.quantity    = 'Record a buy or sell transaction instead'
+  if ('avgBuyPrice' in body) errors.avgBuyPrice = 'Derived from transactions; record a buy or sell instead'
+  checkOvr(body.userProjectedOvr, errors)
+
+  if (Object.keys(errors).length > 0) return { ok: false, fields: errors }
+  return { ok: true, value: { userProjectedOvr: body.userProjectedOvr as number } }
+}
+
+/**
+ * POST /api/investments/:id/transactions body
+ */
+export function validateTransaction(input: unknown, now = Date.now()): Validated<TransactionCreate> {
+  const body = asBody(input)
+  const errors: FieldErrors = {}
+
+  const { type, quantity, price, date } = body
+  if (type !== 'buy' && type !== 'sell') errors.type = 'Must be buy or sell'
+  checkQuantity(quantity, errors)
+  checkPrice(price, errors, 'price')
+  if (type === 'sell') checkSalePrice(price, errors, 'price')
+
+  const when = checkDate(date, errors, now)
+
+  if (Object.keys(errors).length > 0) return { ok: false, fields: errors }
+  return {
+    ok: true,
+    value: { type: type as 'buy' | 'sell', quantity: quantity as number, price: price as number, date: when },
+  }
+}
+
+/**
+ * POST /api/investments/:id/close body
+ */
+export function validateClose(input: unknown, now = Date.now()): Validated<PositionClose> {
+  const body = asBody(input)
+  const errors: FieldErrors = {}
+
+  checkPrice(body.price, errors, 'price')
+  checkSalePrice(body.price, errors, 'price')
+  const when = checkDate(body.date, errors, now)
+
+  if (Object.keys(errors).length > 0) return { ok: false, fields: errors }
+  return { ok: true, value: { price: body.price as number, date: when } }
+}
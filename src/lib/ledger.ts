@@ -0,0 +1,289 @@
+// src/lib/ledger.ts
+// Append-only buy/sell ledger behind each investment (users/{uid}/investments/{id}/transactions)
+// quantity, avgBuyPrice and realizedPl on the investment doc are derived from it and never edited directly
+import { firestore } from '@/lib/firebaseAdmin'
+import { marketTax } from '@/lib/valuation'
+import type { InvestmentCreate } from '@/lib/investmentValidation'
+import { ApiError } from '@/lib/apiError'
+
+export type TransactionType = 'buy' | 'sell'
+
+export interface Transaction {
+  id:        string
+  type:      TransactionType
+  quantity:  number
+  price:     number         // stubs per card
+  date:      number         // ms, when the trade happened
+  createdAt: number         // ms, when it was recorded
+  voided:    boolean
+  voidedAt:  number | null
+  opening?:  boolean        // seeded from a pre-ledger investment's quantity/avgBuyPrice
+}
+
+export type TransactionInput = Pick<Transaction, 'type' | 'quantity' | 'price' | 'date'>
+
+// One sell matched against the average cost at the time; proceeds are after the marketplace tax
+export interface RealizedSale {
+  id:          string
+  date:        number
+  quantity:    number
+  price:       number
+  tax:         number
+  proceeds:    number
+  costBasis:   number
+  realizedPl:  number
+}
+
+// Position derived from the ledger (average cost method)
+export interface LedgerSummary {
+  quantity:    number
+  avgBuyPrice: number
+  costBasis:   number
+  realizedPl:  number
+  bought:      number
+  sold:        number
+  boughtCost:  number
+  proceeds:    number
+  tax:         number
+  sales:       RealizedSale[]
+  openedAt:    number | null
+  closedAt:    number | null    // date of the sell that took the position to zero
+}
+
+// A ledger operation the caller can't perform; status is the HTTP status to answer with
+export class LedgerError extends ApiError {
+  constructor(message: string, status: number) {
+    super(message, status)
+    this.name = 'LedgerError'
+  }
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100
+
+// trade date first, recording order breaks ties
+const byDate = (a: Transaction, b: Transaction) => a.date - b.date || a.createdAt - b.createdAt
+
+/**
+ * Replay the non-voided transactions in date order
+ * Sells are realized against the running average cost, net of the marketplace tax
+ * Throws a LedgerError when a sell would take the position below zero
+ */
+export function summarizeLedger(transactions: Transaction[]): LedgerSummary {
+  let quantity = 0, cost = 0, bought = 0, sold = 0, boughtCost = 0
+  let openedAt: number | null = null
+  let closedAt: number | null = null
+  const sales: RealizedSale[] = []
+
+  transactions.filter(t => !t.voided).sort(byDate).forEach(t => {
+    if (t.type === 'buy') {
+      if (quantity === 0) closedAt = null
+      openedAt    = openedAt ?? t.date
+      quantity   += t.quantity
+      cost       += t.quantity * t.price
+      bought     += t.quantity
+      boughtCost += t.quantity * t.price
+      return
+    }
+    if (t.quantity > quantity) {
+      throw new LedgerError(`Cannot sell ${t.quantity} on ${new Date(t.date).toISOString().slice(0, 10)}; only ${quantity} held`, 409)
+    }
+    const basis    = t.quantity * (cost / quantity)
+    const tax      = t.quantity * marketTax(t.price)
+    const proceeds = t.quantity * t.price - tax
+    sales.push({
+      id:         t.id,
+      date:       t.date,
+      quantity:   t.quantity,
+      price:      t.price,
+      tax,
+      proceeds,
+      costBasis:  round2(basis),
+      realizedPl: round2(proceeds - basis),
+    })
+    cost     -= basis
+    quantity -= t.quantity
+    sold     += t.quantity
+    if (quantity === 0) closedAt = t.date
+  })
+
+  return {
+    quantity,
+    avgBuyPrice: quantity > 0 ? round2(cost / quantity) : 0,
+    costBasis:   round2(cost),
+    realizedPl:  round2(sales.reduce((a, x) => a + x.proceeds - x.costBasis, 0)),
+    bought,
+    sold,
+    boughtCost:  round2(boughtCost),
+    proceeds:    sales.reduce((a, x) => a + x.proceeds, 0),
+    tax:         sales.reduce((a, x) => a + x.tax, 0),
+    sales,
+    openedAt,
+    closedAt,
+  }
+}
+
+/**
+ * Opening buy for an investment created before the ledger existed, or null when none is needed
+ */
+export function openingTransaction(
+  investment: Record<string, unknown>,
+  transactions: Transaction[]
+): Omit<Transaction, 'id'> | null {
+  if (transactions.length > 0 || !(Number(investment.quantity) > 0)) return null
+  return {
+    ...newTransaction({
+      type:     'buy',
+      quantity: Number(investment.quantity),
+      price:    Number(investment.avgBuyPrice) || 0,
+      date:     Number(investment.createdAt) || Date.now(),
+    }),
+    opening: true,
+  }
+}
+
+/**
+ * Document data for a new, non-voided transaction
+ */
+export function newTransaction(input: TransactionInput, now = Date.now()): Omit<Transaction, 'id'> {
+  return {
+    type:      input.type,
+    quantity:  input.quantity,
+    price:     input.price,
+    date:      input.date,
+    createdAt: now,
+    voided:    false,
+    voidedAt:  null,
+  }
+}
+
+const investmentRef = (uid: string, investmentId: string) =>
+  firestore.collection('users').doc(uid).collection('investments').doc(investmentId)
+
+/**
+ * Queue a new investment and its opening buy on a write batch; returns the new investment id
+ */
+export function openInvestment(
+  batch:      ReturnType<typeof firestore.batch>,
+  uid:        string,
+  input:      InvestmentCreate,
+  playerName: string | null,
+  now = Date.now()
+): string {
+  const ref = firestore.collection('users').doc(uid).collection('investments').doc()
+  batch.set(ref, {
+    playerUUID:       input.playerUUID,
+    playerName,
+    quantity:         input.quantity,
+    avgBuyPrice:      input.avgBuyPrice,
+    realizedPl:       0,
+    userProjectedOvr: input.userProjectedOvr,
+    createdAt:        now
+  })
+  batch.set(ref.collection('transactions').doc(), newTransaction({
+    type:     'buy',
+    quantity: input.quantity,
+    price:    input.avgBuyPrice,
+    date:     now
+  }, now))
+  return ref.id
+}
+
+// id the opening buy is seeded under, so one shown before it's stored can still be voided
+const OPENING_ID = 'opening'
+
+/**
+ * Every transaction of an investment, oldest trade first (voided ones included).
+ * A pre-ledger investment shows the opening buy its first write will seed
+ */
+export async function loadTransactions(uid: string, investmentId: string): Promise<Transaction[]> {
+  const ref = investmentRef(uid, investmentId)
+  const [inv, snap] = await Promise.all([ref.get(), ref.collection('transactions').get()])
+  if (!inv.exists) throw new LedgerError('Investment not found', 404)
+  const txs = snap.docs.map(d => ({ id: d.id, ...d.data() } as Transaction))
+  const opening = openingTransaction(inv.data() ?? {}, txs)
+  if (opening) txs.push({ id: OPENING_ID, ...opening })
+  return txs.sort(byDate)
+}
+
+/**
+ * Read-validate-write one ledger change inside a Firestore transaction and refresh the
+ * derived fields on the investment. Investments created before the ledger get an opening
+ * buy seeded from their stored quantity/avgBuyPrice the first time they're touched
+ */
+async function updateLedger(
+  uid: string,
+  investmentId: string,
+  change: (txs: Transaction[]) => { id: string; data: Partial<Omit<Transaction, 'id'>>; isNew: boolean }
+): Promise<{ transaction: Transaction; summary: LedgerSummary }> {
+  const ref = investmentRef(uid, investmentId)
+  const col = ref.collection('transactions')
+
+  return firestore.runTransaction(async t => {
+    const [inv, snap] = await Promise.all([t.get(ref), t.get(col)])
+    if (!inv.exists) throw new LedgerError('Investment not found', 404)
+
+    const txs = snap.docs.map(d => ({ id: d.id, ...d.data() } as Transaction))
+    const opening = openingTransaction(inv.data() ?? {}, txs)
+    if (opening) {
+      const openingRef = col.doc(OPENING_ID)
+      t.set(openingRef, opening)
+      txs.push({ id: openingRef.id, ...opening })
+    }
+
+    const { id, data: txData, isNew } = change(txs)
+    const next = isNew
+      ? [...txs, { id, ...txData } as Transaction]
+      : txs.map(tx => tx.id === id ? { ...tx, ...txData } : tx)
+    const summary = summarizeLedger(next)
+
+    if (isNew) t.set(col.doc(id), txData)
+    else       t.update(col.doc(id), txData)
+    t.update(ref, {
+      quantity:    summary.quantity,
+      avgBuyPrice: summary.avgBuyPrice,
+      realizedPl:  summary.realizedPl,
+      closedAt:    summary.closedAt,
+      updatedAt:   Date.now(),
+    })
+
+    return { transaction: next.find(tx => tx.id === id)!, summary }
+  })
+}
+
+/**
+ * Append a buy or sell
+ */
+export function addTransaction(uid: string, investmentId: string, input: TransactionInput) {
+  return updateLedger(uid, investmentId, () => ({
+    id:    investmentRef(uid, investmentId).collection('transactions').doc().id,
+    data:  newTransaction(input),
+    isNew: true,
+  }))
+}
+
+/**
+ * Sell everything still held at one price, closing the position
+ */
+export function closePosition(uid: string, investmentId: string, price: number, date = Date.now()) {
+  return updateLedger(uid, investmentId, txs => {
+    const { quantity } = summarizeLedger(txs)
+    if (quantity === 0) throw new LedgerError('Position is already closed', 409)
+    return {
+      id:    investmentRef(uid, investmentId).collection('transactions').doc().id,
+      data:  newTransaction({ type: 'sell', quantity, price, date }),
+      isNew: true,
+    }
+  })
+}
+
+/**
+ * Void a transaction; it stays in the ledger but no longer counts toward the position
+ */
+export function voidTransaction(uid: string, investmentId: string, transactionId: string) {
+  return updateLedger(uid, investmentId, txs => {
+    const tx = txs.find(t => t.id === transactionId)
+    if (!tx)       throw new LedgerError('Transaction not found', 404)
+    if (tx.voided) throw new LedgerError('Transaction is already voided', 409)
+    return { id: tx.id, data: { voided: true, voidedAt: Date.now() }, isNew: false }
+  })
+}
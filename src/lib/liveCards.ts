@@ -0,0 +1,172 @@
+// src/lib/liveCards.ts
+// Loads every predicted card and derives the payload served by /api/cards/live
+// Shared by the live route and anything else that needs the same view of the market
+import { firestore }     from '@/lib/firebaseAdmin'
+import { valueCard, type OvrOutcome } from '@/lib/valuation'
+import { calibratedConfidence, loadCalibration } from '@/lib/calibration'
+
+// matches the route's s-maxage so a page of results never mixes two snapshots for long
+const CACHE_MS = 60 * 1000
+let cache: { cards: CardPayload[]; at: number } | null = null
+
+export interface CardPayload {
+  id: string
+  name: string
+  ovr: number
+  rarity: string
+  is_hitter: boolean
+  baked_img?: string
+
+  // new fields
+  team: string
+  team_short_name: string
+  display_position: string
+  age: number
+
+  delta_rank_low: number
+  delta_rank_pred: number
+  delta_rank_high: number
+
+  predicted_rank_low: number
+  predicted_rank: number
+  predicted_rank_high: number
+
+  confidence_percentage: number
+  interval_width: number
+
+  qs_actual: number
+  qs_pred_low: number
+  qs_pred: number
+  qs_pred_high: number
+
+  market_price: number
+
+  predicted_profit_low: number
+  predicted_profit: number
+  predicted_profit_high: number
+  predicted_ev_profit: number
+  predicted_profit_pct: number
+  predicted_profit_pct_low: number
+  predicted_profit_pct_high: number
+
+  // same trade exited on the marketplace, after the sell tax
+  market_exit_price: number
+  predicted_profit_market_low: number
+  predicted_profit_market: number
+  predicted_profit_market_high: number
+  predicted_profit_market_pct: number
+
+  // distribution over post-update OVR (p as 0-1) and the probabilities (0-100) derived from it
+  ovr_distribution: OvrOutcome[]
+  prob_profit: number
+  prob_upgrade: number
+  prob_downgrade: number
+  prob_next_qs_step: number
+  qs_threshold_probs: Record<string, number>
+}
+
+interface RawCardDoc {
+  name: string
+  ovr: number
+  rarity: string
+  is_hitter: boolean
+  baked_img?: string
+  team: string
+  team_short_name: string
+  display_position: string
+  age: number
+  latestMarket?: {sell?: number}
+  latestPrediction: {
+    predicted_rank: number
+    predicted_rank_low: number
+    predicted_rank_high: number
+  }
+}
+
+/**
+ * Every predicted card with valuation fields, as served by /api/cards/live
+ * Cached per server instance for a short window so paged requests don't re-read the collection
+ */
+export async function loadLiveCards(): Promise<CardPayload[]> {
+  if (cache && Date.now() - cache.at < CACHE_MS) return cache.cards
+
+  const calibration = await loadCalibration()
+  const snap = await firestore
+    .collection('cards')
+    .where('latestPrediction', '!=', null)
+    .select(
+      'name',
+      'ovr',
+      'rarity',
+      'is_hitter',
+      'baked_img',
+      // new fields
+      'team',
+      'team_short_name',
+      'display_position',
+      'age',
+      'latestPrediction.predicted_rank',
+      'latestPrediction.predicted_rank_low',
+      'latestPrediction.predicted_rank_high',
+      'latestMarket.sell'
+    )
+    .get()
+
+  const merged: CardPayload[] = snap.docs.map(d => {
+    const {
+      name,
+      ovr,
+      rarity,
+      is_hitter,
+      baked_img,
+      team,
+      team_short_name,
+      display_position,
+      age,
+      latestMarket,
+      latestPrediction
+    } = d.data() as RawCardDoc
+
+    const lowRank  = latestPrediction.predicted_rank_low
+    const highRank = latestPrediction.predicted_rank_high
+
+    // confidence, quick-sell values, price and profit from the shared engine
+    const valuation = valueCard({
+      ovr,
+      predicted_rank:      latestPrediction.predicted_rank,
+      predicted_rank_low:  lowRank,
+      predicted_rank_high: highRank,
+      market_price:        latestMarket?.sell,
+      confidence_percentage: calibratedConfidence(lowRank, highRank, ovr, Boolean(is_hitter), calibration),
+    })
+
+    return {
+      id:                     d.id,
+      name,
+      ovr,
+      rarity,
+      is_hitter: Boolean(is_hitter),
+      baked_img,
+
+      // **new team fields**
+      team,
+      team_short_name,
+      display_position,
+      age,
+
+      // predictions
+      delta_rank_low:  Number((lowRank  - ovr).toFixed(2)),
+      delta_rank_pred: Number((latestPrediction.predicted_rank - ovr).toFixed(2)),
+      delta_rank_high: Number((highRank - ovr).toFixed(2)),
+      predicted_rank_low:     Math.round(lowRank),
+      predicted_rank:         Math.round(latestPrediction.predicted_rank),
+      predicted_rank_high:    Math.round(highRank),
+
+      // confidence, quick-sell values, market price and profit
+      ...valuation,
+    }
+  })
+
+  cache = { cards: merged, at: Date.now() }
+  return merged
+}
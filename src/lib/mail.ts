@@ -0,0 +1,132 @@
+// src/lib/mail.ts
+// Pluggable outgoing mail: everything sends through a MailTransport picked by MAIL_TRANSPORT
+//   smtp    - real delivery through SMTP_HOST (see smtp.ts)
+//   file    - writes each message as an .eml file under MAIL_OUTBOX_DIR, for local development
+//   console - logs each message (the default, so nothing is sent by accident)
+import { promises as fs } from 'node:fs'
+import path from 'node:path'
+import crypto from 'node:crypto'
+import { sendSmtp } from '@/lib/smtp'
+
+export interface MailMessage {
+  to:      string
+  subject: string
+  text:    string
+  html?:   string
+}
+
+export interface MailTransport {
+  readonly name: string
+  send(message: MailMessage): Promise<void>
+}
+
+const DEFAULT_FROM = 'DiamondInsights <no-reply@diamondinsights.app>'
+
+// bare address for the SMTP envelope, e.g. "Name <a@b.c>" → "a@b.c"
+const envelopeAddress = (from: string) => from.match(/<([^>]+)>/)?.[1] ?? from
+
+// RFC 2047 encoded-word for headers that aren't plain ASCII
+const encodeHeader = (s: string) =>
+  /^[\x20-\x7e]*$/.test(s) ? s : `=?UTF-8?B?${Buffer.from(s).toString('base64')}?=`
+
+// base64 bodies survive any content and line length; wrapped at 76 columns
+const base64Body = (s: string) =>
+  Buffer.from(s).toString('base64').replace(/.{76}/g, '$&\r\n')
+
+/**
+ * Render a message as RFC 5322 text: plain text, or multipart/alternative when it has HTML
+ */
+export function formatMessage(message: MailMessage, from: string, now: Date = new Date()): string {
+  const domain = envelopeAddress(from).split('@')[1] ?? 'localhost'
+  const headers = [
+    `From: ${from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${now.toUTCString()}`,
+    `Message-ID: <${crypto.randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0',
+  ]
+  const part = (type: string, body: string) => [
+    `Content-Type: ${type}; charset=utf-8`,
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Body(body),
+  ].join('\r\n')
+
+  if (!message.html) {
+    return [...headers, part('text/plain', message.text)].join('\r\n')
+  }
+  const boundary = `----=_${crypto.randomUUID()}`
+  return [
+    ...headers,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    part('text/plain', message.text),
+    `--${boundary}`,
+    part('text/html', message.html),
+    `--${boundary}--`,
+    '',
+  ].join('\r\n')
+}
+
+/**
+ * Logs the message instead of sending it
+ */
+export function consoleTransport(): MailTransport {
+  return {
+    name: 'console',
+    async send(message) {
+      console.log(`[mail] to=${message.to} subject="${message.subject}"\n${message.text}`)
+    },
+  }
+}
+
+/**
+ * Writes each message to `dir` as an .eml file that any mail client can open
+ */
+export function fileTransport(dir: string, from: string = DEFAULT_FROM): MailTransport {
+  return {
+    name: 'file',
+    async send(message) {
+      await fs.mkdir(dir, { recursive: true })
+      const safeTo = message.to.replace(/[^a-zA-Z0-9@._-]/g, '_')
+      const file = path.join(dir, `${Date.now()}-${safeTo}.eml`)
+      await fs.writeFile(file, formatMessage(message, from))
+    },
+  }
+}
+
+/**
+ * Delivers through an SMTP server
+ */
+export function smtpTransport(config: Parameters<typeof sendSmtp>[0], from: string = DEFAULT_FROM): MailTransport {
+  return {
+    name: 'smtp',
+    send: message => sendSmtp(config, envelopeAddress(from), message.to, formatMessage(message, from)),
+  }
+}
+
+/**
+ * The transport configured by the environment
+ */
+export function getMailTransport(): MailTransport {
+  const from = process.env.MAIL_FROM || DEFAULT_FROM
+  switch (process.env.MAIL_TRANSPORT) {
+    case 'smtp': {
+      if (!process.env.SMTP_HOST) throw new Error('MAIL_TRANSPORT=smtp needs SMTP_HOST')
+      const secure = process.env.SMTP_SECURE === 'true'
+      return smtpTransport({
+        host:   process.env.SMTP_HOST,
+        port:   Number(process.env.SMTP_PORT) || (secure ? 465 : 587),
+        secure,
+        user:   process.env.SMTP_USER,
+        pass:   process.env.SMTP_PASS,
+      }, from)
+    }
+    case 'file':
+      return fileTransport(process.env.MAIL_OUTBOX_DIR || path.join(process.cwd(), '.mail-outbox'), from)
+    default:
+      return consoleTransport()
+  }
+}
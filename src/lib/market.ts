@@ -0,0 +1,129 @@
+// src/lib/market.ts
+// Market price history: buy/sell snapshots stored under cards/{id}/market and downsampled series
+// Server-only (uses firebase-admin); the history API route and snapshot writers share it
+import { firestore } from '@/lib/firebaseAdmin'
+
+// One stored buy/sell observation; the document id is the timestamp in ms
+export interface MarketSnapshot {
+  buy:       number | null
+  sell:      number | null
+  timestamp: number
+}
+
+export type MarketInterval = 'hourly' | 'daily'
+
+export const MARKET_INTERVALS: Record<MarketInterval, number> = {
+  hourly: 60 * 60 * 1000,
+  daily:  24 * 60 * 60 * 1000,
+}
+
+// One bucket of the downsampled series: averaged prices plus the sell range inside the bucket
+export interface MarketPoint {
+  t:         number
+  buy:       number | null
+  sell:      number | null
+  sell_low:  number | null
+  sell_high: number | null
+  samples:   number
+}
+
+const toPrice = (v: unknown): number | null => {
+  const n = typeof v === 'number' ? v : Number(v)
+  return v == null || Number.isNaN(n) ? null : n
+}
+
+/**
+ * Store a snapshot in the card's market subcollection and mirror it onto latestMarket unless
+ * a newer one is already there (backfilled history doesn't replace the live price).
+ * `latest` says whether latestMarket changed
+ */
+export async function recordMarketSnapshot(
+  cardId: string,
+  prices: { buy?: unknown; sell?: unknown },
+  timestamp: number = Date.now()
+): Promise<{ snapshot: MarketSnapshot; latest: boolean }> {
+  const snapshot: MarketSnapshot = {
+    buy:  toPrice(prices.buy),
+    sell: toPrice(prices.sell),
+    timestamp,
+  }
+
+  const cardRef = firestore.collection('cards').doc(cardId)
+  const latest = await firestore.runTransaction(async tx => {
+    const card = await tx.get(cardRef)
+    const updatedAt = Number(card.get('latestMarket.updatedAt'))
+    const newer = !(timestamp < updatedAt)   // no (or an unreadable) latestMarket counts as older
+
+    tx.set(cardRef.collection('market').doc(String(timestamp)), snapshot)
+    if (newer) {
+      tx.set(cardRef, {
+        latestMarket: { buy: snapshot.buy, sell: snapshot.sell, updatedAt: timestamp }
+      }, { merge: true })
+    }
+    return newer
+  })
+
+  return { snapshot, latest }
+}
+
+/**
+ * Load raw snapshots for a card between two timestamps (inclusive), oldest first
+ */
+export async function loadMarketSnapshots(
+  cardId: string,
+  from: number,
+  to: number
+): Promise<MarketSnapshot[]> {
+  const snap = await firestore
+    .collection('cards').doc(cardId)
+    .collection('market')
+    .where('timestamp', '>=', from)
+    .where('timestamp', '<=', to)
+    .orderBy('timestamp', 'asc')
+    .get()
+
+  return snap.docs.map(d => {
+    const data = d.data()
+    return {
+      buy:       toPrice(data.buy),
+      sell:      toPrice(data.sell),
+      timestamp: Number(data.timestamp),
+    }
+  })
+}
+
+/**
+ * Bucket snapshots into fixed intervals (UTC-aligned), averaging prices per bucket
+ */
+export function downsampleMarket(
+  snapshots: MarketSnapshot[],
+  interval: MarketInterval
+): MarketPoint[] {
+  const size    = MARKET_INTERVALS[interval]
+  const buckets = new Map<number, MarketSnapshot[]>()
+
+  snapshots.forEach(s => {
+    const key = Math.floor(s.timestamp / size) * size
+    const list = buckets.get(key)
+    if (list) list.push(s)
+    else      buckets.set(key, [s])
+  })
+
+  const avg = (vals: number[]) =>
+    vals.length ? Math.round(vals.reduce((a, b) => a + b, 0) / vals.length) : null
+
+  return Array.from(buckets.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([t, list]) => {
+      const sells = list.map(s => s.sell).filter((v): v is number => v !== null)
+      const buys  = list.map(s => s.buy).filter((v): v is number => v !== null)
+      return {
+        t,
+        buy:       avg(buys),
+        sell:      avg(sells),
+        sell_low:  sells.length ? Math.min(...sells) : null,
+        sell_high: sells.length ? Math.max(...sells) : null,
+        samples:   list.length,
+      }
+    })
+}
@@ -0,0 +1,448 @@
+// src/lib/moderation.ts
+// Moderation pipeline shared by chat messages and card comments
+// Each surface has a rule set in moderationRules/{surface} (built-in defaults until one is saved);
+// every rule blocks, masks or holds a post for review, and the reasons go back to the composer.
+// Held posts wait in moderationQueue instead of the public collections
+import { firestore } from '@/lib/firebaseAdmin'
+import type { FieldErrors, Validated } from '@/lib/apiError'
+
+export type ModerationSurface = 'chat' | 'comments'
+
+export const MODERATION_SURFACES: ModerationSurface[] = ['chat', 'comments']
+
+export type ModerationAction = 'block' | 'mask' | 'hold'
+
+export const MODERATION_ACTIONS: ModerationAction[] = ['block', 'mask', 'hold']
+
+interface RuleBase {
+  id:      string
+  action:  ModerationAction
+  message: string   // shown to the author when the rule matches
+}
+
+export type ModerationRule = RuleBase & (
+  | { kind: 'terms'; terms: string[] }                    // whole words, after normalization
+  | { kind: 'pattern'; pattern: string; flags?: string }  // regular expression on the raw text
+  | { kind: 'links' }                                     // URLs and obfuscated domains
+)
+
+// moderationRules/{surface}
+export interface ModerationRuleSet {
+  maxLength:     number
+  minIntervalMs: number   // between two posts by the same user in the same room or card thread
+  rules:         ModerationRule[]
+  updatedAt?:    number
+}
+
+export interface ModerationReason {
+  ruleId:  string             // a rule id, or 'empty', 'length' or 'rate_limit'
+  action:  ModerationAction
+  message: string
+  match?:  string             // the text that matched
+}
+
+export interface ModerationResult {
+  verdict: 'allow' | ModerationAction   // strongest action among the reasons
+  text:    string                       // cleaned text with masked spans replaced
+  reasons: ModerationReason[]
+  status:  number                       // HTTP status for a block: 400, or 429 when only rate limited
+}
+
+// moderationQueue/{id}
+export interface HeldPost {
+  surface:   ModerationSurface
+  target:    string          // chat room or card id
+  userId:    string
+  text:      string
+  parentId:  string | null
+  reasons:   ModerationReason[]
+  status:    'pending'
+  createdAt: number
+}
+
+const NOUNS: Record<ModerationSurface, string> = { chat: 'Message', comments: 'Comment' }
+
+export const DEFAULT_RULE_SET: ModerationRuleSet = {
+  maxLength:     500,
+  minIntervalMs: 15_000,
+  rules: [
+    {
+      id:      'slurs',
+      kind:    'terms',
+      action:  'mask',
+      message: 'Disallowed language was masked.',
+      terms: [
+        'nigger','nigga','faggot','fag','retard',
+        'kike','chink','spic','dyke','tranny',
+        'slut','whore','bitch','asshole'
+      ],
+    },
+    { id: 'links', kind: 'links', action: 'block', message: 'External links are not allowed.' },
+  ],
+}
+
+const MASK = '****'
+
+// ─── normalization ───────────────────────────────────────────────────────────
+
+// zero-width and soft-hyphen characters used to split words invisibly
+const INVISIBLE = /[\u00AD\u200B-\u200F\u2060-\u2064\uFEFF]/g
+
+// Cyrillic and Greek letters that look like Latin ones
+const HOMOGLYPHS: Record<string, string> = {
+  'а': 'a', 'в': 'b', 'е': 'e', 'к': 'k', 'м': 'm', 'н': 'h', 'о': 'o', 'р': 'p',
+  'с': 'c', 'т': 't', 'у': 'y', 'х': 'x', 'і': 'i', 'ѕ': 's', 'ј': 'j',
+  'α': 'a', 'β': 'b', 'ε': 'e', 'ι': 'i', 'κ': 'k', 'ο': 'o', 'ρ': 'p', 'τ': 't', 'υ': 'u', 'χ': 'x',
+}
+
+// leetspeak; '1' and '|' are read both as i and as l
+const LEET: Record<string, string> = {
+  '0': 'o', '3': 'e', '4': 'a', '5': 's', '7': 't', '8': 'b', '9': 'g',
+  '@': 'a', '$': 's', '!': 'i', '+': 't',
+}
+
+const WORD_CHARS = '\\p{L}\\p{N}\\p{M}@$!|+'
+const WORD       = new RegExp(`[${WORD_CHARS}]+`, 'gu')
+// single characters split by spaces, dots or dashes: "b.i.t.c.h", "f a g"
+const SPACED     = new RegExp(`(?<![${WORD_CHARS}])(?:[${WORD_CHARS}][ .\\-_~*]+){2,}[${WORD_CHARS}](?![${WORD_CHARS}])`, 'gu')
+
+const squeeze = (s: string) => s.replace(/(.)\1+/g, '$1')
+
+/**
+ * Folded forms of one word for term matching: accents, case, homoglyphs and leetspeak removed
+ */
+export function normalizeWord(word: string): string[] {
+  const base = word
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/[^\x00-\x7f]/g, c => HOMOGLYPHS[c] ?? c)
+    .replace(/[03-9@$!+]/g, c => LEET[c])
+  const forms = new Set(
+    [base.replace(/[1|]/g, 'i'), base.replace(/[1|]/g, 'l')].map(f => f.replace(/[^\p{L}]/gu, ''))
+  )
+  return [...forms].filter(Boolean)
+}
+
+interface Span {
+  start: number
+  end:   number
+}
+
+function termSpans(text: string, terms: string[]): Span[] {
+  const exact    = new Set(terms.flatMap(normalizeWord))
+  const squeezed = new Set([...exact].map(squeeze))
+  // stretched letters ("biiitch") match, but only when the word actually repeats letters
+  const hit = (form: string) => exact.has(form) || (form !== squeeze(form) && squeezed.has(squeeze(form)))
+
+  const spans: Span[] = []
+  const check = (start: number, raw: string) => {
+    // leading/trailing punctuation may be decoration ("bitch!!") or leetspeak ("$lut")
+    const trimmed = raw.replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, '')
+    if ([raw, trimmed].some(w => normalizeWord(w).some(hit))) spans.push({ start, end: start + raw.length })
+  }
+  for (const m of text.matchAll(SPACED)) check(m.index, m[0])
+  for (const m of text.matchAll(WORD))   check(m.index, m[0])
+  return spans
+}
+
+const TLDS = 'com|net|org|gg|io|co|tv|ly|me|xyz|app|link|ru|uk|info|biz'
+const LINK = new RegExp(
+  'https?:\\/\\/\\S+|www\\.\\S+' +
+  // bare and obfuscated domains: example.com, example[.]com, example (dot) com, example dot com
+  `|\\b[a-z0-9][a-z0-9-]*\\s*(?:\\.|\\[\\.\\]|\\(\\.\\)|\\[dot\\]|\\(dot\\)|\\sdot\\s)\\s*(?:${TLDS})\\b`,
+  'gi'
+)
+
+function regexSpans(text: string, re: RegExp): Span[] {
+  return [...text.matchAll(re)]
+    .filter(m => m[0].length > 0)
+    .map(m => ({ start: m.index, end: m.index + m[0].length }))
+}
+
+function ruleSpans(text: string, rule: ModerationRule): Span[] {
+  switch (rule.kind) {
+    case 'terms':   return termSpans(text, rule.terms)
+    case 'links':   return regexSpans(text, LINK)
+    case 'pattern': {
+      const flags = (rule.flags ?? '').replace(/[^imsu]/g, '')
+      try {
+        return regexSpans(text, new RegExp(rule.pattern, `${flags}g`))
+      } catch {
+        return []   // rejected when saved; only a hand-edited document gets here
+      }
+    }
+  }
+}
+
+function maskSpans(text: string, spans: Span[]): string {
+  const merged = [...spans]
+    .sort((a, b) => a.start - b.start)
+    .reduce<Span[]>((acc, s) => {
+      const last = acc[acc.length - 1]
+      if (last && s.start <= last.end) last.end = Math.max(last.end, s.end)
+      else acc.push({ ...s })
+      return acc
+    }, [])
+  return merged.reduceRight((t, s) => t.slice(0, s.start) + MASK + t.slice(s.end), text)
+}
+
+const SEVERITY: Record<ModerationResult['verdict'], number> = { allow: 0, mask: 1, hold: 2, block: 3 }
+
+/**
+ * Run a rule set over a post. `lastPostedAt` is the author's previous post in the same place
+ */
+export function applyRules(
+  surface:      ModerationSurface,
+  rawText:      string,
+  set:          ModerationRuleSet,
+  lastPostedAt: number | null = null,
+  now:          number = Date.now()
+): ModerationResult {
+  const noun = NOUNS[surface]
+  const original = rawText.replace(INVISIBLE, '').trim()
+  const reasons: ModerationReason[] = []
+  const masked: Span[] = []
+
+  for (const rule of set.rules) {
+    const spans = ruleSpans(original, rule)
+    if (spans.length === 0) continue
+    reasons.push({
+      ruleId:  rule.id,
+      action:  rule.action,
+      message: rule.message,
+      match:   original.slice(spans[0].start, spans[0].end),
+    })
+    if (rule.action === 'mask') masked.push(...spans)
+  }
+
+  // collapse blank-line floods
+  const text = maskSpans(original, masked).replace(/\n{3,}/g, '\n\n')
+
+  if (!text.split(MASK).join('').trim()) {
+    reasons.push({ ruleId: 'empty', action: 'block', message: `${noun} is empty or contains only disallowed language.` })
+  }
+  if (text.length > set.maxLength) {
+    reasons.push({ ruleId: 'length', action: 'block', message: `${noun} too long (max ${set.maxLength} characters).` })
+  }
+  if (lastPostedAt != null && now - lastPostedAt < set.minIntervalMs) {
+    reasons.push({ ruleId: 'rate_limit', action: 'block', message: "You're posting too quickly. Please wait a bit." })
+  }
+
+  const verdict = reasons.reduce<ModerationResult['verdict']>(
+    (v, r) => SEVERITY[r.action] > SEVERITY[v] ? r.action : v, 'allow'
+  )
+  const onlyRateLimited = reasons.every(r => r.action !== 'block' || r.ruleId === 'rate_limit')
+  return { verdict, text, reasons, status: verdict === 'block' && onlyRateLimited ? 429 : 400 }
+}
+
+// ─── rule set storage ────────────────────────────────────────────────────────
+
+// rule sets change rarely; each server instance re-reads them at most once a minute
+const CACHE_MS = 60 * 1000
+const cache = new Map<ModerationSurface, { set: ModerationRuleSet; at: number }>()
+
+const ruleSetRef = (surface: ModerationSurface) => firestore.collection('moderationRules').doc(surface)
+
+/**
+ * A surface's rule set (cached), or the built-in defaults when none is stored
+ */
+export async function loadRuleSet(surface: ModerationSurface): Promise<ModerationRuleSet> {
+  const hit = cache.get(surface)
+  if (hit && Date.now() - hit.at < CACHE_MS) return hit.set
+
+  const doc = await ruleSetRef(surface).get()
+  const set = doc.exists ? doc.data() as ModerationRuleSet : DEFAULT_RULE_SET
+  cache.set(surface, { set, at: Date.now() })
+  return set
+}
+
+export async function saveRuleSet(surface: ModerationSurface, input: ModerationRuleSet): Promise<ModerationRuleSet> {
+  const set: ModerationRuleSet = { ...input, updatedAt: Date.now() }
+  await ruleSetRef(surface).set(set)
+  cache.set(surface, { set, at: Date.now() })
+  return set
+}
+
+const MAX_RULES   = 50
+const MAX_TERMS   = 1000
+const MAX_PATTERN = 200
+
+/**
+ * PUT /api/moderation/rules/{surface} body
+ */
+export function validateRuleSet(input: unknown): Validated<ModerationRuleSet> {
+  const body = input && typeof input === 'object' ? input as Record<string, unknown> : {}
+  const errors: FieldErrors = {}
+
+  const { maxLength, minIntervalMs, rules } = body
+  if (!Number.isInteger(maxLength) || (maxLength as number) < 1 || (maxLength as number) > 5000) {
+    errors.maxLength = 'Must be a whole number from 1 to 5000'
+  }
+  if (!Number.isInteger(minIntervalMs) || (minIntervalMs as number) < 0) {
+    errors.minIntervalMs = 'Must be a whole number of milliseconds, 0 or more'
+  }
+  if (!Array.isArray(rules) || rules.length > MAX_RULES) {
+    errors.rules = `Must be a list of at most ${MAX_RULES} rules`
+    return { ok: false, fields: errors }
+  }
+
+  const ids = new Set<string>()
+  const parsed: ModerationRule[] = []
+  rules.forEach((r: Record<string, unknown>, i) => {
+    const at = `rules.${i}`
+    if (!r || typeof r !== 'object') { errors[at] = 'Must be an object'; return }
+    const { id, kind, action, message, terms, pattern, flags } = r
+
+    if (typeof id !== 'string' || !/^[a-z0-9_-]{1,40}$/.test(id) || ids.has(id)) {
+      errors[`${at}.id`] = 'Must be a unique id of lowercase letters, digits, - or _'
+    } else {
+      ids.add(id)
+    }
+    if (!MODERATION_ACTIONS.includes(action as ModerationAction)) {
+      errors[`${at}.action`] = `Must be one of ${MODERATION_ACTIONS.join(', ')}`
+    }
+    if (typeof message !== 'string' || !message.trim() || message.length > 140) {
+      errors[`${at}.message`] = 'Must be 1 to 140 characters'
+    }
+
+    const base = { id: id as string, action: action as ModerationAction, message: (message as string)?.trim() }
+    if (kind === 'terms') {
+      if (!Array.isArray(terms) || terms.length === 0 || terms.length > MAX_TERMS ||
+          terms.some(t => typeof t !== 'string' || !t.trim())) {
+        errors[`${at}.terms`] = `Must be a list of 1 to ${MAX_TERMS} words`
+      } else {
+        parsed.push({ ...base, kind, terms: terms.map((t: string) => t.trim().toLowerCase()) })
+      }
+    } else if (kind === 'pattern') {
+      const f = flags == null ? '' : flags
+      if (typeof f !== 'string' || !/^[imsu]*$/.test(f)) {
+        errors[`${at}.flags`] = 'Only i, m, s and u are allowed'
+      } else if (typeof pattern !== 'string' || !pattern || pattern.length > MAX_PATTERN) {
+        errors[`${at}.pattern`] = `Must be 1 to ${MAX_PATTERN} characters`
+      } else {
+        try {
+          new RegExp(pattern, f)
+          parsed.push({ ...base, kind, pattern, flags: f })
+        } catch {
+          errors[`${at}.pattern`] = 'Not a valid regular expression'
+        }
+      }
+    } else if (kind === 'links') {
+      parsed.push({ ...base, kind })
+    } else {
+      errors[`${at}.kind`] = 'Must be one of terms, pattern, links'
+    }
+  })
+
+  if (Object.keys(errors).length > 0) return { ok: false, fields: errors }
+  return {
+    ok: true,
+    value: { maxLength: maxLength as number, minIntervalMs: minIntervalMs as number, rules: parsed },
+  }
+}
+
+// ─── posting ─────────────────────────────────────────────────────────────────
+
+/**
+ * The collection a surface's posts live in: chat_{room}, or comments for every card
+ */
+export function postsRef(surface: ModerationSurface, target: string) {
+  return firestore.collection(surface === 'chat' ? `chat_${target}` : 'comments')
+}
+
+/**
+ * When the user last posted to this chat room or card, for the rate limit. Posts waiting in
+ * moderationQueue count too, so someone whose posts are all held can't flood the queue
+ */
+export async function lastPostTime(
+  surface: ModerationSurface,
+  target:  string,
+  userId:  string
+): Promise<number | null> {
+  const published = surface === 'chat'
+    ? postsRef(surface, target).where('userId', '==', userId)
+    : postsRef(surface, target).where('playerId', '==', target).where('userId', '==', userId)
+  const [posts, held] = await Promise.all([
+    published.orderBy('timestamp', 'desc').limit(1).get(),
+    firestore.collection('moderationQueue')
+      .where('userId', '==', userId)
+      .where('surface', '==', surface)
+      .where('target', '==', target)
+      .orderBy('createdAt', 'desc')
+      .limit(1)
+      .get(),
+  ])
+  const times = [
+    ...posts.docs.map(d => d.get('timestamp') as number),
+    ...held.docs.map(d => d.get('createdAt') as number),
+  ]
+  return times.length > 0 ? Math.max(...times) : null
+}
+
+/**
+ * An accepted post in its surface's document shape
+ */
+export function postData(
+  surface:   ModerationSurface,
+  target:    string,
+  userId:    string,
+  text:      string,
+  parentId:  string | null,
+  timestamp: number = Date.now()
+) {
+  return surface === 'chat'
+    ? { userId, text, parentId, timestamp, likedBy: [] as string[] }
+    : { playerId: target, userId, text, parentId, likes: [] as string[], timestamp }
+}
+
+/**
+ * Write an accepted post; returns the new id
+ */
+export async function publishPost(
+  surface:   ModerationSurface,
+  target:    string,
+  userId:    string,
+  text:      string,
+  parentId:  string | null,
+  timestamp: number = Date.now()
+): Promise<string> {
+  const ref = await postsRef(surface, target).add(postData(surface, target, userId, text, parentId, timestamp))
+  return ref.id
+}
+
+/**
+ * Moderate a post against its surface's current rule set
+ */
+export async function moderatePost(
+  surface:      ModerationSurface,
+  rawText:      unknown,
+  lastPostedAt: number | null
+): Promise<ModerationResult> {
+  const set = await loadRuleSet(surface)
+  return applyRules(surface, typeof rawText === 'string' ? rawText : '', set, lastPostedAt)
+}
+
+/**
+ * Park a post that a hold rule matched until a moderator reviews it; returns the queue id
+ */
+export async function holdForReview(
+  surface: ModerationSurface,
+  target:  string,
+  userId:  string,
+  result:  ModerationResult,
+  parentId: string | null
+): Promise<string> {
+  const held: HeldPost = {
+    surface,
+    target,
+    userId,
+    text:      result.text,
+    parentId,
+    reasons:   result.reasons,
+    status:    'pending',
+    createdAt: Date.now(),
+  }
+  const ref = await firestore.collection('moderationQueue').add(held)
+  return ref.id
+}
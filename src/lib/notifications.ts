@@ -0,0 +1,78 @@
+// src/lib/notifications.ts
+// In-app notification feed (users/{uid}/notifications), shown behind the Navbar bell
+// Server-only; anything that wants to tell a user something appends here
+import { firestore } from '@/lib/firebaseAdmin'
+
+export type NotificationType = 'alert'
+
+// stored document
+export interface NotificationData {
+  type:      NotificationType
+  title:     string
+  body:      string
+  link:      string | null   // page the notification opens, e.g. /player/{cardId}
+  cardId:    string | null
+  alertId:   string | null
+  createdAt: number
+  read:      boolean
+}
+
+export interface Notification extends NotificationData {
+  id: string
+}
+
+export type NotificationInput = Omit<NotificationData, 'createdAt' | 'read'>
+
+export const FEED_LIMIT = 50
+
+const notificationsRef = (uid: string) =>
+  firestore.collection('users').doc(uid).collection('notifications')
+
+/**
+ * Queue an unread notification on a write batch
+ */
+export function queueNotification(
+  batch: ReturnType<typeof firestore.batch>,
+  uid:   string,
+  input: NotificationInput,
+  now = Date.now()
+): void {
+  const data: NotificationData = { ...input, createdAt: now, read: false }
+  batch.set(notificationsRef(uid).doc(), data)
+}
+
+/**
+ * The newest notifications and how many are unread overall
+ */
+export async function loadNotifications(
+  uid:   string,
+  limit: number = FEED_LIMIT
+): Promise<{ notifications: Notification[]; unread: number }> {
+  const [snap, unread] = await Promise.all([
+    notificationsRef(uid).orderBy('createdAt', 'desc').limit(limit).get(),
+    notificationsRef(uid).where('read', '==', false).count().get(),
+  ])
+  return {
+    notifications: snap.docs.map(d => ({ id: d.id, ...d.data() } as Notification)),
+    unread:        unread.data().count,
+  }
+}
+
+/**
+ * Mark the given notifications read, or every unread one when `ids` is omitted;
+ * returns how many changed
+ */
+export async function markNotificationsRead(uid: string, ids?: string[]): Promise<number> {
+  const docs = ids
+    ? (await Promise.all(ids.map(id => notificationsRef(uid).doc(id).get())))
+        .filter(d => d.exists && d.get('read') === false)
+    : (await notificationsRef(uid).where('read', '==', false).get()).docs
+
+  // Firestore batches are capped at 500 writes
+  for (let i = 0; i < docs.length; i += 500) {
+    const batch = firestore.batch()
+    docs.slice(i, i + 500).forEach(d => batch.update(d.ref, { read: true }))
+    await batch.commit()
+  }
+  return docs.length
+}
@@ -0,0 +1,353 @@
+// src/lib/portfolio.ts
+// Server-side portfolio valuation: every holding priced against the live card payloads,
+// with unrealized P&L, projected values and allocation by team and position, plus realized
+// P&L from the transaction ledger (closed positions, per roster update and all-time)
+import { firestore }     from '@/lib/firebaseAdmin'
+import { loadLiveCards, type CardPayload } from '@/lib/liveCards'
+import {
+  marketExitPrice,
+  marketTax,
+  netSalePrice,
+  positionValue,
+  profitPct,
+  qsValue
+} from '@/lib/valuation'
+import { openingTransaction, summarizeLedger, type LedgerSummary, type Transaction } from '@/lib/ledger'
+import { loadReleasedUpdateDates } from '@/lib/rosterUpdates'
+
+// Investment document as stored under users/{uid}/investments
+export interface Investment {
+  id:               string
+  playerUUID:       string
+  playerName?:      string
+  quantity:         number
+  avgBuyPrice:      number
+  realizedPl?:      number    // derived from the transaction ledger (see ledger.ts)
+  closedAt?:        number | null
+  userProjectedOvr: number
+  createdAt:        number
+}
+
+// An investment with its replayed ledger
+export interface LedgerPosition {
+  investment: Investment
+  ledger:     LedgerSummary
+}
+
+// Card fields the tracker shows beside a holding
+export interface PortfolioCard {
+  name:                  string
+  baked_img?:            string
+  ovr:                   number
+  team:                  string
+  display_position:      string
+  market_price:          number
+  market_exit_price:     number
+  predicted_rank:        number
+  confidence_percentage: number
+  qs_actual:             number
+  qs_pred:               number
+}
+
+export interface PortfolioHolding extends Investment {
+  card:   PortfolioCard | null
+  priced: boolean   // false when the card has no live prediction; values then fall back to cost
+
+  // selling on the marketplace today: market_value is gross, unrealized_pl is after the sell tax
+  cost:              number
+  market_value:      number
+  market_tax:        number
+  unrealized_pl:     number
+  unrealized_pl_pct: number
+
+  // the model's predicted_rank: quick-sell exit (untaxed) and market exit (after tax)
+  model_qs:           number
+  model_value:        number
+  model_pl:           number
+  model_market_value: number
+  model_market_pl:    number
+
+  // the user's own userProjectedOvr, valued the same two ways
+  user_qs:           number
+  user_value:        number
+  user_pl:           number
+  user_market_value: number
+  user_market_pl:    number
+
+  // realized so far from partial sells, after tax
+  realized_pl: number
+}
+
+// A position sold down to zero; proceeds are after the marketplace tax
+export interface ClosedPosition {
+  id:              string
+  playerUUID:      string
+  playerName?:     string
+  name:            string
+  baked_img?:      string
+  bought:          number
+  sold:            number
+  cost:            number
+  proceeds:        number
+  tax:             number
+  realized_pl:     number
+  realized_pl_pct: number
+  openedAt:        number | null
+  closedAt:        number | null
+}
+
+// Realized P&L of the sells made after one roster update and before the next
+// update is null for sells before the first known update
+export interface RealizedPeriod {
+  update:      string | null
+  sales:       number
+  proceeds:    number
+  tax:         number
+  realized_pl: number
+}
+
+export interface PortfolioTotals {
+  positions:         number
+  quantity:          number
+  cost:               number
+  market_value:       number
+  market_tax:         number
+  unrealized_pl:      number
+  unrealized_pl_pct:  number
+  model_value:        number
+  model_pl:           number
+  model_market_value: number
+  model_market_pl:    number
+  user_value:         number
+  user_pl:            number
+  user_market_value:  number
+  user_market_pl:     number
+  realized_pl:        number    // all-time, open and closed positions
+  tax_paid:          number
+}
+
+// One team or position's slice of the portfolio; share is % of total market value
+export interface AllocationSlice {
+  key:          string
+  positions:    number
+  quantity:     number
+  cost:         number
+  market_value: number
+  share:        number
+}
+
+export interface Portfolio {
+  uid:        string
+  holdings:   PortfolioHolding[]
+  closed:     ClosedPosition[]
+  realized:   RealizedPeriod[]
+  totals:     PortfolioTotals
+  allocation: {
+    team:     AllocationSlice[]
+    position: AllocationSlice[]
+  }
+}
+
+/**
+ * Value one holding under both exits, using the same tax model as valuation.ts
+ * Cards without a live prediction are held at cost, untaxed
+ */
+export function valueHolding(inv: Investment, card: CardPayload | undefined): PortfolioHolding {
+  const quantity    = Number(inv.quantity) || 0
+  const avgBuyPrice = Number(inv.avgBuyPrice) || 0
+
+  const price   = card ? card.market_price : avgBuyPrice
+  const market  = positionValue(quantity, avgBuyPrice, price)
+  const tax     = card ? quantity * marketTax(price) : 0
+  const modelQs = card ? card.qs_pred : avgBuyPrice
+  const model   = positionValue(quantity, avgBuyPrice, modelQs)
+  const userQs  = qsValue(Number(inv.userProjectedOvr))
+  const user    = positionValue(quantity, avgBuyPrice, userQs)
+
+  // market exits resell at the new QS floor plus today's premium, less the sell tax
+  const modelMarket = positionValue(quantity, avgBuyPrice,
+    card ? netSalePrice(card.market_exit_price) : avgBuyPrice)
+  const userMarket  = positionValue(quantity, avgBuyPrice,
+    card ? netSalePrice(marketExitPrice(userQs, price, card.qs_actual)) : userQs)
+
+  return {
+    ...inv,
+    card: card ? {
+      name:                  card.name,
+      baked_img:             card.baked_img,
+      ovr:                   card.ovr,
+      team:                  card.team,
+      display_position:      card.display_position,
+      market_price:          card.market_price,
+      market_exit_price:     card.market_exit_price,
+      predicted_rank:        card.predicted_rank,
+      confidence_percentage: card.confidence_percentage,
+      qs_actual:             card.qs_actual,
+      qs_pred:               card.qs_pred,
+    } : null,
+    priced: Boolean(card),
+
+    cost:              market.cost,
+    market_value:      market.value,
+    market_tax:        tax,
+    unrealized_pl:     market.profit - tax,
+    unrealized_pl_pct: profitPct(market.profit - tax, market.cost),
+
+    model_qs:           modelQs,
+    model_value:        model.value,
+    model_pl:           model.profit,
+    model_market_value: modelMarket.value,
+    model_market_pl:    modelMarket.profit,
+
+    user_qs:           userQs,
+    user_value:        user.value,
+    user_pl:           user.profit,
+    user_market_value: userMarket.value,
+    user_market_pl:    userMarket.profit,
+
+    realized_pl: Number(inv.realizedPl) || 0,
+  }
+}
+
+function closedPosition({ investment, ledger }: LedgerPosition, card: CardPayload | undefined): ClosedPosition {
+  const cost = ledger.sales.reduce((a, x) => a + x.costBasis, 0)
+  return {
+    id:              investment.id,
+    playerUUID:      investment.playerUUID,
+    playerName:      investment.playerName,
+    name:            card?.name || investment.playerName || 'Unknown',
+    baked_img:       card?.baked_img,
+    bought:          ledger.bought,
+    sold:            ledger.sold,
+    cost:            Math.round(cost * 100) / 100,
+    proceeds:        ledger.proceeds,
+    tax:             ledger.tax,
+    realized_pl:     ledger.realizedPl,
+    realized_pl_pct: profitPct(ledger.realizedPl, cost),
+    openedAt:        ledger.openedAt,
+    closedAt:        ledger.closedAt,
+  }
+}
+
+/**
+ * Group every sell by the latest roster update on or before its date
+ * `updates` are YYYY-MM-DD dates, oldest first; periods come back newest first
+ */
+export function realizedByUpdate(positions: LedgerPosition[], updates: string[]): RealizedPeriod[] {
+  const periods = new Map<string | null, RealizedPeriod>()
+  positions.forEach(({ ledger }) => ledger.sales.forEach(sale => {
+    const day = new Date(sale.date).toISOString().slice(0, 10)
+    const update = updates.filter(u => u <= day).pop() ?? null
+    const p = periods.get(update) ?? { update, sales: 0, proceeds: 0, tax: 0, realized_pl: 0 }
+    p.sales       += 1
+    p.proceeds    += sale.proceeds
+    p.tax         += sale.tax
+    p.realized_pl  = Math.round((p.realized_pl + sale.realizedPl) * 100) / 100
+    periods.set(update, p)
+  }))
+  return Array.from(periods.values())
+    .sort((a, b) => (b.update ?? '').localeCompare(a.update ?? ''))
+}
+
+function allocate(holdings: PortfolioHolding[], keyOf: (h: PortfolioHolding) => string, total: number): AllocationSlice[] {
+  const slices = new Map<string, AllocationSlice>()
+  holdings.forEach(h => {
+    const key = keyOf(h)
+    const s = slices.get(key) ?? { key, positions: 0, quantity: 0, cost: 0, market_value: 0, share: 0 }
+    s.positions    += 1
+    s.quantity     += h.quantity
+    s.cost         += h.cost
+    s.market_value += h.market_value
+    slices.set(key, s)
+  })
+  return Array.from(slices.values())
+    .map(s => ({ ...s, share: total > 0 ? Math.round((s.market_value / total) * 1000) / 10 : 0 }))
+    .sort((a, b) => b.market_value - a.market_value)
+}
+
+/**
+ * Value every open holding, list closed positions and roll up totals, allocation and realized P&L
+ */
+export function buildPortfolio(
+  uid: string,
+  positions: LedgerPosition[],
+  cards: CardPayload[],
+  updates: string[] = []
+): Portfolio {
+  const byId   = new Map(cards.map(c => [c.id, c]))
+  const isOpen = (p: LedgerPosition) => p.ledger.quantity > 0 || p.ledger.sold === 0
+
+  const holdings = positions.filter(isOpen).map(p => valueHolding({
+    ...p.investment,
+    quantity:    p.ledger.quantity,
+    avgBuyPrice: p.ledger.avgBuyPrice,
+    realizedPl:  p.ledger.realizedPl,
+  }, byId.get(p.investment.playerUUID)))
+
+  const closed = positions
+    .filter(p => !isOpen(p))
+    .map(p => closedPosition(p, byId.get(p.investment.playerUUID)))
+    .sort((a, b) => (b.closedAt ?? 0) - (a.closedAt ?? 0))
+
+  const sum = (pick: (h: PortfolioHolding) => number) => holdings.reduce((a, h) => a + pick(h), 0)
+  const cost        = sum(h => h.cost)
+  const marketValue = sum(h => h.market_value)
+  const marketTaxes = sum(h => h.market_tax)
+
+  return {
+    uid,
+    holdings,
+    closed,
+    realized: realizedByUpdate(positions, updates),
+    totals: {
+      positions:          holdings.length,
+      quantity:           sum(h => h.quantity),
+      cost,
+      market_value:       marketValue,
+      market_tax:         marketTaxes,
+      unrealized_pl:      marketValue - marketTaxes - cost,
+      unrealized_pl_pct:  profitPct(marketValue - marketTaxes - cost, cost),
+      model_value:        sum(h => h.model_value),
+      model_pl:           sum(h => h.model_pl),
+      model_market_value: sum(h => h.model_market_value),
+      model_market_pl:    sum(h => h.model_market_pl),
+      user_value:         sum(h => h.user_value),
+      user_pl:            sum(h => h.user_pl),
+      user_market_value:  sum(h => h.user_market_value),
+      user_market_pl:     sum(h => h.user_market_pl),
+      realized_pl:        Math.round(positions.reduce((a, p) => a + p.ledger.realizedPl, 0) * 100) / 100,
+      tax_paid:           positions.reduce((a, p) => a + p.ledger.tax, 0),
+    },
+    allocation: {
+      team:     allocate(holdings, h => h.card?.team || 'Unknown', marketValue),
+      position: allocate(holdings, h => h.card?.display_position || 'Unknown', marketValue),
+    },
+  }
+}
+
+/**
+ * Load a user's investments and their ledgers and value them against the live card payloads
+ */
+export async function loadPortfolio(uid: string): Promise<Portfolio> {
+  const [snap, cards, updates] = await Promise.all([
+    firestore
+      .collection('users').doc(uid)
+      .collection('investments')
+      .orderBy('createdAt', 'desc')
+      .get(),
+    loadLiveCards(),
+    loadReleasedUpdateDates(),
+  ])
+
+  const positions = await Promise.all(snap.docs.map(async d => {
+    const investment = { id: d.id, ...d.data() } as Investment
+    const txSnap = await d.ref.collection('transactions').get()
+    const txs = txSnap.docs.map(t => ({ id: t.id, ...t.data() } as Transaction))
+    // pre-ledger investments are replayed with an in-memory opening buy
+    const opening = openingTransaction(d.data(), txs)
+    if (opening) txs.push({ id: 'opening', ...opening })
+    return { investment, ledger: summarizeLedger(txs) }
+  }))
+
+  return buildPortfolio(uid, positions, cards, updates)
+}
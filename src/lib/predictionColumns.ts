@@ -0,0 +1,78 @@
+// src/lib/predictionColumns.ts
+// Column groups and labels for the predictions table, shared with the export route
+// so downloaded files use the same headers as the screen
+
+// columns shown before the user picks any
+export const DEFAULT_KEYS = [
+  'card',
+  'name',
+  'ovr',
+  'delta_rank_pred',
+  'confidence_percentage',
+  'market_price',
+  'qs_pred',
+  'predicted_profit',
+  'predicted_profit_pct',
+]
+
+// define your column groups
+export const COLUMN_GROUPS = [
+  {
+    group: 'details',
+    label: 'Details',
+    cols: [
+      { key: 'card', label: 'Card' },
+      { key: 'name', label: 'Name' },
+      { key: 'team', label: 'Team' },
+      { key: 'team_short_name', label: 'Team (abbr)' },
+      { key: 'display_position', label: 'Pos' },
+      { key: 'age', label: 'Age' },
+      { key: 'ovr', label: 'Current Overall' },
+    ]
+  },
+  {
+    group: 'predictions',
+    label: 'Predictions',
+    cols: [
+      { key: 'delta_rank_low',      label: 'Change In Rank Low' },
+      { key: 'delta_rank_pred',     label: 'Change In Rank Predicted' },
+      { key: 'delta_rank_high',     label: 'Change In Rank High' },
+      { key: 'predicted_rank_low',  label: 'Predicted Rank Low' },
+      { key: 'predicted_rank',      label: 'Predicted Rank' },
+      { key: 'predicted_rank_high', label: 'Predicted Rank High' },
+      { key: 'confidence_percentage', label: 'Confidence %' },
+      { key: 'interval_width',      label: 'Interval Width' },
+    ]
+  },
+  {
+    group: 'market',
+    label: 'Market',
+    cols: [
+      { key: 'qs_actual',            label: 'Current QS' },
+      { key: 'qs_pred_low',          label: 'QS Predicted Low' },
+      { key: 'qs_pred',              label: 'QS Predicted' },
+      { key: 'qs_pred_high',         label: 'QS Predicted High' },
+      { key: 'market_price',         label: 'Current Price' },
+      { key: 'predicted_profit_low',  label: 'Predicted Profit Low' },
+      { key: 'predicted_profit',      label: 'Predicted Profit' },
+      { key: 'predicted_profit_high', label: 'Predicted Profit High' },
+      { key: 'predicted_ev_profit',   label: 'Expected Profit' },
+      { key: 'predicted_profit_pct',  label: 'Profit %' },
+      { key: 'market_exit_price',            label: 'Market Exit Price' },
+      { key: 'predicted_profit_market_low',  label: 'Market-Exit Profit Low' },
+      { key: 'predicted_profit_market',      label: 'Market-Exit Profit' },
+      { key: 'predicted_profit_market_high', label: 'Market-Exit Profit High' },
+      { key: 'predicted_profit_market_pct',  label: 'Market-Exit Profit %' },
+      { key: 'prob_profit',           label: 'Profit Chance' },
+      { key: 'prob_upgrade',          label: 'Upgrade Chance' },
+      { key: 'prob_downgrade',        label: 'Downgrade Chance' },
+      { key: 'prob_next_qs_step',     label: 'Next QS Step Chance' },
+    ]
+  }
+]
+
+// human‐friendly labels
+export const LABELS: Record<string,string> = {}
+COLUMN_GROUPS.forEach(g =>
+  g.cols.forEach(c => { LABELS[c.key] = c.label })
+)
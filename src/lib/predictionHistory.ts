@@ -0,0 +1,192 @@
+// src/lib/predictionHistory.ts
+// Dated prediction snapshots under cards/{id}/predictions/{YYYY-MM-DD} and their realized outcomes
+// Each snapshot freezes the card's OVR at capture time, so a change in OVR between
+// consecutive snapshots marks a roster update and gives the realized rating
+import { firestore } from '@/lib/firebaseAdmin'
+
+export interface PredictionSnapshot {
+  date:                string
+  ovr:                 number
+  predicted_rank:      number
+  predicted_rank_low:  number
+  predicted_rank_high: number
+  market_price?:       number | null
+}
+
+// How the last prediction before a roster update compared with the rating the card received
+export interface PredictionOutcome {
+  update_date:         string
+  prediction_date:     string
+  ovr_before:          number
+  ovr_after:           number
+  predicted_rank:      number
+  predicted_rank_low:  number
+  predicted_rank_high: number
+  error:               number
+  within_interval:     boolean
+  direction_hit:       boolean
+}
+
+export interface PredictionAccuracy {
+  updates:            number
+  mae:                number | null
+  interval_coverage:  number | null
+  direction_hit_rate: number | null
+}
+
+// Firestore batches are capped at 500 writes
+const BATCH_LIMIT = 500
+
+export const snapshotDate = (d: Date = new Date()) => d.toISOString().slice(0, 10)
+
+const round2 = (n: number) => Math.round(n * 100) / 100
+
+/**
+ * Copy every card's latestPrediction into a dated snapshot, tagged with the card's current OVR
+ * Re-running on the same day overwrites that day's snapshot
+ */
+export async function snapshotAllPredictions(date: string = snapshotDate()): Promise<number> {
+  const snap = await firestore
+    .collection('cards')
+    .where('latestPrediction', '!=', null)
+    .select(
+      'ovr',
+      'latestPrediction.predicted_rank',
+      'latestPrediction.predicted_rank_low',
+      'latestPrediction.predicted_rank_high',
+      'latestMarket.sell'
+    )
+    .get()
+
+  let batch   = firestore.batch()
+  let pending = 0
+  let written = 0
+
+  for (const doc of snap.docs) {
+    const data = doc.data()
+    const pred = data.latestPrediction ?? {}
+    const snapshot: PredictionSnapshot = {
+      date,
+      ovr:                 Number(data.ovr) || 0,
+      predicted_rank:      Number(pred.predicted_rank),
+      predicted_rank_low:  Number(pred.predicted_rank_low),
+      predicted_rank_high: Number(pred.predicted_rank_high),
+      market_price:        typeof data.latestMarket?.sell === 'number' ? data.latestMarket.sell : null,
+    }
+    if (Number.isNaN(snapshot.predicted_rank)) continue
+
+    batch.set(doc.ref.collection('predictions').doc(date), {
+      ...snapshot,
+      recordedAt: Date.now()
+    })
+    pending++
+    written++
+
+    if (pending === BATCH_LIMIT) {
+      await batch.commit()
+      batch   = firestore.batch()
+      pending = 0
+    }
+  }
+  if (pending > 0) await batch.commit()
+
+  return written
+}
+
+/**
+ * Load a card's dated snapshots, oldest first (the `latest` doc is skipped)
+ */
+export async function loadPredictionSnapshots(cardId: string): Promise<PredictionSnapshot[]> {
+  const snap = await firestore
+    .collection('cards').doc(cardId)
+    .collection('predictions')
+    .orderBy('date', 'asc')
+    .get()
+
+  return snap.docs
+    .filter(d => d.id !== 'latest')
+    .map(d => {
+      const data = d.data()
+      return {
+        date:                String(data.date ?? d.id),
+        ovr:                 Number(data.ovr) || 0,
+        predicted_rank:      Number(data.predicted_rank),
+        predicted_rank_low:  Number(data.predicted_rank_low),
+        predicted_rank_high: Number(data.predicted_rank_high),
+        market_price:        typeof data.market_price === 'number' ? data.market_price : null,
+      }
+    })
+}
+
+/**
+ * Score one frozen prediction against the rating the card actually received
+ */
+export function evaluatePrediction(
+  pred: Pick<PredictionSnapshot, 'predicted_rank' | 'predicted_rank_low' | 'predicted_rank_high'>,
+  ovrBefore: number,
+  ovrAfter: number
+) {
+  const predictedDir = Math.sign(Math.round(pred.predicted_rank) - ovrBefore)
+  const actualDir    = Math.sign(ovrAfter - ovrBefore)
+  return {
+    error:           round2(pred.predicted_rank - ovrAfter),
+    within_interval: ovrAfter >= Math.floor(pred.predicted_rank_low) &&
+                     ovrAfter <= Math.ceil(pred.predicted_rank_high),
+    direction_hit:   predictedDir === actualDir,
+  }
+}
+
+/**
+ * Walk the snapshots and emit an outcome wherever the frozen OVR changes
+ * `currentOvr` catches an update that landed after the most recent snapshot
+ */
+export function deriveOutcomes(
+  snapshots: PredictionSnapshot[],
+  currentOvr?: number,
+  today: string = snapshotDate()
+): PredictionOutcome[] {
+  const outcomes: PredictionOutcome[] = []
+
+  const push = (before: PredictionSnapshot, ovrAfter: number, updateDate: string) => {
+    outcomes.push({
+      update_date:         updateDate,
+      prediction_date:     before.date,
+      ovr_before:          before.ovr,
+      ovr_after:           ovrAfter,
+      predicted_rank:      before.predicted_rank,
+      predicted_rank_low:  before.predicted_rank_low,
+      predicted_rank_high: before.predicted_rank_high,
+      ...evaluatePrediction(before, before.ovr, ovrAfter),
+    })
+  }
+
+  for (let i = 1; i < snapshots.length; i++) {
+    if (snapshots[i].ovr !== snapshots[i - 1].ovr) {
+      push(snapshots[i - 1], snapshots[i].ovr, snapshots[i].date)
+    }
+  }
+
+  const last = snapshots[snapshots.length - 1]
+  if (last && typeof currentOvr === 'number' && currentOvr !== last.ovr) {
+    push(last, currentOvr, today)
+  }
+
+  return outcomes
+}
+
+/**
+ * Aggregate accuracy across a set of outcomes (null when there is nothing to score)
+ */
+export function summarizeOutcomes(outcomes: PredictionOutcome[]): PredictionAccuracy {
+  const n = outcomes.length
+  if (!n) {
+    return { updates: 0, mae: null, interval_coverage: null, direction_hit_rate: null }
+  }
+  const sum = (f: (o: PredictionOutcome) => number) => outcomes.reduce((a, o) => a + f(o), 0)
+  return {
+    updates:            n,
+    mae:                round2(sum(o => Math.abs(o.error)) / n),
+    interval_coverage:  round2((sum(o => o.within_interval ? 1 : 0) / n) * 100),
+    direction_hit_rate: round2((sum(o => o.direction_hit ? 1 : 0) / n) * 100),
+  }
+}
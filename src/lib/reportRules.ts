@@ -0,0 +1,143 @@
+// src/lib/reportRules.ts
+// User reports on chat messages and card comments, and the moderator actions that resolve them
+// Pure types and validation shared by the report API, the Report forms and /admin/moderation;
+// storage lives in reports.ts and the moderator check in roleAuth.ts
+import type { FieldErrors, Validated } from '@/lib/apiError'
+import type { ModerationSurface } from '@/lib/moderation'
+
+export type ReportReason = 'spam' | 'harassment' | 'hate' | 'explicit' | 'other'
+
+export const REPORT_REASONS: Record<ReportReason, string> = {
+  spam:       'Spam or scam',
+  harassment: 'Harassment or bullying',
+  hate:       'Hate speech',
+  explicit:   'Sexual or graphic content',
+  other:      'Something else',
+}
+
+export type ReportStatus = 'open' | 'hidden' | 'deleted' | 'dismissed'
+
+export type ReportAction = 'hide' | 'delete' | 'dismiss'
+
+export const REPORT_ACTIONS: Record<ReportAction, ReportStatus> = {
+  hide:    'hidden',
+  delete:  'deleted',
+  dismiss: 'dismissed',
+}
+
+// chat rooms that can be reported into (chat_{room})
+export const CHAT_ROOMS = ['main', 'investing', 'flipping', 'stub']
+
+export const MAX_NOTE = 500
+
+export interface ReportInput {
+  surface:   ModerationSurface
+  target:    string          // chat room or card id
+  contentId: string
+  reason:    ReportReason
+  note:      string | null
+}
+
+export interface ReportEntry {
+  reporterId: string
+  reason:     ReportReason
+  note:       string | null
+  createdAt:  number
+}
+
+// reports/{surface}:{target}:{contentId}; one document per reported post, however many reporters
+export interface ReportData {
+  surface:       ModerationSurface
+  target:        string
+  contentId:     string
+  contentUserId: string
+  contentText:   string   // as it read when first reported, so hiding it doesn't lose the evidence
+  status:        ReportStatus
+  reporters:     string[]
+  entries:       ReportEntry[]
+  createdAt:     number
+  updatedAt:     number
+  resolvedBy:    string | null
+  resolvedAt:    number | null
+}
+
+export interface Report extends ReportData {
+  id: string
+}
+
+// moderationLog/{id}: every moderator decision, newest read first
+export type AuditAction = ReportAction | 'approve' | 'reject'
+
+export interface AuditEntry {
+  id:            string
+  action:        AuditAction
+  moderatorId:   string
+  note:          string | null
+  surface:       ModerationSurface
+  target:        string
+  contentId:     string | null   // null for a rejected held post, which never got one
+  contentUserId: string
+  contentText:   string
+  reportId:      string | null
+  heldPostId:    string | null
+  createdAt:     number
+}
+
+const note = (v: unknown, errors: FieldErrors): string | null => {
+  if (v == null || v === '') return null
+  if (typeof v !== 'string' || v.trim().length > MAX_NOTE) {
+    errors.note = `At most ${MAX_NOTE} characters`
+    return null
+  }
+  return v.trim() || null
+}
+
+const validId = (v: unknown) => typeof v === 'string' && v.length > 0 && v.length <= 128 && !v.includes('/')
+
+/**
+ * POST /api/reports body
+ */
+export function validateReport(input: unknown): Validated<ReportInput> {
+  const body = input && typeof input === 'object' ? input as Record<string, unknown> : {}
+  const errors: FieldErrors = {}
+
+  const { surface, target, contentId, reason } = body
+  if (surface !== 'chat' && surface !== 'comments') errors.surface = 'Must be chat or comments'
+  if (!validId(target) || (surface === 'chat' && !CHAT_ROOMS.includes(target as string))) {
+    errors.target = surface === 'chat' ? `Must be one of ${CHAT_ROOMS.join(', ')}` : 'Must be a card id'
+  }
+  if (!validId(contentId)) errors.contentId = 'Must be a message or comment id'
+  if (typeof reason !== 'string' || !Object.hasOwn(REPORT_REASONS, reason)) {
+    errors.reason = `Must be one of ${Object.keys(REPORT_REASONS).join(', ')}`
+  }
+  const n = note(body.note, errors)
+
+  if (Object.keys(errors).length > 0) return { ok: false, fields: errors }
+  return {
+    ok: true,
+    value: {
+      surface:   surface as ModerationSurface,
+      target:    target as string,
+      contentId: contentId as string,
+      reason:    reason as ReportReason,
+      note:      n,
+    },
+  }
+}
+
+/**
+ * Moderator decision body: `{ action, note? }` with `action` one of `actions`
+ */
+export function validateDecision<A extends string>(
+  input:   unknown,
+  actions: readonly A[]
+): Validated<{ action: A; note: string | null }> {
+  const body = input && typeof input === 'object' ? input as Record<string, unknown> : {}
+  const errors: FieldErrors = {}
+
+  if (!actions.includes(body.action as A)) errors.action = `Must be one of ${actions.join(', ')}`
+  const n = note(body.note, errors)
+
+  if (Object.keys(errors).length > 0) return { ok: false, fields: errors }
+  return { ok: true, value: { action: body.action as A, note: n } }
+}
@@ -0,0 +1,227 @@
+// src/lib/reports.ts
+// Report storage (reports/{surface}:{target}:{contentId}), the moderator review actions on reported
+// and held posts, and their audit trail in moderationLog
+// Callers check the moderator role (roleAuth.ts) before calling the review functions
+import { firestore } from '@/lib/firebaseAdmin'
+import { postData, postsRef, type HeldPost } from '@/lib/moderation'
+import {
+  REPORT_ACTIONS,
+  type AuditEntry,
+  type Report,
+  type ReportAction,
+  type ReportData,
+  type ReportInput,
+  type ReportStatus
+} from '@/lib/reportRules'
+import { blockingSanction } from '@/lib/sanctions'
+import { ApiError } from '@/lib/apiError'
+
+export class ReportError extends ApiError {
+  constructor(message: string, status: number) {
+    super(message, status)
+    this.name = 'ReportError'
+  }
+}
+
+export const REVIEW_LIMIT = 100
+export const LOG_LIMIT    = 50
+
+const reportsRef  = () => firestore.collection('reports')
+const logRef      = () => firestore.collection('moderationLog')
+const queueRef    = () => firestore.collection('moderationQueue')
+
+type LogRef = ReturnType<ReturnType<typeof logRef>['doc']>
+
+// a write batch or a transaction
+interface Writer {
+  set(ref: LogRef, data: Omit<AuditEntry, 'id'>): unknown
+}
+
+function audit(writer: Writer, entry: Omit<AuditEntry, 'id' | 'createdAt'>, now: number) {
+  writer.set(logRef().doc(), { ...entry, createdAt: now })
+}
+
+/**
+ * File a report, or add the reporter to the post's existing one.
+ * A dismissed report reopens when someone new reports the post
+ */
+export async function fileReport(uid: string, input: ReportInput): Promise<{ report: Report; created: boolean }> {
+  const contentRef = postsRef(input.surface, input.target).doc(input.contentId)
+  const reportRef  = reportsRef().doc(`${input.surface}:${input.target}:${input.contentId}`)
+  const now = Date.now()
+  const entry = { reporterId: uid, reason: input.reason, note: input.note, createdAt: now }
+
+  return firestore.runTransaction(async tx => {
+    const [content, existing] = await Promise.all([tx.get(contentRef), tx.get(reportRef)])
+    if (!content.exists || content.get('hidden') === true ||
+        (input.surface === 'comments' && content.get('playerId') !== input.target)) {
+      throw new ReportError('Post not found', 404)
+    }
+    if (content.get('userId') === uid) throw new ReportError("You can't report your own post", 400)
+
+    if (existing.exists) {
+      const report = existing.data() as ReportData
+      if (report.reporters.includes(uid)) return { report: { id: existing.id, ...report }, created: false }
+
+      const updated: ReportData = {
+        ...report,
+        status:    report.status === 'dismissed' ? 'open' : report.status,
+        reporters: [...report.reporters, uid],
+        entries:   [...report.entries, entry],
+        updatedAt: now,
+      }
+      tx.set(reportRef, updated)
+      return { report: { id: existing.id, ...updated }, created: false }
+    }
+
+    const report: ReportData = {
+      surface:       input.surface,
+      target:        input.target,
+      contentId:     input.contentId,
+      contentUserId: content.get('userId'),
+      contentText:   content.get('text') ?? '',
+      status:        'open',
+      reporters:     [uid],
+      entries:       [entry],
+      createdAt:     now,
+      updatedAt:     now,
+      resolvedBy:    null,
+      resolvedAt:    null,
+    }
+    tx.set(reportRef, report)
+    return { report: { id: reportRef.id, ...report }, created: true }
+  })
+}
+
+/**
+ * Reports in one state, most recently reported first
+ */
+export async function loadReports(status: ReportStatus, limit = REVIEW_LIMIT): Promise<Report[]> {
+  const snap = await reportsRef().where('status', '==', status).orderBy('updatedAt', 'desc').limit(limit).get()
+  return snap.docs.map(d => ({ id: d.id, ...d.data() } as Report))
+}
+
+/**
+ * Hide (blank the text but keep the thread), delete (with its replies) or dismiss a report.
+ * Open and dismissed reports can be acted on; hidden and deleted ones are final
+ */
+export async function resolveReport(
+  reportId:    string,
+  moderatorId: string,
+  action:      ReportAction,
+  note:        string | null
+): Promise<Report> {
+  const ref  = reportsRef().doc(reportId)
+  const snap = await ref.get()
+  if (!snap.exists) throw new ReportError('Report not found', 404)
+  const report = snap.data() as ReportData
+  if (report.status === 'hidden' || report.status === 'deleted') {
+    throw new ReportError(`This post was already ${report.status}`, 409)
+  }
+
+  const now = Date.now()
+  const contentRef = postsRef(report.surface, report.target).doc(report.contentId)
+  const batch = firestore.batch()
+
+  if (action === 'hide') {
+    const content = await contentRef.get()
+    if (content.exists) batch.update(contentRef, { hidden: true, text: '', hiddenBy: moderatorId, hiddenAt: now })
+  } else if (action === 'delete') {
+    const replies = await postsRef(report.surface, report.target).where('parentId', '==', report.contentId).get()
+    batch.delete(contentRef)
+    replies.docs.forEach(d => batch.delete(d.ref))
+  }
+
+  const resolved: ReportData = {
+    ...report,
+    status:     REPORT_ACTIONS[action],
+    updatedAt:  now,
+    resolvedBy: moderatorId,
+    resolvedAt: now,
+  }
+  batch.set(ref, resolved)
+  audit(batch, {
+    action,
+    moderatorId,
+    note,
+    surface:       report.surface,
+    target:        report.target,
+    contentId:     report.contentId,
+    contentUserId: report.contentUserId,
+    contentText:   report.contentText,
+    reportId,
+    heldPostId:    null,
+  }, now)
+  await batch.commit()
+
+  return { id: reportId, ...resolved }
+}
+
+export type HeldPostItem = HeldPost & { id: string }
+
+/**
+ * Posts a hold rule parked in moderationQueue, oldest first
+ */
+export async function loadHeldPosts(limit = REVIEW_LIMIT): Promise<HeldPostItem[]> {
+  const snap = await queueRef().orderBy('createdAt').limit(limit).get()
+  return snap.docs.map(d => ({ id: d.id, ...d.data() } as HeldPostItem))
+}
+
+/**
+ * Approve (publish with its original time) or reject a held post; either way it leaves the queue.
+ * Publishing, leaving the queue and the audit entry happen in one transaction, so a post approved
+ * twice at once (or retried) is published only once. Approval is refused while the author's
+ * sanction stops them posting
+ */
+export async function reviewHeldPost(
+  postId:      string,
+  moderatorId: string,
+  action:      'approve' | 'reject',
+  note:        string | null
+): Promise<{ contentId: string | null }> {
+  const ref = queueRef().doc(postId)
+
+  return firestore.runTransaction(async tx => {
+    const snap = await tx.get(ref)
+    if (!snap.exists) throw new ReportError('Held post not found; it may already have been reviewed', 404)
+    const held = snap.data() as HeldPost
+
+    // a post queued before its author was muted or banned stays out; it can still be rejected
+    if (action === 'approve') {
+      const sanction = await blockingSanction(held.userId, 'post')
+      if (sanction) {
+        throw new ReportError(`The author has an active ${sanction.kind}; reject the post or lift the ${sanction.kind} first`, 409)
+      }
+    }
+
+    let contentId: string | null = null
+    if (action === 'approve') {
+      const postRef = postsRef(held.surface, held.target).doc()
+      tx.set(postRef, postData(held.surface, held.target, held.userId, held.text, held.parentId, held.createdAt))
+      contentId = postRef.id
+    }
+
+    tx.delete(ref)
+    audit(tx, {
+      action,
+      moderatorId,
+      note,
+      surface:       held.surface,
+      target:        held.target,
+      contentId,
+      contentUserId: held.userId,
+      contentText:   held.text,
+      reportId:      null,
+      heldPostId:    postId,
+    }, Date.now())
+    return { contentId }
+  })
+}
+
+/**
+ * The newest moderator decisions
+ */
+export async function loadAuditLog(limit = LOG_LIMIT): Promise<AuditEntry[]> {
+  const snap = await logRef().orderBy('createdAt', 'desc').limit(limit).get()
+  return snap.docs.map(d => ({ id: d.id, ...d.data() } as AuditEntry))
+}
@@ -0,0 +1,77 @@
+// src/lib/roleAuth.ts
+// Role management: grant and revoke the role custom claim, mirrored in roles/{uid} for listing
+// Routes require a role through withAuth({ auth: 'moderator' | 'admin' })
+import admin from 'firebase-admin'
+import { firestore } from '@/lib/firebaseAdmin'
+import { roleOf, type Role } from '@/lib/roles'
+import { ApiError } from '@/lib/apiError'
+
+export class RoleError extends ApiError {
+  constructor(message: string, status: number) {
+    super(message, status)
+    this.name = 'RoleError'
+  }
+}
+
+// roles/{uid}: who holds a role above user, for the admin UI (claims can't be listed)
+export interface RoleGrant {
+  uid:       string
+  role:      Exclude<Role, 'user'>
+  email:     string | null
+  username:  string | null
+  grantedBy: string   // uid, or 'server' for CRON_SECRET jobs
+  grantedAt: number
+}
+
+const rolesRef = () => firestore.collection('roles')
+
+/**
+ * Everyone holding a role above user, admins first
+ */
+export async function loadRoleGrants(): Promise<RoleGrant[]> {
+  const snap = await rolesRef().get()
+  return snap.docs
+    .map(d => d.data() as RoleGrant)
+    .sort((a, b) => a.role.localeCompare(b.role) || (a.username ?? '').localeCompare(b.username ?? ''))
+}
+
+/**
+ * Set a user's role claim ('user' revokes) by uid or email; other custom claims are kept.
+ * The user's next ID token refresh (at most an hour, or on sign-in) picks it up
+ */
+export async function setRole(
+  who:       { uid: string | null; email: string | null },
+  role:      Role,
+  grantedBy: string
+): Promise<{ uid: string; role: Role; previous: Role }> {
+  let user: admin.auth.UserRecord
+  try {
+    user = who.uid ? await admin.auth().getUser(who.uid) : await admin.auth().getUserByEmail(who.email!)
+  } catch {
+    throw new RoleError('User not found', 404)
+  }
+  if (user.uid === grantedBy) throw new RoleError("You can't change your own role", 400)
+
+  const previous = roleOf(user.customClaims)
+  const claims = { ...user.customClaims }
+  if (role === 'user') delete claims.role
+  else claims.role = role
+  await admin.auth().setCustomUserClaims(user.uid, claims)
+
+  const ref = rolesRef().doc(user.uid)
+  if (role === 'user') {
+    await ref.delete()
+  } else {
+    const profile = await firestore.collection('users').doc(user.uid).get()
+    const grant: RoleGrant = {
+      uid:       user.uid,
+      role,
+      email:     user.email ?? null,
+      username:  profile.get('username') ?? null,
+      grantedBy,
+      grantedAt: Date.now(),
+    }
+    await ref.set(grant)
+  }
+  return { uid: user.uid, role, previous }
+}
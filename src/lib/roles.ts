@@ -0,0 +1,54 @@
+// src/lib/roles.ts
+// Roles carried as the `role` custom claim on Firebase ID tokens: admin > moderator > user
+// Pure helpers shared by API routes (see roleAuth.ts) and pages that show role-only UI
+import type { FieldErrors, Validated } from '@/lib/apiError'
+
+export type Role = 'user' | 'moderator' | 'admin'
+
+// lowest to highest; each role can do everything the ones before it can
+export const ROLES: Role[] = ['user', 'moderator', 'admin']
+
+export const ROLE_LABELS: Record<Role, string> = {
+  user:      'User',
+  moderator: 'Moderator',
+  admin:     'Admin',
+}
+
+/**
+ * The role in a token's claims; no (or an unknown) claim means a plain user
+ */
+export function roleOf(claims: Record<string, unknown> | null | undefined): Role {
+  const role = claims?.role
+  return ROLES.includes(role as Role) ? role as Role : 'user'
+}
+
+/**
+ * True when the claims carry `required` or a higher role
+ */
+export function hasRole(claims: Record<string, unknown> | null | undefined, required: Role): boolean {
+  return ROLES.indexOf(roleOf(claims)) >= ROLES.indexOf(required)
+}
+
+export interface RoleChange {
+  uid:   string | null
+  email: string | null
+  role:  Role
+}
+
+/**
+ * POST /api/admin/roles body: `{ uid | email, role }`; role 'user' revokes
+ */
+export function validateRoleChange(input: unknown): Validated<RoleChange> {
+  const body = input && typeof input === 'object' ? input as Record<string, unknown> : {}
+  const errors: FieldErrors = {}
+
+  const uid   = typeof body.uid === 'string' && body.uid.trim() ? body.uid.trim() : null
+  const email = typeof body.email === 'string' && body.email.trim() ? body.email.trim().toLowerCase() : null
+  if (!uid && !email) errors.uid = 'Give a uid or an email'
+  else if (uid && (uid.length > 128 || uid.includes('/'))) errors.uid = 'Must be a user id'
+  else if (!uid && !/^[^\s@]+@[^\s@]+$/.test(email!)) errors.email = 'Must be an email address'
+  if (!ROLES.includes(body.role as Role)) errors.role = `Must be one of ${ROLES.join(', ')}`
+
+  if (Object.keys(errors).length > 0) return { ok: false, fields: errors }
+  return { ok: true, value: { uid, email: uid ? null : email, role: body.role as Role } }
+}
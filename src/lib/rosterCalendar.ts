@@ -0,0 +1,99 @@
+// src/lib/rosterCalendar.ts
+// Roster update calendar shared by the roster-updates API, the Navbar countdown and the prediction pages
+// Pure functions only (no Firebase imports); storage lives in rosterUpdates.ts
+import type { FieldErrors, Validated } from '@/lib/apiError'
+
+// upcoming: scheduled; live: released, new ratings going in; settled: ratings final (and backtested)
+export type RosterUpdateState = 'upcoming' | 'live' | 'settled'
+
+export const ROSTER_UPDATE_STATES: RosterUpdateState[] = ['upcoming', 'live', 'settled']
+
+// rosterUpdates/{date}
+export interface RosterUpdate {
+  date:      string          // YYYY-MM-DD, also the document id and the backtest id
+  releaseAt: number          // when the update drops (ms)
+  state:     RosterUpdateState
+  label:     string | null   // e.g. "Season Debut"; the date is shown when missing
+  updatedAt: number
+}
+
+export type RosterUpdateInput = Omit<RosterUpdate, 'updatedAt'>
+
+// updates usually drop at 1pm ET; used when a schedule only gives the date
+export const DEFAULT_RELEASE_UTC = 'T17:00:00Z'
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/
+const MAX_LABEL = 60
+
+/**
+ * POST /api/roster-updates body; `releaseAt` may be ms or an ISO string
+ */
+export function validateRosterUpdate(input: unknown): Validated<RosterUpdateInput> {
+  const body = input && typeof input === 'object' ? input as Record<string, unknown> : {}
+  const errors: FieldErrors = {}
+
+  const { date, releaseAt, state = 'upcoming', label = null } = body
+  if (typeof date !== 'string' || !DATE_RE.test(date) || isNaN(Date.parse(date))) {
+    errors.date = 'Must be YYYY-MM-DD'
+  }
+
+  let release = NaN
+  if (releaseAt == null) {
+    if (!errors.date) release = Date.parse(`${date}${DEFAULT_RELEASE_UTC}`)
+  } else {
+    release = typeof releaseAt === 'number' ? releaseAt
+      : typeof releaseAt === 'string' ? Date.parse(releaseAt)
+      : NaN
+    if (!Number.isFinite(release)) errors.releaseAt = 'Must be a timestamp or ISO date-time'
+  }
+
+  if (typeof state !== 'string' || !ROSTER_UPDATE_STATES.includes(state as RosterUpdateState)) {
+    errors.state = `Must be one of ${ROSTER_UPDATE_STATES.join(', ')}`
+  }
+  if (label !== null && (typeof label !== 'string' || label.trim().length > MAX_LABEL)) {
+    errors.label = `At most ${MAX_LABEL} characters`
+  }
+
+  if (Object.keys(errors).length > 0) return { ok: false, fields: errors }
+  return {
+    ok: true,
+    value: {
+      date:      date as string,
+      releaseAt: release,
+      state:     state as RosterUpdateState,
+      label:     (label as string | null)?.trim() || null,
+    },
+  }
+}
+
+/**
+ * The update current predictions target: the earliest one still upcoming
+ */
+export function nextRosterUpdate(updates: RosterUpdate[]): RosterUpdate | null {
+  return updates
+    .filter(u => u.state === 'upcoming')
+    .sort((a, b) => a.releaseAt - b.releaseAt)[0] ?? null
+}
+
+/**
+ * "Season Debut (Apr 25)" or just "Apr 25"
+ */
+export function rosterUpdateLabel(u: Pick<RosterUpdate, 'date' | 'label'>): string {
+  const day = new Date(`${u.date}T00:00:00Z`)
+    .toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' })
+  return u.label ? `${u.label} (${day})` : day
+}
+
+/**
+ * "3d 4h", "4h 12m", "12m", or null once the time has passed
+ */
+export function formatCountdown(ms: number): string | null {
+  if (ms <= 0) return null
+  const minutes = Math.ceil(ms / 60000)
+  const d = Math.floor(minutes / 1440)
+  const h = Math.floor((minutes % 1440) / 60)
+  const m = minutes % 60
+  if (d > 0) return `${d}d ${h}h`
+  if (h > 0) return `${h}h ${m}m`
+  return `${m}m`
+}
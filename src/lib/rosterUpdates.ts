@@ -0,0 +1,54 @@
+// src/lib/rosterUpdates.ts
+// Roster update calendar storage (rosterUpdates/{date}), managed through /api/roster-updates
+// Validation, countdown and labelling helpers live in rosterCalendar.ts for client use
+import { firestore } from '@/lib/firebaseAdmin'
+import { loadUpdateDates } from '@/lib/backtest'
+import type { RosterUpdate, RosterUpdateInput } from '@/lib/rosterCalendar'
+import { ApiError } from '@/lib/apiError'
+
+export class RosterUpdateError extends ApiError {
+  constructor(message: string, status: number) {
+    super(message, status)
+    this.name = 'RosterUpdateError'
+  }
+}
+
+const rosterUpdatesRef = () => firestore.collection('rosterUpdates')
+
+/**
+ * Every scheduled and past update, oldest first
+ */
+export async function loadRosterUpdates(): Promise<RosterUpdate[]> {
+  const snap = await rosterUpdatesRef().orderBy('date').get()
+  return snap.docs.map(d => d.data() as RosterUpdate)
+}
+
+/**
+ * Create or replace the update on `input.date`; returns it and whether it's new
+ */
+export async function saveRosterUpdate(input: RosterUpdateInput): Promise<{ update: RosterUpdate; created: boolean }> {
+  const ref = rosterUpdatesRef().doc(input.date)
+  const update: RosterUpdate = { ...input, updatedAt: Date.now() }
+  const created = await firestore.runTransaction(async tx => {
+    const existing = await tx.get(ref)
+    tx.set(ref, update)
+    return !existing.exists
+  })
+  return { update, created }
+}
+
+export async function deleteRosterUpdate(date: string): Promise<void> {
+  const ref = rosterUpdatesRef().doc(date)
+  if (!(await ref.get()).exists) throw new RosterUpdateError('Roster update not found', 404)
+  await ref.delete()
+}
+
+/**
+ * Dates (YYYY-MM-DD) of every update that has dropped, oldest first: the calendar's
+ * live and settled updates plus any backtested update that predates the calendar
+ */
+export async function loadReleasedUpdateDates(): Promise<string[]> {
+  const [updates, backtested] = await Promise.all([loadRosterUpdates(), loadUpdateDates()])
+  const released = updates.filter(u => u.state !== 'upcoming').map(u => u.date)
+  return [...new Set([...released, ...backtested])].sort()
+}
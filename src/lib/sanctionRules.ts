@@ -0,0 +1,106 @@
+// src/lib/sanctionRules.ts
+// Moderator sanctions on a user (mute, timeout, ban), kept on users/{uid}.sanction
+// Pure types and helpers shared by the sanctions API, the handlers that enforce them and /account/[uid];
+// storage and enforcement live in sanctions.ts
+import type { FieldErrors, Validated } from '@/lib/apiError'
+
+// mute: can't post until lifted; timeout: can't post, like or vote until it runs out; ban: none of those until lifted
+export type SanctionKind = 'mute' | 'timeout' | 'ban'
+
+export const SANCTION_KINDS: SanctionKind[] = ['mute', 'timeout', 'ban']
+
+export const SANCTION_LABELS: Record<SanctionKind, string> = {
+  mute:    'Mute',
+  timeout: 'Timeout',
+  ban:     'Ban',
+}
+
+// what a handler lets the user do: post to chat or comments, or like and vote
+export type SanctionedAction = 'post' | 'react'
+
+const BLOCKS: Record<SanctionKind, SanctionedAction[]> = {
+  mute:    ['post'],
+  timeout: ['post', 'react'],
+  ban:     ['post', 'react'],
+}
+
+// timeout lengths offered on the account page (minutes)
+export const TIMEOUT_OPTIONS: { minutes: number; label: string }[] = [
+  { minutes: 10,    label: '10 minutes' },
+  { minutes: 60,    label: '1 hour' },
+  { minutes: 1440,  label: '24 hours' },
+  { minutes: 10080, label: '7 days' },
+]
+
+export const MAX_TIMEOUT_MINUTES = 30 * 1440
+export const MAX_REASON = 300
+
+export interface Sanction {
+  kind:   SanctionKind
+  reason: string | null   // shown to the user in the 403 message
+  until:  number | null   // ms; set for timeouts only
+  by:     string          // moderator uid
+  at:     number
+}
+
+export interface SanctionInput {
+  kind:    SanctionKind
+  minutes: number | null
+  reason:  string | null
+}
+
+/**
+ * The sanction still in force at `now`: a timeout that has run out counts as none
+ */
+export function activeSanction(s: Sanction | null | undefined, now = Date.now()): Sanction | null {
+  if (!s || !SANCTION_KINDS.includes(s.kind)) return null
+  if (s.kind === 'timeout' && (s.until == null || s.until <= now)) return null
+  return s
+}
+
+/**
+ * True when `s` stops the user doing `action`
+ */
+export function blocks(s: Sanction, action: SanctionedAction): boolean {
+  return BLOCKS[s.kind].includes(action)
+}
+
+/**
+ * "You're timed out until Apr 25, 3:00 PM (spamming links)."
+ */
+export function sanctionMessage(s: Sanction): string {
+  const base = s.kind === 'mute' ? "You're muted and can't post"
+    : s.kind === 'ban' ? 'Your account is banned from posting, liking and voting'
+    : `You're timed out until ${new Date(s.until!).toLocaleString('en-US', {
+        month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit', timeZone: 'UTC', timeZoneName: 'short'
+      })}`
+  return s.reason ? `${base} (${s.reason}).` : `${base}.`
+}
+
+/**
+ * POST /api/users/:uid/sanction body: `{ kind, minutes?, reason? }`; minutes is required for a timeout
+ */
+export function validateSanction(input: unknown): Validated<SanctionInput> {
+  const body = input && typeof input === 'object' ? input as Record<string, unknown> : {}
+  const errors: FieldErrors = {}
+
+  const { kind, minutes, reason } = body
+  if (!SANCTION_KINDS.includes(kind as SanctionKind)) errors.kind = `Must be one of ${SANCTION_KINDS.join(', ')}`
+  if (kind === 'timeout' && (typeof minutes !== 'number' || !Number.isInteger(minutes) ||
+      minutes < 1 || minutes > MAX_TIMEOUT_MINUTES)) {
+    errors.minutes = `Must be 1 to ${MAX_TIMEOUT_MINUTES} minutes`
+  }
+  if (reason != null && (typeof reason !== 'string' || reason.trim().length > MAX_REASON)) {
+    errors.reason = `At most ${MAX_REASON} characters`
+  }
+
+  if (Object.keys(errors).length > 0) return { ok: false, fields: errors }
+  return {
+    ok: true,
+    value: {
+      kind:    kind as SanctionKind,
+      minutes: kind === 'timeout' ? minutes as number : null,
+      reason:  (reason as string | null | undefined)?.trim() || null,
+    },
+  }
+}
@@ -0,0 +1,86 @@
+// src/lib/sanctions.ts
+// Sanction storage on users/{uid}.sanction and its enforcement in the chat, comment, like and vote handlers
+// Types, validation and messages live in sanctionRules.ts for client use
+import admin from 'firebase-admin'
+import { firestore } from '@/lib/firebaseAdmin'
+import { hasRole } from '@/lib/roles'
+import {
+  activeSanction,
+  blocks,
+  sanctionMessage,
+  type Sanction,
+  type SanctionedAction,
+  type SanctionInput
+} from '@/lib/sanctionRules'
+import { ApiError } from '@/lib/apiError'
+
+export class SanctionError extends ApiError {
+  constructor(message: string, status: number, details: Record<string, unknown> = {}) {
+    super(message, status, undefined, details)
+    this.name = 'SanctionError'
+  }
+}
+
+const userRef = (uid: string) => firestore.collection('users').doc(uid)
+
+/**
+ * The user's sanction as stored, or null; an expired timeout is still returned
+ */
+export async function loadSanction(uid: string): Promise<Sanction | null> {
+  const snap = await userRef(uid).get()
+  return (snap.get('sanction') as Sanction | undefined) ?? null
+}
+
+/**
+ * The sanction in force that stops `uid` doing `action`, or null
+ */
+export async function blockingSanction(uid: string, action: SanctionedAction): Promise<Sanction | null> {
+  const s = activeSanction(await loadSanction(uid))
+  return s && blocks(s, action) ? s : null
+}
+
+/**
+ * 403 with the reason when a sanction in force stops `uid` doing `action`
+ */
+export async function assertNotSanctioned(uid: string, action: SanctionedAction): Promise<void> {
+  const s = await blockingSanction(uid, action)
+  if (s) throw new SanctionError(sanctionMessage(s), 403, { sanction: { kind: s.kind, until: s.until } })
+}
+
+/**
+ * Mute, time out or ban a user, replacing any sanction they already have.
+ * Moderators can't sanction themselves or anyone holding a moderator or admin role
+ */
+export async function setSanction(uid: string, input: SanctionInput, moderatorId: string): Promise<Sanction> {
+  if (uid === moderatorId) throw new SanctionError("You can't sanction yourself", 400)
+  let user: admin.auth.UserRecord
+  try {
+    user = await admin.auth().getUser(uid)
+  } catch {
+    throw new SanctionError('User not found', 404)
+  }
+  if (hasRole(user.customClaims, 'moderator')) {
+    throw new SanctionError("Moderators and admins can't be sanctioned", 403)
+  }
+
+  const now = Date.now()
+  const sanction: Sanction = {
+    kind:   input.kind,
+    reason: input.reason,
+    until:  input.minutes ? now + input.minutes * 60000 : null,
+    by:     moderatorId,
+    at:     now,
+  }
+  await userRef(uid).set({ sanction }, { merge: true })
+  return sanction
+}
+
+/**
+ * Lift the user's sanction; returns the one that was lifted
+ */
+export async function liftSanction(uid: string): Promise<Sanction> {
+  const previous = await loadSanction(uid)
+  if (!previous) throw new SanctionError('This user has no sanction', 404)
+  await userRef(uid).update({ sanction: admin.firestore.FieldValue.delete() })
+  return previous
+}
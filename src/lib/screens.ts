@@ -0,0 +1,38 @@
+// src/lib/screens.ts
+// Saved predictions-page screens: a named copy of the page's URL state (columns, sort, filters,
+// page size and search) stored under users/{uid}/screens. Pure so the API and page can share it
+
+export interface Screen {
+  id:        string
+  name:      string
+  query:     string   // predictions page query string, e.g. "rarity=diamond&filters=..."
+  createdAt: number
+  updatedAt: number
+}
+
+// predictions page URL keys a screen keeps; the page index is deliberately left out
+export const SCREEN_PARAMS = ['rarity', 'type', 'search', 'filters', 'match', 'columns', 'sort', 'desc', 'size']
+
+export const MAX_SCREENS         = 50
+export const MAX_SCREEN_NAME     = 60
+export const MAX_SCREEN_QUERY    = 4000
+
+/**
+ * Keep only the screen params from a query string, in a stable order
+ */
+export function sanitizeScreenQuery(query: string): string {
+  const source = new URLSearchParams(query)
+  const out    = new URLSearchParams()
+  SCREEN_PARAMS.forEach(k => {
+    const v = source.get(k)
+    if (v) out.set(k, v)
+  })
+  return out.toString()
+}
+
+/**
+ * Link that opens the predictions page on a saved screen
+ */
+export function screenLink(origin: string, uid: string, screenId: string): string {
+  return `${origin}/predictions?${new URLSearchParams({ screen: screenId, owner: uid })}`
+}
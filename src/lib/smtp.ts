@@ -0,0 +1,176 @@
+// src/lib/smtp.ts
+// Minimal SMTP client on node:net/node:tls for the SMTP mail transport (see mail.ts)
+// Supports implicit TLS (port 465), STARTTLS when the server offers it, and AUTH PLAIN over TLS only
+import net from 'node:net'
+import tls from 'node:tls'
+import os from 'node:os'
+
+export interface SmtpConfig {
+  host:    string
+  port:    number
+  secure:  boolean   // TLS from the first byte; otherwise STARTTLS is used when offered
+  user?:   string
+  pass?:   string
+}
+
+interface SmtpReply {
+  code:  number
+  lines: string[]
+}
+
+// give up on a silent server (connecting, handshaking or replying) rather than hold a request open
+const REPLY_TIMEOUT_MS = 30 * 1000
+
+/**
+ * One SMTP conversation: reads multi-line replies and sends commands
+ */
+class SmtpSession {
+  private buffer  = ''
+  private lines:   string[] = []
+  private replies: SmtpReply[] = []
+  private waiting: { resolve: (r: SmtpReply) => void; reject: (e: Error) => void } | null = null
+  private failure: Error | null = null
+
+  constructor(private socket: net.Socket) {
+    this.attach(socket)
+  }
+
+  private attach(socket: net.Socket) {
+    this.socket = socket
+    socket.setEncoding('utf8')
+    socket.setTimeout(REPLY_TIMEOUT_MS, () => this.fail(new Error('SMTP server timed out')))
+    socket.on('data', (chunk: string) => this.onData(chunk))
+    socket.on('error', err => this.fail(err))
+    socket.on('close', () => this.fail(new Error('SMTP connection closed')))
+  }
+
+  private onData(chunk: string) {
+    this.buffer += chunk
+    let nl: number
+    while ((nl = this.buffer.indexOf('\n')) >= 0) {
+      const line = this.buffer.slice(0, nl).replace(/\r$/, '')
+      this.buffer = this.buffer.slice(nl + 1)
+      this.lines.push(line.slice(4))
+      // "250-..." continues a reply, "250 ..." ends it
+      if (line[3] !== '-') {
+        this.replies.push({ code: Number(line.slice(0, 3)), lines: this.lines })
+        this.lines = []
+      }
+    }
+    this.flush()
+  }
+
+  private flush() {
+    if (!this.waiting) return
+    const next = this.replies.shift()
+    if (next) {
+      this.waiting.resolve(next)
+      this.waiting = null
+    } else if (this.failure) {
+      this.waiting.reject(this.failure)
+      this.waiting = null
+    }
+  }
+
+  private fail(err: Error) {
+    this.failure ??= err
+    this.flush()
+  }
+
+  read(): Promise<SmtpReply> {
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject }
+      this.flush()
+    })
+  }
+
+  /**
+   * Send a command (or, without one, just read) and require one of the expected reply codes
+   */
+  async command(line: string | null, expect: number[], label = line ?? 'greeting'): Promise<SmtpReply> {
+    if (line !== null) this.socket.write(line + '\r\n')
+    const reply = await this.read()
+    if (!expect.includes(reply.code)) {
+      // never echo credentials into logs
+      const what = label.startsWith('AUTH') ? 'AUTH' : label
+      throw new Error(`SMTP ${what} failed: ${reply.code} ${reply.lines.join(' ')}`)
+    }
+    return reply
+  }
+
+  /**
+   * Upgrade the connection after a successful STARTTLS
+   */
+  async startTls(host: string) {
+    const plain = this.socket
+    plain.removeAllListeners('data')
+    plain.removeAllListeners('close')
+    plain.setTimeout(0)
+    const secure = tls.connect({ socket: plain, servername: host })
+    const onTimeout = () => secure.destroy(new Error('SMTP TLS handshake timed out'))
+    secure.setTimeout(REPLY_TIMEOUT_MS, onTimeout)
+    await new Promise<void>((resolve, reject) => {
+      secure.once('secureConnect', resolve)
+      secure.once('error', reject)
+    })
+    secure.off('timeout', onTimeout)
+    this.attach(secure)
+  }
+
+  end() {
+    this.socket.removeAllListeners('close')
+    this.socket.end()
+  }
+}
+
+function connect(config: SmtpConfig): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const onTimeout = () => socket.destroy(new Error('SMTP connection timed out'))
+    const ready = () => {
+      socket.off('timeout', onTimeout)
+      resolve(socket)
+    }
+    const socket = config.secure
+      ? tls.connect({ host: config.host, port: config.port, servername: config.host }, ready)
+      : net.connect({ host: config.host, port: config.port }, ready)
+    socket.setTimeout(REPLY_TIMEOUT_MS, onTimeout)
+    socket.once('error', reject)
+  })
+}
+
+// a lone "." ends DATA, so lines starting with one get it doubled
+const dotStuff = (raw: string) => raw.replace(/\r?\n/g, '\r\n').replace(/^\./gm, '..')
+
+/**
+ * Deliver one already-formatted message (headers + body) to `to` through the SMTP server
+ */
+export async function sendSmtp(config: SmtpConfig, from: string, to: string, raw: string): Promise<void> {
+  const session = new SmtpSession(await connect(config))
+  try {
+    await session.command(null, [220])
+    const ehlo = await session.command(`EHLO ${os.hostname()}`, [250])
+
+    let encrypted = config.secure
+    if (!encrypted && ehlo.lines.some(l => l.toUpperCase() === 'STARTTLS')) {
+      await session.command('STARTTLS', [220])
+      await session.startTls(config.host)
+      await session.command(`EHLO ${os.hostname()}`, [250])
+      encrypted = true
+    }
+
+    if (config.user) {
+      // a missing (or stripped) STARTTLS must not send the password in the clear
+      if (!encrypted) throw new Error('SMTP server did not offer TLS; refusing to send credentials unencrypted')
+      const token = Buffer.from(`\0${config.user}\0${config.pass ?? ''}`).toString('base64')
+      await session.command(`AUTH PLAIN ${token}`, [235])
+    }
+
+    await session.command(`MAIL FROM:<${from}>`, [250])
+    await session.command(`RCPT TO:<${to}>`, [250, 251])
+    await session.command('DATA', [354])
+    await session.command(`${dotStuff(raw)}\r\n.`, [250], 'message body')
+    await session.command('QUIT', [221]).catch(() => undefined)
+  } finally {
+    session.end()
+  }
+}
@@ -0,0 +1,290 @@
+// src/lib/valuation.ts
+// Shared valuation engine: quick-sell ladders, confidence and profit math
+// Pure functions only (no Firebase imports) so API routes and client pages can share it
+
+// One rung of the quick-sell ladder: every OVR >= minOvr is worth `value` stubs
+export interface QsStep {
+  minOvr: number
+  value:  number
+}
+
+// Quick-sell ladder for a single game year, steps sorted by ascending minOvr
+export interface QsTable {
+  gameYear: number
+  steps:    QsStep[]
+}
+
+// Versioned quick-sell tables keyed by game year
+// A new season's ladder is added here and CURRENT_GAME_YEAR bumped
+export const QS_TABLES: Record<number, QsTable> = {
+  25: {
+    gameYear: 25,
+    steps: [
+      { minOvr: 0,  value: 5     },
+      { minOvr: 65, value: 25    },
+      { minOvr: 75, value: 50    },
+      { minOvr: 76, value: 75    },
+      { minOvr: 77, value: 100   },
+      { minOvr: 78, value: 125   },
+      { minOvr: 79, value: 150   },
+      { minOvr: 80, value: 400   },
+      { minOvr: 81, value: 600   },
+      { minOvr: 82, value: 900   },
+      { minOvr: 83, value: 1200  },
+      { minOvr: 84, value: 1500  },
+      { minOvr: 85, value: 3000  },
+      { minOvr: 86, value: 3750  },
+      { minOvr: 87, value: 4500  },
+      { minOvr: 88, value: 5500  },
+      { minOvr: 89, value: 7000  },
+      { minOvr: 90, value: 8000  },
+      { minOvr: 91, value: 9000  },
+      { minOvr: 92, value: 10000 },
+    ],
+  },
+}
+
+export const CURRENT_GAME_YEAR = 25
+
+// Look up the ladder for a game year, falling back to the current season
+export function getQsTable(gameYear: number = CURRENT_GAME_YEAR): QsTable {
+  return QS_TABLES[gameYear] ?? QS_TABLES[CURRENT_GAME_YEAR]
+}
+
+// Quick-sell value for an overall rating (0 when the rating is unusable)
+export function qsValue(ovr: number, table: QsTable = getQsTable()): number {
+  if (!Number.isFinite(ovr)) return 0
+  let value = 0
+  for (const step of table.steps) {
+    if (ovr < step.minOvr) break
+    value = step.value
+  }
+  return value
+}
+
+// Linear confidence heuristic: 100% for a zero-width interval, minus 5 points per OVR of width
+// Used until calibration tables exist, and for cells with too few realized outcomes
+export function confidencePercentage(low: number, high: number): number {
+  const conf = 100 - (high - low) * 5
+  return Math.max(0, Math.min(100, conf))
+}
+
+const round1 = (n: number) => Math.round(n * 10) / 10
+
+// Profit as a percentage of the buy price, rounded to 2 decimals
+export function profitPct(profit: number, price: number): number {
+  return price > 0 ? Math.round((profit / price) * 10000) / 100 : 0
+}
+
+// The marketplace keeps 10% of every sale; quick-selling is untaxed
+export const MARKET_TAX_RATE = 0.1
+
+// Tax on one marketplace sale, in whole stubs
+export function marketTax(price: number): number {
+  return Math.round(price * MARKET_TAX_RATE)
+}
+
+// What the seller actually receives for one marketplace sale
+export function netSalePrice(price: number): number {
+  return price - marketTax(price)
+}
+
+// Expected marketplace sale price once the card settles at a new OVR:
+// the new quick-sell floor plus whatever premium the market pays over the floor today
+export function marketExitPrice(qsAfter: number, price: number, qsNow: number): number {
+  return qsAfter + Math.max(0, price - qsNow)
+}
+
+// One integer OVR outcome and its probability (0-1)
+export interface OvrOutcome {
+  ovr: number
+  p:   number
+}
+
+// predicted_rank_low/high are read as the 2.5th/97.5th percentiles of the post-update OVR
+const Z_95 = 1.959964
+
+// outcomes below this probability are dropped from the distribution
+const MIN_OUTCOME_P = 0.001
+
+// Standard normal CDF (Abramowitz & Stegun 7.1.26, error < 1.5e-7)
+function normalCdf(z: number): number {
+  const t = 1 / (1 + 0.3275911 * Math.abs(z) / Math.SQRT2)
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))))
+  const erf = 1 - poly * Math.exp(-(z * z) / 2)
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2
+}
+
+// CDF of a split normal: separate spreads below and above the predicted rank,
+// so a lopsided interval keeps its skew
+function splitNormalCdf(x: number, mu: number, sdLow: number, sdHigh: number): number {
+  const wLow = sdLow + sdHigh > 0 ? sdLow / (sdLow + sdHigh) : 0.5
+  if (x < mu) return sdLow  > 0 ? 2 * wLow * normalCdf((x - mu) / sdLow) : 0
+  return wLow + (sdHigh > 0 ? (1 - wLow) * (2 * normalCdf((x - mu) / sdHigh) - 1) : 1 - wLow)
+}
+
+/**
+ * Discrete probability distribution over integer post-update OVRs
+ * Each integer k collects the continuous mass in [k - 0.5, k + 0.5)
+ */
+export function ovrDistribution(predicted: number, low: number, high: number): OvrOutcome[] {
+  if (!Number.isFinite(predicted)) return []
+  const sdLow  = Math.max(0, predicted - Math.min(low, predicted))  / Z_95
+  const sdHigh = Math.max(0, Math.max(high, predicted) - predicted) / Z_95
+
+  const from = Math.floor(predicted - 4 * sdLow)
+  const to   = Math.ceil(predicted + 4 * sdHigh)
+
+  const raw: OvrOutcome[] = []
+  for (let k = from; k <= to; k++) {
+    const p = splitNormalCdf(k + 0.5, predicted, sdLow, sdHigh) -
+              splitNormalCdf(k - 0.5, predicted, sdLow, sdHigh)
+    if (p >= MIN_OUTCOME_P) raw.push({ ovr: k, p })
+  }
+
+  // renormalize after trimming the tails
+  const total = raw.reduce((a, o) => a + o.p, 0)
+  if (total <= 0) return [{ ovr: Math.round(predicted), p: 1 }]
+  return raw.map(o => ({ ovr: o.ovr, p: Math.round((o.p / total) * 10000) / 10000 }))
+}
+
+// Probability (0-100) that the final OVR is at least `threshold`
+function probAtLeast(dist: OvrOutcome[], threshold: number): number {
+  return dist.reduce((a, o) => a + (o.ovr >= threshold ? o.p : 0), 0) * 100
+}
+
+// Inputs needed to value a card: current OVR, the model's interval and an optional market price
+// confidence_percentage carries a calibrated value when the caller has one (see calibration.ts)
+export interface ValuationInput {
+  ovr:                    number
+  predicted_rank:         number
+  predicted_rank_low:     number
+  predicted_rank_high:    number
+  market_price?:          number | null
+  confidence_percentage?: number
+}
+
+// Derived quick-sell, price and profit fields shared by every card payload
+// predicted_profit* assume a quick-sell exit (untaxed); predicted_profit_market* assume selling on
+// the marketplace at marketExitPrice and paying the sell tax
+export interface CardValuation {
+  confidence_percentage: number
+  interval_width:        number
+
+  qs_actual:    number
+  qs_pred_low:  number
+  qs_pred:      number
+  qs_pred_high: number
+
+  market_price: number
+
+  predicted_profit_low:  number
+  predicted_profit:      number
+  predicted_profit_high: number
+  predicted_ev_profit:   number
+
+  predicted_profit_pct:      number
+  predicted_profit_pct_low:  number
+  predicted_profit_pct_high: number
+
+  market_exit_price:            number
+  predicted_profit_market_low:  number
+  predicted_profit_market:      number
+  predicted_profit_market_high: number
+  predicted_profit_market_pct:  number
+
+  // distribution over integer post-update OVRs and the probabilities (0-100) derived from it
+  ovr_distribution:   OvrOutcome[]
+  prob_profit:        number
+  prob_upgrade:       number
+  prob_downgrade:     number
+  prob_next_qs_step:  number
+  qs_threshold_probs: Record<string, number>
+}
+
+// Value a card against a quick-sell table
+// Predicted ranks are rounded to whole OVRs before the ladder lookup,
+// and a missing market price falls back to the current quick-sell value
+export function valueCard(
+  input: ValuationInput,
+  table: QsTable = getQsTable()
+): CardValuation {
+  const { ovr, predicted_rank, predicted_rank_low, predicted_rank_high } = input
+
+  const qs_actual    = qsValue(ovr, table)
+  const qs_pred      = qsValue(Math.round(predicted_rank), table)
+  const qs_pred_low  = qsValue(Math.round(predicted_rank_low), table)
+  const qs_pred_high = qsValue(Math.round(predicted_rank_high), table)
+
+  const price = typeof input.market_price === 'number' && Number.isFinite(input.market_price)
+    ? input.market_price
+    : qs_actual
+
+  const profit      = qs_pred      - price
+  const profit_low  = qs_pred_low  - price
+  const profit_high = qs_pred_high - price
+
+  // market exit: resell at the new floor plus today's premium, minus the sell tax
+  const exit_price  = marketExitPrice(qs_pred, price, qs_actual)
+  const market      = netSalePrice(exit_price) - price
+  const market_low  = netSalePrice(marketExitPrice(qs_pred_low, price, qs_actual))  - price
+  const market_high = netSalePrice(marketExitPrice(qs_pred_high, price, qs_actual)) - price
+
+  // expected value and probabilities over the QS step function
+  const dist = ovrDistribution(predicted_rank, predicted_rank_low, predicted_rank_high)
+  const ev_profit   = Math.round(dist.reduce((a, o) => a + o.p * (qsValue(o.ovr, table) - price), 0) * 100) / 100
+  const prob_profit = dist.reduce((a, o) => a + (qsValue(o.ovr, table) > price ? o.p : 0), 0) * 100
+
+  // P(final OVR >= rung) for every QS rung the distribution straddles
+  const qs_threshold_probs: Record<string, number> = {}
+  table.steps.forEach(step => {
+    if (step.minOvr <= 0) return
+    const p = probAtLeast(dist, step.minOvr)
+    if (p > 0.1 && p < 99.9) qs_threshold_probs[step.minOvr] = round1(p)
+  })
+  const nextStep = table.steps.find(step => step.minOvr > ovr)
+
+  const confPct = input.confidence_percentage
+    ?? confidencePercentage(predicted_rank_low, predicted_rank_high)
+
+  return {
+    confidence_percentage: Math.round(confPct * 10) / 10,
+    interval_width:        Math.round((predicted_rank_high - predicted_rank_low) * 100) / 100,
+
+    qs_actual,
+    qs_pred_low,
+    qs_pred,
+    qs_pred_high,
+
+    market_price: price,
+
+    predicted_profit_low:  profit_low,
+    predicted_profit:      profit,
+    predicted_profit_high: profit_high,
+    predicted_ev_profit:   ev_profit,
+
+    predicted_profit_pct:      profitPct(profit, price),
+    predicted_profit_pct_low:  profitPct(profit_low, price),
+    predicted_profit_pct_high: profitPct(profit_high, price),
+
+    market_exit_price:            exit_price,
+    predicted_profit_market_low:  market_low,
+    predicted_profit_market:      market,
+    predicted_profit_market_high: market_high,
+    predicted_profit_market_pct:  profitPct(market, price),
+
+    ovr_distribution:   dist,
+    prob_profit:        round1(prob_profit),
+    prob_upgrade:       round1(probAtLeast(dist, ovr + 1)),
+    prob_downgrade:     round1(100 - probAtLeast(dist, ovr)),
+    prob_next_qs_step:  nextStep ? round1(probAtLeast(dist, nextStep.minOvr)) : 0,
+    qs_threshold_probs,
+  }
+}
+
+// Cost, value and P/L of holding `quantity` cards bought at `avgBuyPrice` and worth `unitValue` each
+export function positionValue(quantity: number, avgBuyPrice: number, unitValue: number) {
+  const cost  = quantity * avgBuyPrice
+  const value = quantity * unitValue
+  return { cost, value, profit: value - cost }
+}
@@ -0,0 +1,142 @@
+// src/lib/watchlist.ts
+// Cards a user follows without owning them (users/{uid}/watchlist/{cardId})
+// Each entry snapshots the card's price and predicted delta when it was added, so the
+// watchlist can show how both moved since
+import { firestore }     from '@/lib/firebaseAdmin'
+import { loadLiveCards, type CardPayload } from '@/lib/liveCards'
+import { ApiError } from '@/lib/apiError'
+
+// stored document; the doc id is the card id so a card is watched at most once
+export interface WatchEntry {
+  cardId:       string
+  playerName:   string
+  addedAt:      number
+  priceAtAdd:   number
+  deltaAtAdd:   number   // delta_rank_pred (predicted_rank - ovr) when added
+}
+
+// Card fields shown beside a watched card
+export interface WatchCard {
+  name:                  string
+  baked_img?:            string
+  ovr:                   number
+  team_short_name:       string
+  display_position:      string
+  market_price:          number
+  predicted_rank:        number
+  delta_rank_pred:       number
+  predicted_profit:      number
+  confidence_percentage: number
+}
+
+export interface WatchlistItem extends WatchEntry {
+  card: WatchCard | null   // null once the card drops out of the live predictions
+
+  price_change:     number | null
+  price_change_pct: number | null
+  delta_change:     number | null
+}
+
+export class WatchlistError extends ApiError {
+  constructor(message: string, status: number) {
+    super(message, status)
+    this.name = 'WatchlistError'
+  }
+}
+
+export const MAX_WATCHLIST = 200
+
+const round2 = (n: number) => Math.round(n * 100) / 100
+
+const watchlistRef = (uid: string) =>
+  firestore.collection('users').doc(uid).collection('watchlist')
+
+function toWatchCard(c: CardPayload): WatchCard {
+  return {
+    name:                  c.name,
+    baked_img:             c.baked_img,
+    ovr:                   c.ovr,
+    team_short_name:       c.team_short_name,
+    display_position:      c.display_position,
+    market_price:          c.market_price,
+    predicted_rank:        c.predicted_rank,
+    delta_rank_pred:       c.delta_rank_pred,
+    predicted_profit:      c.predicted_profit,
+    confidence_percentage: c.confidence_percentage,
+  }
+}
+
+/**
+ * Price and predicted-delta movement of one entry against the live card
+ */
+export function watchlistItem(entry: WatchEntry, card: CardPayload | undefined): WatchlistItem {
+  if (!card) {
+    return { ...entry, card: null, price_change: null, price_change_pct: null, delta_change: null }
+  }
+  const priceChange = card.market_price - entry.priceAtAdd
+  return {
+    ...entry,
+    card:             toWatchCard(card),
+    price_change:     priceChange,
+    price_change_pct: entry.priceAtAdd > 0 ? round2((priceChange / entry.priceAtAdd) * 100) : null,
+    delta_change:     round2(card.delta_rank_pred - entry.deltaAtAdd),
+  }
+}
+
+/**
+ * A user's watchlist with live prices, newest first
+ */
+export async function loadWatchlist(uid: string): Promise<WatchlistItem[]> {
+  const [snap, cards] = await Promise.all([
+    watchlistRef(uid).orderBy('addedAt', 'desc').get(),
+    loadLiveCards(),
+  ])
+  const byId = new Map(cards.map(c => [c.id, c]))
+  return snap.docs.map(d => watchlistItem(d.data() as WatchEntry, byId.get(d.id)))
+}
+
+/**
+ * The entry for one card, or null when it isn't watched
+ */
+export async function getWatchEntry(uid: string, cardId: string): Promise<WatchEntry | null> {
+  const doc = await watchlistRef(uid).doc(cardId).get()
+  return doc.exists ? doc.data() as WatchEntry : null
+}
+
+/**
+ * Start watching a live card, snapshotting its current price and predicted delta.
+ * Watching an already-watched card keeps the original snapshot
+ */
+export async function addToWatchlist(uid: string, cardId: string): Promise<{ item: WatchlistItem; created: boolean }> {
+  const card = (await loadLiveCards()).find(c => c.id === cardId)
+  if (!card) throw new WatchlistError('Card not found', 404)
+
+  const ref = watchlistRef(uid).doc(cardId)
+  return firestore.runTransaction(async t => {
+    const existing = await t.get(ref)
+    if (existing.exists) {
+      return { item: watchlistItem(existing.data() as WatchEntry, card), created: false }
+    }
+    const count = await t.get(watchlistRef(uid).count())
+    if (count.data().count >= MAX_WATCHLIST) {
+      throw new WatchlistError(`Watchlist is limited to ${MAX_WATCHLIST} cards`, 409)
+    }
+
+    const entry: WatchEntry = {
+      cardId,
+      playerName: card.name,
+      addedAt:    Date.now(),
+      priceAtAdd: card.market_price,
+      deltaAtAdd: card.delta_rank_pred,
+    }
+    t.set(ref, entry)
+    return { item: watchlistItem(entry, card), created: true }
+  })
+}
+
+/**
+ * Stop watching a card; removing one that isn't watched is a no-op
+ */
+export async function removeFromWatchlist(uid: string, cardId: string): Promise<void> {
+  await watchlistRef(uid).doc(cardId).delete()
+}
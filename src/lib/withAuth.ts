@@ -0,0 +1,120 @@
+// src/lib/withAuth.ts
+// Route handler wrapper: Firebase ID token (or CRON_SECRET) auth, request ids and the JSON error envelope
+// Every API route exports its handlers through withAuth instead of parsing Authorization itself
+import { NextResponse } from 'next/server'
+import admin from 'firebase-admin'
+import type { DecodedIdToken } from 'firebase-admin/auth'
+import '@/lib/firebaseAdmin'
+import { ApiError } from '@/lib/apiError'
+import { isCronRequest } from '@/lib/cronAuth'
+import { hasRole, type Role } from '@/lib/roles'
+
+// none: no token read; optional: uid when a valid token is sent, else null;
+// required: any signed-in user; moderator/admin: that role or higher; cron: CRON_SECRET only
+export type AuthMode = 'none' | 'optional' | 'required' | 'moderator' | 'admin' | 'cron'
+
+interface BaseOptions {
+  failure?: string   // message for unexpected errors (500); the log has the details
+}
+
+export interface OptionalAuthOptions extends BaseOptions {
+  auth: 'none' | 'optional'
+}
+
+export interface RequiredAuthOptions extends BaseOptions {
+  auth:  'required' | 'moderator' | 'admin' | 'cron'
+  cron?: boolean     // with required or a role: a CRON_SECRET bearer passes too, as uid 'server'
+}
+
+export interface ApiContext<P, U extends string | null = string> {
+  params:    P
+  uid:       U                       // 'server' for CRON_SECRET callers
+  token:     DecodedIdToken | null   // null for anonymous and CRON_SECRET callers
+  requestId: string
+  log:       (message: string) => void
+}
+
+type Handler<P, U extends string | null> = (request: Request, ctx: ApiContext<P, U>) => Promise<Response>
+
+// what Next passes route handlers; routes without dynamic segments get empty params
+type RouteHandler<P> = (request: Request, context: { params: Promise<P> }) => Promise<Response>
+
+/**
+ * The error envelope: `{ error, code, requestId, ...details }`
+ */
+export function errorResponse(err: ApiError, requestId: string): NextResponse {
+  return NextResponse.json(
+    { error: err.message, code: err.code, requestId, ...err.details },
+    { status: err.status, headers: { 'x-request-id': requestId } }
+  )
+}
+
+async function verify(request: Request): Promise<DecodedIdToken | null> {
+  const match = (request.headers.get('authorization') || '').match(/^Bearer (.+)$/)
+  if (!match) return null
+  try {
+    return await admin.auth().verifyIdToken(match[1])
+  } catch {
+    return null
+  }
+}
+
+async function authenticate(
+  request: Request,
+  mode:    AuthMode,
+  cron:    boolean
+): Promise<{ uid: string | null; token: DecodedIdToken | null }> {
+  if (mode === 'none') return { uid: null, token: null }
+  if (mode === 'cron' || cron) {
+    if (isCronRequest(request)) return { uid: 'server', token: null }
+    if (mode === 'cron') throw new ApiError('Not authorized', 401)
+  }
+
+  const token = await verify(request)
+  if (mode === 'optional') return { uid: token?.uid ?? null, token }
+  if (!token) throw new ApiError('Authentication failed', 401)
+  if (mode !== 'required' && !hasRole(token, mode as Role)) {
+    throw new ApiError(`Requires the ${mode} role`, 403)
+  }
+  return { uid: token.uid, token }
+}
+
+/**
+ * Wrap a route handler: authenticate per `options.auth`, resolve params, tag the request with an id
+ * (the caller's x-request-id or a new one, echoed back) and turn thrown errors into the envelope.
+ * ApiErrors answer with their status; anything else is logged with the request id and answers 500
+ */
+export function withAuth<P = Record<string, never>>(
+  handler: Handler<P, string | null>,
+  options: OptionalAuthOptions
+): RouteHandler<P>
+export function withAuth<P = Record<string, never>>(
+  handler: Handler<P, string>,
+  options: RequiredAuthOptions
+): RouteHandler<P>
+export function withAuth<P>(
+  handler: Handler<P, string> | Handler<P, string | null>,
+  options: OptionalAuthOptions | RequiredAuthOptions
+): RouteHandler<P> {
+  return async (request, context) => {
+    const requestId = request.headers.get('x-request-id') || crypto.randomUUID()
+    const where = `${request.method} ${new URL(request.url).pathname}`
+    const log = (message: string) => console.log(`[${requestId}] ${message}`)
+
+    try {
+      const cron = 'cron' in options && options.cron === true
+      const { uid, token } = await authenticate(request, options.auth, cron)
+      const params = await context.params
+      const response = await (handler as Handler<P, string | null>)(request, { params, uid, token, requestId, log })
+      response.headers.set('x-request-id', requestId)
+      return response
+    } catch (err) {
+      if (err instanceof ApiError) {
+        if (err.status >= 500) console.error(`[${requestId}] ${where} failed:`, err)
+        return errorResponse(err, requestId)
+      }
+      console.error(`[${requestId}] ${where} failed:`, err)
+      return errorResponse(new ApiError(options.failure ?? 'Something went wrong', 500), requestId)
+    }
+  }
+}